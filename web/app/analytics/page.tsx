@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+
+import { reconnectGoogle } from '@/components/providers';
+import type { CountEntry, ReplySummary } from '@/lib/analytics';
+import { formatDuration } from '@/lib/format';
+import { ReauthRequiredError, responseError } from '@/lib/reauth';
+
+type AnalyticsResponse = {
+  days?: number;
+  summary?: ReplySummary;
+  error?: string;
+  code?: string;
+};
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const ORIGIN_LABELS: Record<string, string> = {
+  template: 'Template',
+  'smart-draft': 'Smart draft',
+  'saved-draft': 'Saved draft',
+  manual: 'Written from scratch',
+};
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl bg-white p-5 shadow-sm">
+      <p className="text-xs font-medium uppercase tracking-wide text-zinc-500">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-zinc-900">{value}</p>
+    </div>
+  );
+}
+
+function BarList({ title, entries, empty, label }: {
+  title: string;
+  entries: CountEntry[];
+  empty: string;
+  label?: (key: string) => string;
+}) {
+  const max = Math.max(...entries.map((entry) => entry.count), 1);
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {entries.length ? (
+        <ul className="mt-4 flex flex-col gap-2">
+          {entries.map((entry) => (
+            <li key={entry.key} className="flex items-center gap-3 text-sm">
+              <span className="w-40 truncate text-zinc-600" title={entry.key}>
+                {label ? label(entry.key) : entry.key}
+              </span>
+              <span className="h-2 flex-1 rounded-full bg-zinc-100">
+                <span
+                  className="block h-2 rounded-full bg-slate-700"
+                  style={{ width: `${(entry.count / max) * 100}%` }}
+                />
+              </span>
+              <span className="w-8 text-right tabular-nums text-zinc-700">{entry.count}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-zinc-500">{empty}</p>
+      )}
+    </section>
+  );
+}
+
+function DailyChart({ entries }: { entries: CountEntry[] }) {
+  const max = Math.max(...entries.map((entry) => entry.count), 1);
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold">Replies per day</h2>
+      <div className="mt-4 flex h-40 items-end gap-1" role="img" aria-label="Daily reply volume">
+        {entries.map((entry) => (
+          <div
+            key={entry.key}
+            title={`${entry.key}: ${entry.count}`}
+            className="flex-1 rounded-t bg-slate-700"
+            style={{ height: `${(entry.count / max) * 100}%`, minHeight: entry.count ? 2 : 0 }}
+          />
+        ))}
+      </div>
+      <div className="mt-2 flex justify-between text-xs text-zinc-400">
+        <span>{entries[0]?.key}</span>
+        <span>{entries[entries.length - 1]?.key}</span>
+      </div>
+    </section>
+  );
+}
+
+export default function AnalyticsPage() {
+  const { status } = useSession();
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<ReplySummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    let cancelled = false;
+
+    async function loadSummary() {
+      try {
+        const response = await fetch(`/api/analytics?days=${days}`);
+        const payload = (await response.json()) as AnalyticsResponse;
+        if (!response.ok || !payload.summary) {
+          throw responseError(payload, 'Failed to load analytics');
+        }
+        if (!cancelled) {
+          setSummary(payload.summary);
+          setError(null);
+        }
+      } catch (loadError) {
+        if (cancelled) return;
+        console.error(loadError);
+        if (loadError instanceof ReauthRequiredError) {
+          reconnectGoogle(loadError.account);
+          return;
+        }
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load analytics');
+      }
+    }
+
+    loadSummary();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days, status]);
+
+  return (
+    <main className="min-h-screen bg-zinc-50 px-4 pb-24 pt-10 text-zinc-900">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold">Reply analytics</h1>
+            <p className="text-sm text-zinc-500">
+              <Link href="/" className="underline hover:text-zinc-700">Back to inbox</Link>
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={days}
+              onChange={(event) => setDays(Number(event.target.value))}
+              className="rounded-full border border-zinc-300 bg-white px-3 py-2 text-sm focus:border-slate-500 focus:outline-none"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  Last {option} days
+                </option>
+              ))}
+            </select>
+            <a
+              href={`/api/analytics?days=${days}&format=csv`}
+              className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800"
+            >
+              Export CSV
+            </a>
+          </div>
+        </header>
+
+        {status === 'unauthenticated' && (
+          <p className="rounded-lg bg-amber-50 p-4 text-sm text-amber-800">Sign in from the inbox to see your analytics.</p>
+        )}
+        {error && <p className="rounded-lg bg-rose-50 p-4 text-sm text-rose-700">{error}</p>}
+
+        {summary && (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <Stat label="Replies sent" value={String(summary.total)} />
+              <Stat label="Median response time" value={formatDuration(summary.medianResponseSeconds)} />
+              <Stat
+                label="Average draft edited"
+                value={summary.averageEditRatio === null ? '—' : `${Math.round(summary.averageEditRatio * 100)}%`}
+              />
+            </div>
+            <DailyChart entries={summary.daily} />
+            <div className="grid gap-4 md:grid-cols-2">
+              <BarList title="Top senders" entries={summary.topSenders} empty="No replies yet." />
+              <BarList title="Template usage" entries={summary.templates} empty="No template replies yet." />
+            </div>
+            <BarList
+              title="How replies were written"
+              entries={summary.origins}
+              empty="No replies yet."
+              label={(key) => ORIGIN_LABELS[key] ?? key}
+            />
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
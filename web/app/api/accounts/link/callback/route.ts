@@ -0,0 +1,39 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { exchangeLinkCode, verifyLinkState } from "@/lib/account-linking";
+import { linkAccount } from "@/lib/accounts";
+import { authOptions } from "@/lib/auth";
+
+function backToInbox(request: Request, params: Record<string, string>) {
+  const url = new URL("/", process.env.NEXTAUTH_URL ?? request.url);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return NextResponse.redirect(url);
+}
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+  const { searchParams, origin } = new URL(request.url);
+
+  if (!owner || verifyLinkState(searchParams.get("state")) !== owner) {
+    return backToInbox(request, { linkError: "The link request expired. Please try again." });
+  }
+
+  const code = searchParams.get("code");
+  if (!code) {
+    return backToInbox(request, { linkError: searchParams.get("error") ?? "Google did not authorise the account" });
+  }
+
+  try {
+    const account = await exchangeLinkCode(code, origin);
+    if (account.email === owner) {
+      return backToInbox(request, { linkError: "That's the account you're signed in with." });
+    }
+
+    return backToInbox(request, { linked: await linkAccount(owner, account) });
+  } catch (error) {
+    console.error("Failed to link Google account", error);
+    return backToInbox(request, { linkError: "Failed to link the account" });
+  }
+}
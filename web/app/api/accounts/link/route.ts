@@ -0,0 +1,24 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { linkAuthorizationUrl } from "@/lib/account-linking";
+import { authOptions } from "@/lib/auth";
+import { requestedAccount } from "@/lib/mailbox";
+
+/**
+ * Starts the Google consent flow for adding another inbox to this user, or
+ * for linking one again (`?account=`) after its access lapsed.
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  return NextResponse.redirect(linkAuthorizationUrl(owner, new URL(request.url).origin, requestedAccount(request)));
+}
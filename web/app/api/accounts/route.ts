@@ -0,0 +1,59 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { listLinkedAccounts, unlinkAccount } from "@/lib/accounts";
+import { authOptions } from "@/lib/auth";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  try {
+    return NextResponse.json({ accounts: await listLinkedAccounts(owner, session?.user?.name ?? null) });
+  } catch (error) {
+    console.error("Failed to list linked accounts", error);
+    return NextResponse.json(
+      { error: "Failed to load accounts" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const email = new URL(request.url).searchParams.get("email")?.toLowerCase();
+
+  if (!email || email === owner) {
+    return NextResponse.json(
+      { error: "Provide a linked account to remove" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await unlinkAccount(owner, email);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to unlink account", error);
+    return NextResponse.json(
+      { error: "Failed to unlink account" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { repliesToCsv, summarizeReplies } from "@/lib/analytics";
+import { listReplyEvents } from "@/lib/analytics-store";
+import { authOptions } from "@/lib/auth";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+/**
+ * Reply statistics for the last `?days=` days (default 30). With
+ * `?format=csv`, downloads the underlying events instead.
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const requestedDays = Number.parseInt(searchParams.get("days") ?? "", 10);
+  const days = Number.isNaN(requestedDays) ? DEFAULT_DAYS : Math.min(Math.max(requestedDays, 1), MAX_DAYS);
+
+  try {
+    const now = new Date();
+    const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const events = await listReplyEvents(owner, since);
+
+    if (searchParams.get("format") === "csv") {
+      return new NextResponse(repliesToCsv(events), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="replies-${now.toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ days, summary: summarizeReplies(events, days, now) });
+  } catch (error) {
+    console.error("Failed to load reply analytics", error);
+    return NextResponse.json(
+      { error: "Failed to load analytics" },
+      { status: 500 },
+    );
+  }
+}
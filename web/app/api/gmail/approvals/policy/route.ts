@@ -0,0 +1,54 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { roleOf, type ApprovalPolicy } from "@/lib/approvals";
+import { getApprovalPolicy, saveApprovalPolicy } from "@/lib/approvals-store";
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+/** Replaces the inbox's roles and the senders and domains that need approval; approvers only. */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const payload = (await request.json()) as Partial<ApprovalPolicy>;
+
+  try {
+    const current = await getApprovalPolicy(mailbox.email);
+    if (roleOf(current, mailbox.email, owner) !== "approver") {
+      return NextResponse.json(
+        { error: "Only approvers can change who needs approval" },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json({ policy: await saveApprovalPolicy(mailbox.email, payload, owner) });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to save approval policy", error);
+    return NextResponse.json(
+      { error: "Failed to save approval settings" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { listMailboxUsers } from "@/lib/accounts";
+import { roleOf, summarizeApproval } from "@/lib/approvals";
+import {
+  decideApproval,
+  getApprovalPolicy,
+  listApprovals,
+  submitForApproval,
+  type ApprovalDecision,
+} from "@/lib/approvals-store";
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import type { DraftPayload } from "@/lib/reply";
+import { createReplyGuard, unsafeReply } from "@/lib/reply-guard";
+import { resolvePostSend } from "@/lib/settings-store";
+
+/** The approval queue for the inbox: the caller's role, the policy and the requests they can see. */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  try {
+    const [policy, teammates] = await Promise.all([
+      getApprovalPolicy(mailbox.email),
+      listMailboxUsers(mailbox.email),
+    ]);
+    const role = roleOf(policy, mailbox.email, owner);
+    const approvals = await listApprovals(mailbox.email, owner, role);
+    return NextResponse.json({
+      account: mailbox.email,
+      role,
+      policy,
+      teammates,
+      approvals: approvals.map(summarizeApproval),
+    });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to list approvals", error);
+    return NextResponse.json(
+      { error: "Failed to load approvals" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Submits a reply for sign-off instead of sending it. Takes the same body as
+ * `POST /api/gmail/reply` and runs the same safety checks first.
+ */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const { allowUnsafe, ...payload } = (await request.json()) as DraftPayload & { allowUnsafe?: boolean };
+
+  if (!payload.messageId || !payload.threadId || !payload.subject || !payload.body) {
+    return NextResponse.json(
+      { error: "Missing required fields" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (!allowUnsafe) {
+      const check = await createReplyGuard(mailbox.gmail, owner, mailbox.email);
+      const issues = await check({ messageId: payload.messageId, threadId: payload.threadId });
+      if (issues.length) return unsafeReply(issues);
+    }
+
+    const approval = await submitForApproval(
+      mailbox.email,
+      { email: owner, name: session.user?.name ?? null },
+      {
+        ...payload,
+        messageId: payload.messageId,
+        threadId: payload.threadId,
+        postSend: await resolvePostSend(owner, mailbox.email, payload.postSend),
+      },
+    );
+    return NextResponse.json({ approval: summarizeApproval(approval) }, { status: 201 });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to submit reply for approval", error);
+    return NextResponse.json(
+      { error: "Failed to submit for approval" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Approves (optionally with an edited body) or rejects `?id=`; approvers only. */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing approval id" },
+      { status: 400 },
+    );
+  }
+
+  const decision = (await request.json()) as ApprovalDecision;
+
+  try {
+    const policy = await getApprovalPolicy(mailbox.email);
+    if (roleOf(policy, mailbox.email, owner) !== "approver") {
+      return NextResponse.json(
+        { error: "Only approvers can sign off on replies" },
+        { status: 403 },
+      );
+    }
+
+    const result = await decideApproval(mailbox.gmail, mailbox.email, id, owner, decision);
+    if (!result) {
+      return NextResponse.json(
+        { error: "This reply was already handled" },
+        { status: 409 },
+      );
+    }
+    if (result.issues) return unsafeReply(result.issues);
+    return NextResponse.json({ approval: summarizeApproval(result.approval) });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to decide approval", error);
+    return NextResponse.json(
+      { error: "Failed to send approved reply" },
+      { status: 500 },
+    );
+  }
+}
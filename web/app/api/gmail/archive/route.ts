@@ -0,0 +1,47 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { batchModifyMessages } from "@/lib/gmail-batch";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+/** Archives messages: removes them from the inbox without deleting them. */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const { ids } = (await request.json()) as { ids?: string[] };
+
+  if (!ids?.length) {
+    return NextResponse.json(
+      { error: "Provide message ids" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await batchModifyMessages(mailbox.gmail, ids, { removeLabelIds: ["INBOX"] });
+
+    return NextResponse.json({ ok: true, archived: new Set(ids).size });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to archive Gmail messages", error);
+    return NextResponse.json(
+      { error: "Failed to archive messages" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { listMailboxUsers } from "@/lib/accounts";
+import { authOptions } from "@/lib/auth";
+import { assignThread, listAssignments, listPresence } from "@/lib/collab-store";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+type AssignPayload = {
+  threadId?: string;
+  /** Teammate to assign the thread to; null releases it. */
+  assignee?: string | null;
+};
+
+/** Who is handling which threads in the inbox, who is drafting, and who could take a thread. */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  try {
+    const [assignments, presence, teammates] = await Promise.all([
+      listAssignments(mailbox.email),
+      listPresence(mailbox.email),
+      listMailboxUsers(mailbox.email),
+    ]);
+    return NextResponse.json({
+      account: mailbox.email,
+      assignments,
+      presence,
+      teammates,
+    });
+  } catch (error) {
+    console.error("Failed to list assignments", error);
+    return NextResponse.json(
+      { error: "Failed to load assignments" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const { threadId, assignee } = (await request.json()) as AssignPayload;
+
+  if (!threadId) {
+    return NextResponse.json(
+      { error: "Thread id is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const teammate = assignee
+      ? (await listMailboxUsers(mailbox.email)).find((user) => user.email === assignee.trim().toLowerCase())
+      : null;
+
+    if (assignee && !teammate) {
+      return NextResponse.json(
+        { error: "That person doesn't have access to this inbox" },
+        { status: 400 },
+      );
+    }
+
+    const assignment = await assignThread(mailbox.email, threadId, teammate ?? null, owner);
+    return NextResponse.json({ assignment });
+  } catch (error) {
+    console.error("Failed to assign thread", error);
+    return NextResponse.json(
+      { error: "Failed to assign thread" },
+      { status: 500 },
+    );
+  }
+}
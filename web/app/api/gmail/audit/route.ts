@@ -0,0 +1,66 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { auditToCsv, roleOf } from "@/lib/approvals";
+import { getApprovalPolicy, listAuditLog } from "@/lib/approvals-store";
+import { authOptions } from "@/lib/auth";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+/**
+ * The inbox's reply audit log for the last `?days=` days (default 30),
+ * newest first; approvers only. With `?format=csv`, downloads it instead.
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const { searchParams } = new URL(request.url);
+  const requestedDays = Number.parseInt(searchParams.get("days") ?? "", 10);
+  const days = Number.isNaN(requestedDays) ? DEFAULT_DAYS : Math.min(Math.max(requestedDays, 1), MAX_DAYS);
+
+  try {
+    const policy = await getApprovalPolicy(mailbox.email);
+    if (roleOf(policy, mailbox.email, owner) !== "approver") {
+      return NextResponse.json(
+        { error: "Only approvers can see the audit log" },
+        { status: 403 },
+      );
+    }
+
+    const now = new Date();
+    const entries = await listAuditLog(mailbox.email, new Date(now.getTime() - days * 24 * 60 * 60 * 1000));
+
+    if (searchParams.get("format") === "csv") {
+      return new NextResponse(auditToCsv(entries), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="reply-audit-${now.toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ days, entries: [...entries].reverse() });
+  } catch (error) {
+    console.error("Failed to load audit log", error);
+    return NextResponse.json(
+      { error: "Failed to load audit log" },
+      { status: 500 },
+    );
+  }
+}
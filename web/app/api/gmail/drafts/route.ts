@@ -0,0 +1,192 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { extractMessageContent, headerValue } from "@/lib/gmail-message";
+import { mailboxForRequest, unknownAccount, type Mailbox } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { mapWithConcurrency } from "@/lib/pool";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { buildReplyRaw, type DraftPayload } from "@/lib/reply";
+
+const DRAFT_CONCURRENCY = 5;
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: "Unauthorized" },
+    { status: 401 },
+  );
+}
+
+async function mailboxForSession(
+  request: Request,
+): Promise<{ mailbox: Mailbox; failure?: never } | { mailbox?: never; failure: NextResponse }> {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) return { failure: unauthorized() };
+  if (needsReauth(session)) return { failure: reauthRequired() };
+
+  const mailbox = await mailboxForRequest(session, request);
+  return mailbox ? { mailbox } : { failure: unknownAccount() };
+}
+
+export async function GET(request: Request) {
+  const { mailbox, failure } = await mailboxForSession(request);
+  if (!mailbox) return failure;
+
+  const threadId = new URL(request.url).searchParams.get("threadId");
+
+  try {
+    const { gmail } = mailbox;
+
+    const { data } = await gmail.users.drafts.list({
+      userId: "me",
+      maxResults: 100,
+    });
+
+    // The list already carries each draft's thread, so only the wanted drafts are fetched in full.
+    const wanted = (data.drafts ?? []).flatMap(({ id, message }) =>
+      id && (!threadId || message?.threadId === threadId) ? [id] : [],
+    );
+
+    const loaded = await mapWithConcurrency(
+      wanted,
+      async (id) => {
+        const detail = await gmail.users.drafts.get({
+          userId: "me",
+          id,
+          format: "full",
+        });
+
+        const draftMessage = detail.data.message;
+        const headers = draftMessage?.payload?.headers ?? [];
+        const { text } = extractMessageContent(draftMessage?.payload);
+
+        return {
+          id,
+          messageId: draftMessage?.id ?? null,
+          threadId: draftMessage?.threadId ?? null,
+          to: headerValue(headers, "To"),
+          cc: headerValue(headers, "Cc"),
+          bcc: headerValue(headers, "Bcc"),
+          subject: headerValue(headers, "Subject"),
+          inReplyTo: headerValue(headers, "In-Reply-To"),
+          body: text ?? "",
+        };
+      },
+      { concurrency: DRAFT_CONCURRENCY },
+    );
+
+    // A draft that still fails after retries is left out, unless the grant itself is gone.
+    const failures = loaded.flatMap((result) => (result.ok ? [] : [result.error]));
+    const reauth = failures.find(isReauthError);
+    if (reauth) throw reauth;
+    for (const failure of failures) console.error("Failed to load Gmail draft", failure);
+
+    return NextResponse.json({
+      drafts: loaded.flatMap((result) => (result.ok ? [result.value] : [])),
+    });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to list Gmail drafts", error);
+    return NextResponse.json(
+      { error: "Failed to load drafts" },
+      { status: 500 },
+    );
+  }
+}
+
+async function saveDraft(request: Request, mode: "create" | "update") {
+  const { mailbox, failure } = await mailboxForSession(request);
+  if (!mailbox) return failure;
+
+  const payload = (await request.json()) as DraftPayload;
+
+  if (!payload.messageId || !payload.threadId || (mode === "update" && !payload.draftId)) {
+    return NextResponse.json(
+      { error: "Missing required fields" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { gmail } = mailbox;
+
+    const raw = await buildReplyRaw(
+      gmail,
+      { ...payload, messageId: payload.messageId },
+      mailbox.email,
+      { signature: false },
+    );
+    const message = { raw, threadId: payload.threadId };
+
+    const { data } =
+      mode === "update" && payload.draftId
+        ? await gmail.users.drafts.update({
+            userId: "me",
+            id: payload.draftId,
+            requestBody: { id: payload.draftId, message },
+          })
+        : await gmail.users.drafts.create({
+            userId: "me",
+            requestBody: { message },
+          });
+
+    return NextResponse.json({
+      draft: {
+        id: data.id ?? null,
+        messageId: data.message?.id ?? null,
+        threadId: data.message?.threadId ?? payload.threadId,
+      },
+    });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to save Gmail draft", error);
+    return NextResponse.json(
+      { error: "Failed to save draft" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  return saveDraft(request, "create");
+}
+
+export async function PUT(request: Request) {
+  return saveDraft(request, "update");
+}
+
+export async function DELETE(request: Request) {
+  const { mailbox, failure } = await mailboxForSession(request);
+  if (!mailbox) return failure;
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing draft id" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { gmail } = mailbox;
+    await gmail.users.drafts.delete({ userId: "me", id });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to delete Gmail draft", error);
+    return NextResponse.json(
+      { error: "Failed to delete draft" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { recordReplies } from "@/lib/analytics-store";
+import { approvalRequired, approvalRequiredFor } from "@/lib/approvals-store";
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { createReplyGuard, unsafeReply } from "@/lib/reply-guard";
+import { sendReply, type DraftPayload } from "@/lib/reply";
+import { resolvePostSend } from "@/lib/settings-store";
+
+/**
+ * Sends a saved draft. The message is always rebuilt from the posted body and
+ * recipients, the ones the approval check just saw, so a draft whose headers
+ * were changed through `PUT /api/gmail/drafts` can't go out unchecked.
+ */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  // Without an address there's no approval policy to check, so nothing is sent from it.
+  if (!mailbox?.email) return unknownAccount();
+
+  const { allowUnsafe, ...payload } = (await request.json()) as DraftPayload & { allowUnsafe?: boolean };
+
+  if (!payload.draftId || !payload.messageId || !payload.threadId || !payload.body) {
+    return NextResponse.json(
+      { error: "Missing required fields" },
+      { status: 400 },
+    );
+  }
+
+  const owner = session.user?.email?.toLowerCase();
+
+  try {
+    const { gmail } = mailbox;
+    const reply = {
+      ...payload,
+      messageId: payload.messageId,
+      threadId: payload.threadId,
+      postSend: await resolvePostSend(owner, mailbox.email, payload.postSend),
+    };
+
+    const heldFor = await approvalRequiredFor(gmail, mailbox.email, owner, reply);
+    if (heldFor) return approvalRequired(heldFor);
+
+    if (!allowUnsafe) {
+      const check = await createReplyGuard(gmail, owner, mailbox.email);
+      const issues = await check({ messageId: payload.messageId, threadId: payload.threadId });
+      if (issues.length) return unsafeReply(issues);
+    }
+
+    const { warning } = await sendReply(gmail, reply, mailbox.email);
+    await recordReplies(gmail, owner, mailbox.email, [reply]);
+
+    return NextResponse.json({ ok: true, warning });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to send Gmail draft", error);
+    return NextResponse.json(
+      { error: "Failed to send draft" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { subscribeCollab } from "@/lib/collab-store";
+import {
+  ensureWatch,
+  pushConfigured,
+  subscribe,
+  syncMailbox,
+  type InboxEvent,
+  type InboxStreamEvent,
+} from "@/lib/history-sync";
+import { mailboxFor, unknownAccount, type Mailbox } from "@/lib/mailbox";
+import { withPriority } from "@/lib/priority-store";
+import { isReauthError, REAUTH_REQUIRED, RELINK_REQUIRED } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 15_000;
+// With Pub/Sub pushes arriving, polling is only a safety net.
+const PUSH_POLL_INTERVAL_MS = 120_000;
+const HEARTBEAT_INTERVAL_MS = 25_000;
+// Streams end well inside serverless time limits; EventSource reconnects by itself.
+const STREAM_LIFETIME_MS = 5 * 60_000;
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Streams inbox changes as server-sent events for each `?account=` (default:
+ * the signed-in account). Each event's data is a JSON `InboxStreamEvent`.
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const requested = new URL(request.url).searchParams
+    .getAll("account")
+    .map((account) => account.trim().toLowerCase())
+    .filter(Boolean);
+  const resolved = await Promise.all(
+    (requested.length ? requested : [null]).map((account) => mailboxFor(session, account)),
+  );
+  const mailboxes = resolved.filter(
+    (mailbox): mailbox is Mailbox & { email: string } => Boolean(mailbox?.email),
+  );
+  if (mailboxes.length !== resolved.length) return unknownAccount();
+
+  const owner = session.user?.email?.toLowerCase();
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: InboxStreamEvent) => write(`data: ${JSON.stringify(event)}\n\n`);
+
+      // Scoring is async, so inbox events go through a chain to keep their order.
+      let pending = Promise.resolve();
+      const sendInbox = (event: InboxEvent) => {
+        pending = pending.then(async () => {
+          if (event.type !== "added" && event.type !== "labels") {
+            send(event);
+            return;
+          }
+          try {
+            const [message] = await withPriority(owner, [event.message]);
+            send({ ...event, message });
+          } catch (error) {
+            console.error("Failed to score inbox message", error);
+            send(event);
+          }
+        });
+      };
+
+      const unsubscribes = mailboxes.flatMap((mailbox) => [
+        subscribe(mailbox, sendInbox),
+        subscribeCollab(mailbox.email, send),
+      ]);
+
+      const sync = async () => {
+        for (const mailbox of mailboxes) {
+          try {
+            await syncMailbox(mailbox.email, mailbox.gmail);
+          } catch (error) {
+            if (isReauthError(error)) {
+              send(
+                mailbox.primary
+                  ? { type: "error", code: REAUTH_REQUIRED }
+                  : { type: "error", code: RELINK_REQUIRED, account: mailbox.email },
+              );
+              close();
+              return;
+            }
+            console.error("Failed to sync Gmail history", error);
+          }
+        }
+      };
+
+      const poll = setInterval(sync, pushConfigured() ? PUSH_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+      const lifetime = setTimeout(() => close(), STREAM_LIFETIME_MS);
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(poll);
+        clearInterval(heartbeat);
+        clearTimeout(lifetime);
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+        request.signal.removeEventListener("abort", close);
+      };
+
+      function close() {
+        if (closed) return;
+        stop();
+        controller.close();
+      }
+
+      request.signal.addEventListener("abort", close);
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      for (const mailbox of mailboxes) {
+        ensureWatch(mailbox.email, mailbox.gmail).catch((error) => {
+          console.error("Failed to start Gmail push notifications", error);
+        });
+      }
+      sync();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
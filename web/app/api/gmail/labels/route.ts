@@ -0,0 +1,106 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+type CreateLabelPayload = {
+  name?: string;
+};
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  try {
+    const { gmail } = mailbox;
+    const { data } = await gmail.users.labels.list({ userId: "me" });
+
+    const labels = (data.labels ?? [])
+      .filter((label) => label.id && label.name)
+      .map((label) => ({
+        id: label.id as string,
+        name: label.name as string,
+        type: label.type === "system" ? "system" : "user",
+      }))
+      .sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+
+    return NextResponse.json({ labels });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to list Gmail labels", error);
+    return NextResponse.json(
+      { error: "Failed to load labels" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const name = ((await request.json()) as CreateLabelPayload).name?.trim();
+
+  if (!name) {
+    return NextResponse.json(
+      { error: "Label name is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { gmail } = mailbox;
+    const { data } = await gmail.users.labels.create({
+      userId: "me",
+      requestBody: {
+        name,
+        labelListVisibility: "labelShow",
+        messageListVisibility: "show",
+      },
+    });
+
+    return NextResponse.json(
+      { label: { id: data.id, name: data.name ?? name, type: "user" } },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    if ((error as { code?: number }).code === 409) {
+      return NextResponse.json(
+        { error: "A label with that name already exists" },
+        { status: 409 },
+      );
+    }
+
+    console.error("Failed to create Gmail label", error);
+    return NextResponse.json(
+      { error: "Failed to create label" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { getServerSession } from "next-auth";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { FakeGmailBackend } from "@/lib/fake-gmail";
+import type { InboxMessage } from "@/lib/inbox-message";
+import { apiRequest, fakeGmail, sessionFor } from "@/test/gmail";
+
+import { GET } from "./route";
+
+vi.mock("next-auth", () => ({ getServerSession: vi.fn() }));
+
+type ListResponse = {
+  messages: InboxMessage[];
+  nextPageToken: string | null;
+  resultSizeEstimate: number;
+};
+
+async function list(query = "") {
+  const response = await GET(apiRequest(`/api/gmail/list${query}`));
+  return { status: response.status, body: (await response.json()) as ListResponse };
+}
+
+describe("GET /api/gmail/list", () => {
+  let backend: FakeGmailBackend;
+
+  beforeEach(() => {
+    backend = fakeGmail();
+    vi.mocked(getServerSession).mockResolvedValue(sessionFor());
+  });
+
+  it("lists unread inbox messages newest first", async () => {
+    const { status, body } = await list();
+
+    expect(status).toBe(200);
+    expect(body.messages.map((message) => message.subject)).toEqual([
+      "This week in product",
+      "Invoice #4821",
+      "Quick call next week?",
+      "Project update",
+    ]);
+    expect(body.nextPageToken).toBeNull();
+    expect(body.resultSizeEstimate).toBe(4);
+
+    const call = body.messages.find((message) => message.subject === "Quick call next week?");
+    expect(call).toMatchObject({
+      account: "me@example.com",
+      from: "Jamie Chen <jamie@example.net>",
+      fromName: "Jamie Chen",
+      fromAddress: "jamie@example.net",
+      recipients: ["support@example.com", "sam@example.net"],
+      labelIds: ["INBOX", "UNREAD"],
+    });
+    expect(call?.messageIdHeader).toMatch(/^<.+>$/);
+    expect(call?.priority).toBeDefined();
+  });
+
+  it("pages with pageSize and pageToken", async () => {
+    const first = await list("?pageSize=3");
+    expect(first.body.messages).toHaveLength(3);
+    expect(first.body.nextPageToken).not.toBeNull();
+
+    const second = await list(`?pageSize=3&pageToken=${first.body.nextPageToken}`);
+    expect(second.body.messages.map((message) => message.subject)).toEqual(["Project update"]);
+    expect(second.body.nextPageToken).toBeNull();
+  });
+
+  it("searches with q and leaves read mail out by default", async () => {
+    const { body: unread } = await list();
+    const invoice = unread.messages.find((message) => message.subject === "Invoice #4821");
+    backend.modifyLabels(invoice?.id ?? "", { removeLabelIds: ["UNREAD"] });
+
+    expect((await list()).body.messages.map((message) => message.subject)).not.toContain("Invoice #4821");
+    expect((await list("?q=from:vendor.example")).body.messages.map((message) => message.subject)).toEqual([
+      "Invoice #4821",
+    ]);
+    expect((await list("?q=from:alex%20is:unread")).body.messages.map((message) => message.subject)).toEqual([
+      "Project update",
+    ]);
+  });
+
+  it("rejects requests without a session", async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+    expect((await list()).status).toBe(401);
+  });
+
+  it("refuses an inbox that isn't linked to the user", async () => {
+    expect((await list("?account=someone@example.org")).status).toBe(403);
+  });
+});
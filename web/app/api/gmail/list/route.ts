@@ -2,38 +2,43 @@ import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 
 import { authOptions } from "@/lib/auth";
-import { createGmailClient } from "@/lib/google";
+import { fetchInboxMessage } from "@/lib/inbox-message";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { mapWithConcurrency } from "@/lib/pool";
+import { withPriority } from "@/lib/priority-store";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+const DEFAULT_LABEL_IDS = ["INBOX"];
+const DEFAULT_QUERY = "is:unread";
+const DEFAULT_PAGE_SIZE = 15;
+const MAX_PAGE_SIZE = 100;
+// Enough parallelism to hide latency without tripping Gmail's per-user rate limit.
+const METADATA_CONCURRENCY = 10;
+
+function parseListParams(searchParams: URLSearchParams) {
+  const labelIds = searchParams
+    .getAll("label")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  const requestedSize = Number.parseInt(searchParams.get("pageSize") ?? "", 10);
+  const pageSize = Number.isNaN(requestedSize)
+    ? DEFAULT_PAGE_SIZE
+    : Math.min(Math.max(requestedSize, 1), MAX_PAGE_SIZE);
+
+  const query = searchParams.has("q") ? searchParams.get("q")?.trim() : DEFAULT_QUERY;
 
-const METADATA_HEADERS = ["Subject", "From", "Date", "Message-ID"];
-
-type MessageHeader = {
-  name?: string | null;
-  value?: string | null;
-};
-
-function parseEmailAddress(headerValue: string | null | undefined) {
-  if (!headerValue) {
-    return { name: null, address: null };
-  }
-
-  const match = headerValue.match(/^(.*?)(?:\s*<(.+?)>)?$/);
-  if (!match) {
-    return { name: null, address: headerValue };
-  }
-
-  const name = match[2] ? match[1].replace(/"/g, "").trim() : null;
-  const address = match[2] ?? match[1];
   return {
-    name: name?.length ? name : null,
-    address: address?.trim() ?? null,
+    labelIds: labelIds.length ? labelIds : DEFAULT_LABEL_IDS,
+    q: query || undefined,
+    pageSize,
+    pageToken: searchParams.get("pageToken") || undefined,
   };
 }
 
-function headerValue(headers: MessageHeader[] | null | undefined, key: string) {
-  return headers?.find((header) => header.name === key)?.value ?? null;
-}
-
-export async function GET() {
+export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
 
   if (!session?.accessToken) {
@@ -43,61 +48,52 @@ export async function GET() {
     );
   }
 
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const { labelIds, q, pageSize, pageToken } = parseListParams(new URL(request.url).searchParams);
+
   try {
-    const gmail = createGmailClient(session.accessToken, session.refreshToken);
+    const { gmail } = mailbox;
 
     const { data } = await gmail.users.messages.list({
       userId: "me",
-      labelIds: ["INBOX"],
-      q: "is:unread",
-      maxResults: 15,
+      labelIds,
+      q,
+      maxResults: pageSize,
+      pageToken,
     });
 
     const messages = data.messages ?? [];
+    const nextPageToken = data.nextPageToken ?? null;
+    const resultSizeEstimate = data.resultSizeEstimate ?? messages.length;
 
     if (!messages.length) {
-      return NextResponse.json({ messages: [] });
+      return NextResponse.json({ messages: [], nextPageToken, resultSizeEstimate });
     }
 
-    const detailed = await Promise.all(
-      messages.map(async ({ id, threadId }) => {
-        if (!id) return null;
-
-        const detail = await gmail.users.messages.get({
-          userId: "me",
-          id,
-          format: "metadata",
-          metadataHeaders: METADATA_HEADERS,
-        });
-
-        const headers = detail.data.payload?.headers ?? [];
-        const subject = headerValue(headers, "Subject") ?? "(no subject)";
-        const fromHeader = headerValue(headers, "From");
-        const date = headerValue(headers, "Date");
-        const messageIdHeader = headerValue(headers, "Message-ID");
-        const { name, address } = parseEmailAddress(fromHeader);
-
-        return {
-          id,
-          threadId: threadId ?? detail.data.threadId ?? null,
-          subject,
-          from: fromHeader,
-          fromName: name,
-          fromAddress: address,
-          snippet: detail.data.snippet ?? "",
-          internalDate: detail.data.internalDate ?? null,
-          date,
-          messageIdHeader,
-        };
-      }),
+    const detailed = await mapWithConcurrency(
+      messages,
+      async ({ id, threadId }) => (id ? fetchInboxMessage(gmail, mailbox.email, id, threadId) : null),
+      { concurrency: METADATA_CONCURRENCY },
     );
 
+    // A message that still fails after retries is dropped rather than failing the page.
+    for (const result of detailed) {
+      if (!result.ok) console.error("Failed to load Gmail message metadata", result.error);
+    }
+
+    const loaded = detailed.flatMap((result) => (result.ok && result.value ? [result.value] : []));
+
     return NextResponse.json({
-      messages: detailed.filter(
-        (message): message is NonNullable<typeof message> => Boolean(message),
-      ),
+      messages: await withPriority(session.user?.email?.toLowerCase(), loaded),
+      nextPageToken,
+      resultSizeEstimate,
     });
   } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
     console.error("Failed to list Gmail messages", error);
     return NextResponse.json(
       { error: "Failed to load messages" },
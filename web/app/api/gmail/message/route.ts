@@ -0,0 +1,69 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { toFullMessage } from "@/lib/gmail-message";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const threadId = searchParams.get("threadId");
+
+  if (!id && !threadId) {
+    return NextResponse.json(
+      { error: "Provide a message id or threadId" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { gmail } = mailbox;
+
+    if (threadId) {
+      const { data } = await gmail.users.threads.get({
+        userId: "me",
+        id: threadId,
+        format: "full",
+      });
+
+      return NextResponse.json({
+        thread: {
+          id: data.id ?? threadId,
+          messages: (data.messages ?? []).map(toFullMessage),
+        },
+      });
+    }
+
+    const { data } = await gmail.users.messages.get({
+      userId: "me",
+      id: id!,
+      format: "full",
+    });
+
+    return NextResponse.json({ message: toFullMessage(data) });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to load Gmail message", error);
+    return NextResponse.json(
+      { error: "Failed to load message" },
+      { status: 500 },
+    );
+  }
+}
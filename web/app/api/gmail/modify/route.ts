@@ -0,0 +1,51 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { batchModifyMessages, type LabelChanges } from "@/lib/gmail-batch";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+type ModifyPayload = LabelChanges & {
+  ids?: string[];
+};
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const { ids, addLabelIds, removeLabelIds } = (await request.json()) as ModifyPayload;
+
+  if (!ids?.length || (!addLabelIds?.length && !removeLabelIds?.length)) {
+    return NextResponse.json(
+      { error: "Provide message ids and at least one label change" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { gmail } = mailbox;
+    await batchModifyMessages(gmail, ids, { addLabelIds, removeLabelIds });
+
+    return NextResponse.json({ ok: true, modified: new Set(ids).size });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to modify Gmail messages", error);
+    return NextResponse.json(
+      { error: "Failed to update messages" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { updatePresence } from "@/lib/collab-store";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+/**
+ * Marks the signed-in user as drafting a reply in `threadId`; the page posts
+ * this while they type and deletes it when they send or discard.
+ */
+async function handle(request: Request, drafting: boolean) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const threadId = new URL(request.url).searchParams.get("threadId");
+
+  if (!threadId) {
+    return NextResponse.json(
+      { error: "Thread id is required" },
+      { status: 400 },
+    );
+  }
+
+  updatePresence(mailbox.email, threadId, { email: owner, name: session.user?.name ?? null }, drafting);
+  return NextResponse.json({ ok: true });
+}
+
+export function POST(request: Request) {
+  return handle(request, true);
+}
+
+export function DELETE(request: Request) {
+  return handle(request, false);
+}
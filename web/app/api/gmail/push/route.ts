@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { parsePushNotification, syncSubscribed } from "@/lib/history-sync";
+import { isReauthError } from "@/lib/reauth";
+
+/**
+ * Gmail Pub/Sub push endpoint. The subscription's push URL must carry
+ * `?token=$GMAIL_PUBSUB_VERIFICATION_TOKEN`. Pub/Sub redelivers anything not
+ * acknowledged with a 2xx, so only failures worth retrying return an error.
+ */
+export async function POST(request: Request) {
+  const expected = process.env.GMAIL_PUBSUB_VERIFICATION_TOKEN;
+
+  if (!expected || new URL(request.url).searchParams.get("token") !== expected) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const email = parsePushNotification(await request.json().catch(() => null));
+
+  try {
+    if (email) await syncSubscribed(email);
+  } catch (error) {
+    if (!isReauthError(error)) {
+      console.error("Failed to sync Gmail history", error);
+      return NextResponse.json(
+        { error: "Failed to sync mailbox" },
+        { status: 500 },
+      );
+    }
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,194 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { rememberAccount } from "@/lib/accounts";
+import { recordReplies } from "@/lib/analytics-store";
+import { approvalRequiredFor } from "@/lib/approvals-store";
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { sendReplies, type BatchItemResult, type BatchReply } from "@/lib/gmail-batch";
+import { mailboxFor, requestedAccount, type Mailbox } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import type { DraftPayload } from "@/lib/reply";
+import { createReplyGuard, type ReplyCheck } from "@/lib/reply-guard";
+import { describeIssues, type SafetyIssue } from "@/lib/reply-safety";
+import { enqueueSend, resolveSendAt, summarize, type QueuedSendSummary } from "@/lib/send-queue";
+import { normalizePostSend, type PostSendActions } from "@/lib/settings";
+import { resolvePostSend } from "@/lib/settings-store";
+
+type BatchReplyPayload = {
+  /** Each reply may name the inbox it goes out from; otherwise `?account=` applies. */
+  replies?: (DraftPayload & { sendAt?: string | null; account?: string | null; allowUnsafe?: boolean })[];
+  undoSeconds?: number | null;
+  /** Run the checks and report what would happen without sending or queueing anything. */
+  dryRun?: boolean;
+};
+
+type BatchReplyResult = BatchItemResult & {
+  queued?: QueuedSendSummary;
+  /** Dry runs only: what a real run would do with this reply. */
+  plan?: "send" | "queue";
+  /** Set when the safety checks held the reply back. */
+  issues?: SafetyIssue[];
+};
+
+/**
+ * Sends (or queues, when an undo window or send time applies) many replies in
+ * one request. Always answers 200 with a result per reply, in request order,
+ * so a partial failure never hides the replies that did go out. Replies the
+ * safety checks flag are skipped unless they carry `allowUnsafe`.
+ */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const { replies, undoSeconds, dryRun = false } = (await request.json()) as BatchReplyPayload;
+
+  if (!replies?.length) {
+    return NextResponse.json(
+      { error: "No replies to send" },
+      { status: 400 },
+    );
+  }
+
+  const owner = session.user?.email?.toLowerCase();
+  const results = new Array<BatchReplyResult>(replies.length);
+  const immediate = new Map<Mailbox, { index: number; reply: BatchReply }[]>();
+  const mailboxes = new Map<string, Promise<Mailbox | null>>();
+  // One guard per inbox, so its per-sender limits count the whole batch.
+  const guards = new Map<Mailbox, Promise<ReplyCheck>>();
+  const fallbackAccount = requestedAccount(request);
+
+  const mailboxOf = (account: string | null | undefined) => {
+    const key = account?.trim().toLowerCase() || fallbackAccount || "";
+    if (!mailboxes.has(key)) mailboxes.set(key, mailboxFor(session, key || null));
+    return mailboxes.get(key) as Promise<Mailbox | null>;
+  };
+
+  // Saved post-send actions are per inbox, since their label IDs are.
+  const postSendDefaults = new Map<Mailbox, Promise<PostSendActions>>();
+  const postSendOf = (mailbox: Mailbox) => {
+    if (!postSendDefaults.has(mailbox)) postSendDefaults.set(mailbox, resolvePostSend(owner, mailbox.email, null));
+    return postSendDefaults.get(mailbox) as Promise<PostSendActions>;
+  };
+
+  const guardOf = (mailbox: Mailbox) => {
+    if (!guards.has(mailbox)) guards.set(mailbox, createReplyGuard(mailbox.gmail, owner, mailbox.email));
+    return guards.get(mailbox) as Promise<ReplyCheck>;
+  };
+
+  // The inbox being worked on, so a lapsed grant can be reported against the right account.
+  let current: Mailbox | null = null;
+
+  try {
+    for (const [index, { sendAt: requestedSendAt, account, allowUnsafe, ...payload }] of replies.entries()) {
+      const messageId = payload.messageId ?? "";
+      const mailbox = await mailboxOf(account);
+      current = mailbox;
+
+      // Without an address there's no approval policy to check, so nothing is sent from it.
+      if (!mailbox?.email) {
+        results[index] = { messageId, ok: false, error: "That account isn't linked to you" };
+        continue;
+      }
+
+      if (!payload.messageId || !payload.threadId || !payload.subject || !payload.body) {
+        results[index] = { messageId, ok: false, error: "Missing required fields" };
+        continue;
+      }
+
+      const reply = {
+        ...payload,
+        messageId: payload.messageId,
+        threadId: payload.threadId,
+        postSend: normalizePostSend(payload.postSend, await postSendOf(mailbox)),
+      };
+
+      let heldFor: string | null;
+      try {
+        heldFor = await approvalRequiredFor(mailbox.gmail, mailbox.email, owner, reply);
+      } catch (error) {
+        if (isReauthError(error)) throw error;
+        console.error(`Failed to check approval for ${messageId}`, error);
+        results[index] = { messageId, ok: false, error: "Couldn't check this message before replying" };
+        continue;
+      }
+      if (heldFor) {
+        results[index] = { messageId, ok: false, error: `Replies to ${heldFor} need approval before they're sent` };
+        continue;
+      }
+
+      if (!allowUnsafe) {
+        let issues: SafetyIssue[];
+        try {
+          const check = await guardOf(mailbox);
+          issues = await check({ messageId: reply.messageId, threadId: reply.threadId });
+        } catch (error) {
+          if (isReauthError(error)) throw error;
+          console.error(`Failed to check reply to ${messageId}`, error);
+          results[index] = { messageId, ok: false, error: "Couldn't check this message before replying" };
+          continue;
+        }
+        if (issues.length) {
+          results[index] = { messageId, ok: false, error: describeIssues(issues), issues };
+          continue;
+        }
+      }
+
+      try {
+        const sendAt = resolveSendAt({ sendAt: requestedSendAt, undoSeconds });
+        if (dryRun) {
+          results[index] = { messageId, ok: true, plan: sendAt && owner ? "queue" : "send" };
+        } else if (sendAt && owner) {
+          const queued = await enqueueSend(owner, reply, sendAt, mailbox.email, {
+            ownerName: session.user?.name ?? null,
+            allowUnsafe,
+          });
+          results[index] = { messageId, ok: true, queued: summarize(queued) };
+        } else {
+          immediate.set(mailbox, [...(immediate.get(mailbox) ?? []), { index, reply }]);
+        }
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        results[index] = { messageId, ok: false, error: error.message };
+      }
+    }
+
+    if (results.some((result) => result?.queued)) {
+      // The queue sends without a browser session, so it needs the stored tokens.
+      await rememberAccount(session);
+    }
+
+    for (const [mailbox, items] of immediate) {
+      current = mailbox;
+      const sent = await sendReplies(mailbox.gmail, items.map(({ reply }) => reply), mailbox.email);
+      sent.forEach((result, position) => {
+        results[items[position].index] = result;
+      });
+      await recordReplies(
+        mailbox.gmail,
+        owner,
+        mailbox.email,
+        items.filter((_, position) => sent[position].ok).map(({ reply }) => reply),
+      );
+    }
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(current);
+    console.error("Failed to send replies", error);
+    return NextResponse.json(
+      { error: "Failed to send replies" },
+      { status: 500 },
+    );
+  }
+}
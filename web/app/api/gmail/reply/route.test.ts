@@ -0,0 +1,209 @@
+import { getServerSession } from "next-auth";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { linkAccount } from "@/lib/accounts";
+import { APPROVAL_REQUIRED } from "@/lib/approvals";
+import { saveApprovalPolicy } from "@/lib/approvals-store";
+import { SAMPLE_INBOX, type FakeGmailBackend, type FakeGmailSeed } from "@/lib/fake-gmail";
+import { UNSAFE_REPLY } from "@/lib/reply-safety";
+import { fakeGmail, jsonRequest, sessionFor } from "@/test/gmail";
+
+import { POST } from "./route";
+
+vi.mock("next-auth", () => ({ getServerSession: vi.fn() }));
+
+const INBOX: FakeGmailSeed = {
+  ...SAMPLE_INBOX,
+  messages: [
+    {
+      id: "alex-1",
+      threadId: "thread-alex",
+      from: "Alex Rivera <alex@example.org>",
+      subject: "Project update",
+      text: "Could you send over the latest timeline?",
+      messageIdHeader: "<update-2@example.org>",
+      references: ["<update-1@example.org>"],
+      date: "2026-01-05T09:30:00Z",
+    },
+    {
+      id: "jamie-1",
+      threadId: "thread-jamie",
+      from: "Jamie Chen <jamie@example.net>",
+      to: ["support@example.com"],
+      cc: ["sam@example.net"],
+      subject: "Quick call next week?",
+      text: "Would you be free for a call on Tuesday?",
+      date: "2026-01-06T14:00:00Z",
+    },
+    {
+      id: "taylor-1",
+      threadId: "thread-taylor",
+      from: "Taylor Brooks <taylor@example.com>",
+      subject: "Order question",
+      text: "Where is my order?",
+      date: "2026-01-06T16:00:00Z",
+      headers: { "Reply-To": "Orders desk <orders@example.com>" },
+    },
+    {
+      id: "digest-1",
+      threadId: "thread-digest",
+      from: "Weekly Digest <no-reply@news.example>",
+      subject: "This week in product",
+      text: "Five stories you might have missed.",
+      date: "2026-01-07T11:00:00Z",
+      headers: { "List-Unsubscribe": "<mailto:unsubscribe@news.example>", Precedence: "bulk" },
+    },
+  ],
+};
+
+const ALEX = {
+  messageId: "alex-1",
+  threadId: "thread-alex",
+  to: "Alex Rivera <alex@example.org>",
+  subject: "Project update",
+  body: "Hi Alex,\n\nThe timeline is attached.\n\nThanks",
+};
+
+function send(body: unknown, query = "") {
+  return POST(jsonRequest(`/api/gmail/reply${query}`, body));
+}
+
+describe("POST /api/gmail/reply", () => {
+  let backend: FakeGmailBackend;
+
+  beforeEach(() => {
+    backend = fakeGmail(INBOX);
+    vi.mocked(getServerSession).mockResolvedValue(sessionFor());
+  });
+
+  it("sends a threaded multipart reply and marks the original read", async () => {
+    const response = await send(ALEX);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, warning: null });
+
+    const [sent] = backend.sentMessages();
+    expect(sent.threadId).toBe("thread-alex");
+    expect(sent.header("From")).toBe("me@example.com");
+    expect(sent.header("To")).toBe("Alex Rivera <alex@example.org>");
+    expect(sent.header("Subject")).toBe("Re: Project update");
+    expect(sent.header("In-Reply-To")).toBe("<update-2@example.org>");
+    expect(sent.header("References")).toBe("<update-1@example.org> <update-2@example.org>");
+    expect(sent.header("Content-Type")).toMatch(/^multipart\/alternative; boundary=/);
+    expect(sent.source).toContain('Content-Type: text/plain; charset="UTF-8"');
+    expect(sent.source).toContain('Content-Type: text/html; charset="UTF-8"');
+    expect(sent.source).toContain("<p>Hi Alex,</p><p>The timeline is attached.</p>");
+    expect(sent.text).toContain("The timeline is attached.");
+
+    expect(backend.labelsOf("alex-1")).not.toContain("UNREAD");
+  });
+
+  it("answers from the alias the message was sent to, with its signature and reply-all Cc", async () => {
+    const response = await send({
+      messageId: "jamie-1",
+      threadId: "thread-jamie",
+      to: "Jamie Chen <jamie@example.net>",
+      subject: "Quick call next week?",
+      body: "Tuesday works.",
+      mode: "replyAll",
+    });
+
+    expect(response.status).toBe(200);
+    const [sent] = backend.sentMessages();
+    expect(sent.header("From")).toBe("Example Support <support@example.com>");
+    expect(sent.header("To")).toBe("Jamie Chen <jamie@example.net>");
+    expect(sent.header("Cc")).toBe("sam@example.net");
+    expect(sent.text).toMatch(/Tuesday works\.\s+Example Support\s+support@example\.com/);
+    expect(sent.source).toContain('<div class="gmail_signature"><div>Example Support<br>support@example.com</div></div>');
+  });
+
+  it("sends to Reply-To when the page addresses the original sender", async () => {
+    const response = await send({
+      messageId: "taylor-1",
+      threadId: "thread-taylor",
+      to: "Taylor Brooks <taylor@example.com>",
+      subject: "Order question",
+      body: "It ships tomorrow.",
+    });
+
+    expect(response.status).toBe(200);
+    expect(backend.sentMessages()[0].header("To")).toBe("Orders desk <orders@example.com>");
+  });
+
+  it("keeps line breaks in recipients and the subject from adding headers", async () => {
+    const response = await send({
+      ...ALEX,
+      to: "alex@example.org\r\nBcc: mallory@example.org",
+      subject: "Project update\r\nBcc: mallory@example.org",
+    });
+
+    expect(response.status).toBe(200);
+    const [sent] = backend.sentMessages();
+    expect(sent.header("Bcc")).toBeNull();
+    expect(sent.source).not.toMatch(/^Bcc:/im);
+    expect(sent.header("Subject")).toBe("Re: Project update Bcc: mallory@example.org");
+  });
+
+  it("quotes and encodes attachment filenames", async () => {
+    const data = Buffer.from("timeline").toString("base64");
+    const response = await send({
+      ...ALEX,
+      attachments: [
+        { filename: 'timeline "final".pdf', mimeType: "application/pdf", data },
+        { filename: "résumé.txt", mimeType: "text/plain\r\nX-Injected: yes", data },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    const [sent] = backend.sentMessages();
+    expect(sent.header("Content-Type")).toMatch(/^multipart\/mixed; boundary=/);
+    expect(sent.source).toContain('Content-Type: application/pdf; name="timeline \\"final\\".pdf"');
+    expect(sent.source).toContain('Content-Disposition: attachment; filename="timeline \\"final\\".pdf"');
+    expect(sent.source).toContain("Content-Type: application/octet-stream; name*=UTF-8''r%C3%A9sum%C3%A9.txt");
+    expect(sent.source).toContain("Content-Disposition: attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.txt");
+    expect(sent.source).not.toContain("X-Injected");
+  });
+
+  it("holds back a reply to a newsletter until the user confirms", async () => {
+    const reply = {
+      messageId: "digest-1",
+      threadId: "thread-digest",
+      to: "no-reply@news.example",
+      subject: "This week in product",
+      body: "Thanks!",
+    };
+
+    const held = await send(reply);
+    expect(held.status).toBe(409);
+    expect(await held.json()).toMatchObject({ code: UNSAFE_REPLY });
+    expect(backend.sentMessages()).toHaveLength(0);
+
+    const confirmed = await send({ ...reply, allowUnsafe: true });
+    expect(confirmed.status).toBe(200);
+    expect(backend.sentMessages()).toHaveLength(1);
+  });
+
+  it("sends a teammate's reply to a covered sender for approval instead", async () => {
+    await saveApprovalPolicy("me@example.com", { senders: ["alex@example.org"] }, "me@example.com");
+    await linkAccount("sam@example.com", {
+      email: "me@example.com",
+      name: "Morgan Example",
+      accessToken: "token-me@example.com",
+      refreshToken: null,
+      expiresAt: null,
+    });
+    vi.mocked(getServerSession).mockResolvedValue(sessionFor("sam@example.com", "Sam Teammate"));
+
+    const response = await send(ALEX, "?account=me@example.com");
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: APPROVAL_REQUIRED });
+    expect(backend.sentMessages()).toHaveLength(0);
+  });
+
+  it("rejects a reply without a body", async () => {
+    const response = await send({ ...ALEX, body: "" });
+    expect(response.status).toBe(400);
+    expect(backend.sentMessages()).toHaveLength(0);
+  });
+});
@@ -1,47 +1,32 @@
 import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 
+import { rememberAccount } from "@/lib/accounts";
+import { recordReplies } from "@/lib/analytics-store";
+import { approvalRequired, approvalRequiredFor } from "@/lib/approvals-store";
 import { authOptions } from "@/lib/auth";
-import { createGmailClient } from "@/lib/google";
-
-type ReplyPayload = {
-  messageId?: string;
-  threadId?: string | null;
-  to?: string | null;
-  subject?: string | null;
-  body?: string;
-  messageHeaderId?: string | null;
+import { updatePresence } from "@/lib/collab-store";
+import { ValidationError } from "@/lib/errors";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { remindIfNoReply, resolveFollowUpDays, type ReminderTarget } from "@/lib/reminders";
+import { createReplyGuard, unsafeReply } from "@/lib/reply-guard";
+import { sendReply, type DraftPayload } from "@/lib/reply";
+import { enqueueSend, resolveSendAt, summarize } from "@/lib/send-queue";
+import { resolvePostSend } from "@/lib/settings-store";
+
+type SendOptions = {
+  /** Hold the reply this many seconds so it can be undone. */
+  undoSeconds?: number | null;
+  /** Send at this ISO timestamp instead of now. */
+  sendAt?: string | null;
+  /** Send even though the safety checks flagged the message; set after the user confirms. */
+  allowUnsafe?: boolean;
+  /** Bring the thread back if nobody replies within this many days. */
+  remindAfterDays?: number | null;
 };
 
-type EncodedEmailInput = {
-  to: string;
-  subject: string;
-  body: string;
-  inReplyTo?: string | null;
-};
-
-function encodeEmail({ to, subject, body, inReplyTo }: EncodedEmailInput) {
-  const headers = [
-    `To: ${to}`,
-    `Subject: ${subject}`,
-    "Content-Type: text/plain; charset=\"UTF-8\"",
-    "Content-Transfer-Encoding: 7bit",
-  ];
-
-  if (inReplyTo) {
-    headers.push(`In-Reply-To: ${inReplyTo}`);
-    headers.push(`References: ${inReplyTo}`);
-  }
-
-  const lines = [...headers, "", body];
-
-  return Buffer.from(lines.join("\n"))
-    .toString("base64")
-    .replace(/\+/g, "-")
-    .replace(/\//g, "_")
-    .replace(/=+$/, "");
-}
-
 export async function POST(request: Request) {
   const session = await getServerSession(authOptions);
 
@@ -52,44 +37,89 @@ export async function POST(request: Request) {
     );
   }
 
-  const payload = (await request.json()) as ReplyPayload;
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  // Without an address there's no approval policy to check, so nothing is sent from it.
+  if (!mailbox?.email) return unknownAccount();
+
+  const {
+    undoSeconds,
+    sendAt: requestedSendAt,
+    allowUnsafe,
+    remindAfterDays,
+    ...payload
+  } = (await request.json()) as DraftPayload & SendOptions;
 
-  if (!payload.messageId || !payload.threadId || !payload.to || !payload.subject || !payload.body) {
+  if (!payload.messageId || !payload.threadId || !payload.subject || !payload.body) {
     return NextResponse.json(
       { error: "Missing required fields" },
       { status: 400 },
     );
   }
 
+  const owner = session.user?.email?.toLowerCase();
+
   try {
-    const gmail = createGmailClient(session.accessToken, session.refreshToken);
-
-    const raw = encodeEmail({
-      to: payload.to,
-      subject: payload.subject.startsWith("Re:") ? payload.subject : `Re: ${payload.subject}`,
-      body: payload.body,
-      inReplyTo: payload.messageHeaderId ?? undefined,
-    });
-
-    await gmail.users.messages.send({
-      userId: "me",
-      requestBody: {
-        raw,
-        threadId: payload.threadId ?? undefined,
-      },
-    });
-
-    await gmail.users.messages.modify({
-      userId: "me",
-      id: payload.messageId,
-      requestBody: {
-        removeLabelIds: ["UNREAD"],
-        addLabelIds: ["STARRED"],
-      },
-    });
-
-    return NextResponse.json({ ok: true });
+    const reply = {
+      ...payload,
+      messageId: payload.messageId,
+      threadId: payload.threadId,
+      postSend: await resolvePostSend(owner, mailbox.email, payload.postSend),
+    };
+
+    const heldFor = await approvalRequiredFor(mailbox.gmail, mailbox.email, owner, reply);
+    if (heldFor) return approvalRequired(heldFor);
+
+    if (!allowUnsafe) {
+      const check = await createReplyGuard(mailbox.gmail, owner, mailbox.email);
+      const issues = await check({ messageId: payload.messageId, threadId: payload.threadId });
+      if (issues.length) return unsafeReply(issues);
+    }
+    const sendAt = resolveSendAt({ sendAt: requestedSendAt, undoSeconds });
+    const followUpDays = resolveFollowUpDays(remindAfterDays);
+    const followUp: ReminderTarget = {
+      messageId: reply.messageId,
+      threadId: reply.threadId,
+      subject: reply.subject,
+      contact: reply.to,
+    };
+
+    // The queue and reminders run without a browser session, so they need the stored tokens.
+    if ((sendAt || followUpDays) && owner && mailbox.primary) await rememberAccount(session);
+
+    if (sendAt && owner) {
+      // The queue keeps us present in the thread until the reply has gone out.
+      const queued = await enqueueSend(owner, reply, sendAt, mailbox.email, {
+        ownerName: session.user?.name ?? null,
+        allowUnsafe,
+      });
+      if (followUpDays) {
+        await remindIfNoReply(owner, queued.account, followUp, followUpDays, sendAt, queued.id);
+      }
+      return NextResponse.json({ queued: summarize(queued) }, { status: 202 });
+    }
+
+    const { warning } = await sendReply(mailbox.gmail, reply, mailbox.email);
+    // The reply is out, so teammates no longer need to see it being drafted.
+    if (owner) {
+      updatePresence(mailbox.email, reply.threadId, { email: owner, name: session.user?.name ?? null }, false);
+    }
+    await recordReplies(mailbox.gmail, owner, mailbox.email, [reply]);
+    if (followUpDays && owner) {
+      await remindIfNoReply(owner, mailbox.email, followUp, followUpDays, new Date());
+    }
+
+    return NextResponse.json({ ok: true, warning });
   } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
     console.error("Failed to send reply", error);
     return NextResponse.json(
       { error: "Failed to send reply" },
@@ -0,0 +1,37 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { listSendAs } from "@/lib/send-as";
+
+/** The account's verified send-as aliases and their Gmail signatures. */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  try {
+    const aliases = await listSendAs(mailbox.gmail);
+    return NextResponse.json({ account: mailbox.email, aliases });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to list Gmail send-as aliases", error);
+    return NextResponse.json(
+      { error: "Failed to load sender addresses" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { loadSenderProfile, saveSenderNotes } from "@/lib/sender-profile-store";
+
+type NotesPayload = {
+  address?: string;
+  notes?: string;
+  tags?: string[] | string;
+};
+
+/** History, contact details and team notes for `?address=`; `?threadId=` leaves the open thread out. */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const params = new URL(request.url).searchParams;
+  const address = params.get("address")?.trim().toLowerCase();
+
+  if (!address?.includes("@")) {
+    return NextResponse.json(
+      { error: "A sender address is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const profile = await loadSenderProfile(
+      mailbox.gmail,
+      mailbox.people,
+      session.user?.email?.toLowerCase(),
+      mailbox.email,
+      address,
+      params.get("threadId"),
+    );
+    return NextResponse.json({ profile });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to load sender profile", error);
+    return NextResponse.json(
+      { error: "Failed to load sender details" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Saves the team's notes and tags for a sender; everyone with the inbox linked sees them. */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox?.email) return unknownAccount();
+
+  const { address, ...input } = (await request.json()) as NotesPayload;
+
+  if (!address?.includes("@")) {
+    return NextResponse.json(
+      { error: "A sender address is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const notes = await saveSenderNotes(mailbox.email, address.trim(), input, owner);
+    return NextResponse.json({ notes });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to save sender notes", error);
+    return NextResponse.json(
+      { error: "Failed to save notes" },
+      { status: 500 },
+    );
+  }
+}
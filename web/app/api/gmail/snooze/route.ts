@@ -0,0 +1,69 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { rememberAccount } from "@/lib/accounts";
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { snoozeMessage, type ReminderTarget } from "@/lib/reminders";
+
+type SnoozePayload = Partial<ReminderTarget> & {
+  /** ISO timestamp the message comes back at. */
+  until?: string | null;
+};
+
+/** Archives a message until `until`, when the reminder processor returns it to the inbox unread. */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const { until, messageId, threadId, subject, contact } = (await request.json()) as SnoozePayload;
+
+  if (!messageId || !threadId) {
+    return NextResponse.json(
+      { error: "Missing required fields" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    // Waking the message happens without a browser session, so it needs the stored tokens.
+    if (mailbox.primary) await rememberAccount(session);
+    const reminder = await snoozeMessage(
+      mailbox.gmail,
+      owner,
+      mailbox.email ?? owner,
+      { messageId, threadId, subject, contact },
+      until,
+    );
+    return NextResponse.json({ reminder }, { status: 201 });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to snooze message", error);
+    return NextResponse.json(
+      { error: "Failed to snooze message" },
+      { status: 500 },
+    );
+  }
+}
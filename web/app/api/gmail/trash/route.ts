@@ -0,0 +1,48 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { trashMessages } from "@/lib/gmail-batch";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+
+/**
+ * Moves messages to the trash. Answers 200 with a result per message, so
+ * the page can restore only the ones that failed.
+ */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const { ids } = (await request.json()) as { ids?: string[] };
+
+  if (!ids?.length) {
+    return NextResponse.json(
+      { error: "Provide message ids" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    return NextResponse.json({ results: await trashMessages(mailbox.gmail, ids) });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to trash Gmail messages", error);
+    return NextResponse.json(
+      { error: "Failed to move messages to trash" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { mailboxForRequest, unknownAccount, type Mailbox } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { fromGmailVacation, toGmailVacation, type VacationSettings } from "@/lib/vacation";
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: "Unauthorized" },
+    { status: 401 },
+  );
+}
+
+async function mailboxForSession(
+  request: Request,
+): Promise<{ mailbox: Mailbox; failure?: never } | { mailbox?: never; failure: NextResponse }> {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) return { failure: unauthorized() };
+  if (needsReauth(session)) return { failure: reauthRequired() };
+
+  const mailbox = await mailboxForRequest(session, request);
+  return mailbox ? { mailbox } : { failure: unknownAccount() };
+}
+
+export async function GET(request: Request) {
+  const { mailbox, failure } = await mailboxForSession(request);
+  if (!mailbox) return failure;
+
+  try {
+    const { data } = await mailbox.gmail.users.settings.getVacation({ userId: "me" });
+    return NextResponse.json({ vacation: fromGmailVacation(data) });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to load vacation responder", error);
+    return NextResponse.json(
+      { error: "Failed to load auto-reply settings" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const { mailbox, failure } = await mailboxForSession(request);
+  if (!mailbox) return failure;
+
+  try {
+    const input = (await request.json()) as Partial<VacationSettings>;
+    // Gmail replaces the whole responder, so a partial update starts from what is set now.
+    const { data: current } = await mailbox.gmail.users.settings.getVacation({ userId: "me" });
+    const { data } = await mailbox.gmail.users.settings.updateVacation({
+      userId: "me",
+      requestBody: toGmailVacation(input, fromGmailVacation(current)),
+    });
+    return NextResponse.json({ vacation: fromGmailVacation(data) });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to update vacation responder", error);
+    return NextResponse.json(
+      { error: "Failed to update auto-reply settings" },
+      { status: 500 },
+    );
+  }
+}
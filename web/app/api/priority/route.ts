@@ -0,0 +1,58 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { isMessageCategory, parseSignals, type MessageCategory, type ScorableMessage } from "@/lib/priority";
+import { correctCategory } from "@/lib/priority-store";
+
+type CorrectionPayload = {
+  message?: Partial<ScorableMessage>;
+  category?: MessageCategory;
+};
+
+function scorable(input: Partial<ScorableMessage> | undefined): ScorableMessage | null {
+  if (!input || typeof input.subject !== "string" || typeof input.snippet !== "string") return null;
+  const signals = input.signals === undefined || input.signals === null ? null : parseSignals(input.signals);
+  if (input.signals && !signals) return null;
+  return {
+    subject: input.subject,
+    snippet: input.snippet,
+    fromAddress: typeof input.fromAddress === "string" ? input.fromAddress : null,
+    labelIds: Array.isArray(input.labelIds) ? input.labelIds.filter((label) => typeof label === "string") : [],
+    internalDate: typeof input.internalDate === "string" ? input.internalDate : null,
+    signals,
+  };
+}
+
+/** Files a message under a different category; the signed-in user's classifier learns from it. */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const payload = (await request.json()) as CorrectionPayload;
+  const message = scorable(payload.message);
+
+  if (!message || !isMessageCategory(payload.category)) {
+    return NextResponse.json(
+      { error: "A message and a valid category are required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    return NextResponse.json({ priority: await correctCategory(owner, message, payload.category) });
+  } catch (error) {
+    console.error("Failed to save category correction", error);
+    return NextResponse.json(
+      { error: "Failed to save category" },
+      { status: 500 },
+    );
+  }
+}
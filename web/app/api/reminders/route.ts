@@ -0,0 +1,73 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { isReauthError } from "@/lib/reauth";
+import { reauthRequired } from "@/lib/reauth-response";
+import { cancelReminder, listReminders } from "@/lib/reminders";
+
+async function reminderOwner() {
+  const session = await getServerSession(authOptions);
+  return session?.user?.email?.toLowerCase() ?? null;
+}
+
+/** Snoozed messages and threads awaiting a reply, soonest first. */
+export async function GET() {
+  const owner = await reminderOwner();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  try {
+    return NextResponse.json({ reminders: await listReminders(owner) });
+  } catch (error) {
+    console.error("Failed to load reminders", error);
+    return NextResponse.json(
+      { error: "Failed to load reminders" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Cancels a reminder; a snoozed message goes straight back to the inbox. */
+export async function DELETE(request: Request) {
+  const owner = await reminderOwner();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing reminder id" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const cancelled = await cancelReminder(owner, id);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: "This reminder has already fired" },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({ cancelled });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired();
+    console.error("Failed to cancel reminder", error);
+    return NextResponse.json(
+      { error: "Failed to cancel reminder" },
+      { status: 500 },
+    );
+  }
+}
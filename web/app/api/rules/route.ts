@@ -0,0 +1,118 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { rememberAccount } from "@/lib/accounts";
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import {
+  createRule,
+  deleteRule,
+  listRules,
+  updateRule,
+  type RuleInput,
+} from "@/lib/rules";
+
+async function ownerSession() {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+  if (!session?.accessToken || !owner) return null;
+  return { session, owner };
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: "Unauthorized" },
+    { status: 401 },
+  );
+}
+
+function failure(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 400 },
+    );
+  }
+
+  console.error(message, error);
+  return NextResponse.json(
+    { error: message },
+    { status: 500 },
+  );
+}
+
+export async function GET() {
+  const context = await ownerSession();
+  if (!context) return unauthorized();
+
+  try {
+    return NextResponse.json({ rules: await listRules(context.owner) });
+  } catch (error) {
+    return failure(error, "Failed to load rules");
+  }
+}
+
+export async function POST(request: Request) {
+  const context = await ownerSession();
+  if (!context) return unauthorized();
+
+  const payload = (await request.json()) as RuleInput;
+
+  try {
+    const rule = await createRule(context.owner, payload);
+    // Background runs act on the owner's behalf, so keep their tokens on file.
+    await rememberAccount(context.session);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    return failure(error, "Failed to create rule");
+  }
+}
+
+export async function PUT(request: Request) {
+  const context = await ownerSession();
+  if (!context) return unauthorized();
+
+  const { id, ...payload } = (await request.json()) as RuleInput & { id?: string };
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing rule id" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const rule = await updateRule(context.owner, id, payload);
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Rule not found" },
+        { status: 404 },
+      );
+    }
+    await rememberAccount(context.session);
+    return NextResponse.json({ rule });
+  } catch (error) {
+    return failure(error, "Failed to update rule");
+  }
+}
+
+export async function DELETE(request: Request) {
+  const context = await ownerSession();
+  if (!context) return unauthorized();
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing rule id" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await deleteRule(context.owner, id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return failure(error, "Failed to delete rule");
+  }
+}
@@ -0,0 +1,72 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { gmailForAccount, listAccounts } from "@/lib/accounts";
+import { authOptions } from "@/lib/auth";
+import { cronOnly, isCronRequest } from "@/lib/cron";
+import { gmailClient } from "@/lib/gmail-client";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { listRules, runRules } from "@/lib/rules";
+
+function isDryRun(request: Request) {
+  const value = new URL(request.url).searchParams.get("dryRun");
+  return value === "1" || value === "true";
+}
+
+/**
+ * Scheduler entry point: with `Authorization: Bearer $CRON_SECRET` it runs
+ * every stored account's rules; from a signed-in browser it runs only the
+ * caller's own rules (POST only; see `cronOnly`).
+ */
+async function handle(request: Request) {
+  const dryRun = isDryRun(request);
+
+  if (isCronRequest(request)) {
+    const results = [];
+
+    for (const account of await listAccounts()) {
+      if (!(await listRules(account.email)).some((rule) => rule.enabled)) continue;
+
+      try {
+        const result = await runRules(gmailForAccount(account), account.email, {
+          dryRun,
+          myName: account.name,
+        });
+        results.push({ account: account.email, ...result });
+      } catch (error) {
+        console.error(`Failed to run rules for ${account.email}`, error);
+        results.push({ account: account.email, error: "Failed to run rules" });
+      }
+    }
+
+    return NextResponse.json({ results });
+  }
+
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!session?.accessToken || !owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  try {
+    const gmail = gmailClient(session.accessToken, session.refreshToken);
+    return NextResponse.json(await runRules(gmail, owner, { dryRun, myName: session.user?.name }));
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired();
+    console.error("Failed to run rules", error);
+    return NextResponse.json(
+      { error: "Failed to run rules" },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = cronOnly(handle);
+export { handle as POST };
@@ -0,0 +1,39 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { cronOnly, isCronRequest } from "@/lib/cron";
+import { processDueSends } from "@/lib/send-queue";
+
+/**
+ * Flushes due sends: every account's with `Authorization: Bearer
+ * $CRON_SECRET`, otherwise only the signed-in user's (POST only).
+ */
+async function handle(request: Request) {
+  let owner: string | undefined;
+
+  if (!isCronRequest(request)) {
+    const session = await getServerSession(authOptions);
+    owner = session?.user?.email?.toLowerCase();
+
+    if (!owner) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+  }
+
+  try {
+    return NextResponse.json({ processed: await processDueSends(owner) });
+  } catch (error) {
+    console.error("Failed to process send queue", error);
+    return NextResponse.json(
+      { error: "Failed to process send queue" },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = cronOnly(handle);
+export { handle as POST };
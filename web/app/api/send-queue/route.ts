@@ -0,0 +1,71 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { cancelFollowUpsForSend } from "@/lib/reminders";
+import { cancelSend, listQueue, summarize } from "@/lib/send-queue";
+
+async function queueOwner() {
+  const session = await getServerSession(authOptions);
+  return session?.user?.email?.toLowerCase() ?? null;
+}
+
+export async function GET() {
+  const owner = await queueOwner();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  try {
+    const queue = await listQueue(owner);
+    return NextResponse.json({ queue: queue.map(summarize) });
+  } catch (error) {
+    console.error("Failed to load send queue", error);
+    return NextResponse.json(
+      { error: "Failed to load send queue" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const owner = await queueOwner();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing queued send id" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const cancelled = await cancelSend(owner, id);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: "This reply has already been sent" },
+        { status: 409 },
+      );
+    }
+    await cancelFollowUpsForSend(owner, id);
+    return NextResponse.json({ cancelled: summarize(cancelled) });
+  } catch (error) {
+    console.error("Failed to cancel queued send", error);
+    return NextResponse.json(
+      { error: "Failed to cancel send" },
+      { status: 500 },
+    );
+  }
+}
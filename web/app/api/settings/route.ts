@@ -0,0 +1,78 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { isLinked } from "@/lib/accounts";
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { requestedAccount, unknownAccount } from "@/lib/mailbox";
+import type { UserSettings } from "@/lib/settings";
+import { getUserSettings, updateUserSettings } from "@/lib/settings-store";
+
+async function settingsOwner() {
+  const session = await getServerSession(authOptions);
+  return session?.user?.email?.toLowerCase() ?? null;
+}
+
+/** The inbox whose post-send actions are read or saved: `?account=` when it's linked to `owner`. */
+async function settingsAccount(owner: string, request: Request) {
+  const account = requestedAccount(request);
+  if (!account || account === owner) return { account: owner };
+  return (await isLinked(owner, account)) ? { account } : { failure: unknownAccount() };
+}
+
+export async function GET(request: Request) {
+  const owner = await settingsOwner();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const { account, failure } = await settingsAccount(owner, request);
+  if (failure) return failure;
+
+  try {
+    return NextResponse.json({ settings: await getUserSettings(owner, account) });
+  } catch (error) {
+    console.error("Failed to load settings", error);
+    return NextResponse.json(
+      { error: "Failed to load settings" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const owner = await settingsOwner();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const { account, failure } = await settingsAccount(owner, request);
+  if (failure) return failure;
+
+  const payload = (await request.json()) as Partial<UserSettings>;
+
+  try {
+    return NextResponse.json({ settings: await updateUserSettings(owner, payload, account) });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to update settings", error);
+    return NextResponse.json(
+      { error: "Failed to update settings" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { toFullMessage } from "@/lib/gmail-message";
+import { detectLanguage, isReplyLocale } from "@/lib/locale";
+import { mailboxForRequest, unknownAccount } from "@/lib/mailbox";
+import { isReauthError } from "@/lib/reauth";
+import { needsReauth, reauthRequired } from "@/lib/reauth-response";
+import { latestText } from "@/lib/smart-draft";
+import { generateDraft } from "@/lib/smart-draft-providers";
+import { getTemplateLibrary } from "@/lib/template-store";
+
+type SmartDraftPayload = {
+  messageId?: string;
+  threadId?: string | null;
+  /** Language chosen on the card; detected from the message when absent. */
+  locale?: string | null;
+};
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (needsReauth(session)) return reauthRequired();
+
+  const mailbox = await mailboxForRequest(session, request);
+  if (!mailbox) return unknownAccount();
+
+  const payload = (await request.json()) as SmartDraftPayload;
+
+  if (!payload.messageId) {
+    return NextResponse.json(
+      { error: "Missing required fields" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { gmail } = mailbox;
+
+    const messages = payload.threadId
+      ? ((await gmail.users.threads.get({ userId: "me", id: payload.threadId, format: "full" })).data.messages ?? [])
+      : [(await gmail.users.messages.get({ userId: "me", id: payload.messageId, format: "full" })).data];
+
+    const conversation = messages.map(toFullMessage);
+    const position = conversation.findIndex((message) => message.id === payload.messageId);
+    if (position === -1) {
+      return NextResponse.json(
+        { error: "Message not found in thread" },
+        { status: 404 },
+      );
+    }
+
+    const owner = session.user?.email?.toLowerCase();
+    const library = owner ? await getTemplateLibrary(owner) : null;
+
+    const message = conversation[position];
+    const locale = isReplyLocale(payload.locale)
+      ? payload.locale
+      : detectLanguage(`${message.subject}\n${latestText(message)}`);
+
+    const draft = await generateDraft({
+      message,
+      thread: conversation.slice(0, position),
+      myName: mailbox.name,
+      myAddress: mailbox.email,
+      signature: library?.signature || null,
+      locale,
+    });
+
+    return NextResponse.json({ ...draft, locale });
+  } catch (error) {
+    if (isReauthError(error)) return reauthRequired(mailbox);
+    console.error("Failed to generate smart draft", error);
+    return NextResponse.json(
+      { error: "Failed to generate draft" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import {
+  createTemplate,
+  deleteTemplate,
+  getTemplateLibrary,
+  updateTemplate,
+  type TemplateInput,
+} from "@/lib/template-store";
+
+async function templateOwner() {
+  const session = await getServerSession(authOptions);
+  return session?.user?.email?.toLowerCase() ?? null;
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: "Unauthorized" },
+    { status: 401 },
+  );
+}
+
+function failure(error: unknown, message: string) {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 400 },
+    );
+  }
+
+  console.error(message, error);
+  return NextResponse.json(
+    { error: message },
+    { status: 500 },
+  );
+}
+
+export async function GET() {
+  const owner = await templateOwner();
+  if (!owner) return unauthorized();
+
+  try {
+    return NextResponse.json(await getTemplateLibrary(owner));
+  } catch (error) {
+    return failure(error, "Failed to load templates");
+  }
+}
+
+export async function POST(request: Request) {
+  const owner = await templateOwner();
+  if (!owner) return unauthorized();
+
+  const payload = (await request.json()) as TemplateInput;
+
+  try {
+    const template = await createTemplate(owner, payload);
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    return failure(error, "Failed to create template");
+  }
+}
+
+export async function PUT(request: Request) {
+  const owner = await templateOwner();
+  if (!owner) return unauthorized();
+
+  const { id, ...payload } = (await request.json()) as TemplateInput & { id?: string };
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing template id" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const template = await updateTemplate(owner, id, payload);
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ template });
+  } catch (error) {
+    return failure(error, "Failed to update template");
+  }
+}
+
+export async function DELETE(request: Request) {
+  const owner = await templateOwner();
+  if (!owner) return unauthorized();
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing template id" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await deleteTemplate(owner, id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return failure(error, "Failed to delete template");
+  }
+}
@@ -0,0 +1,37 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { authOptions } from "@/lib/auth";
+import { updateSignature } from "@/lib/template-store";
+
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  const owner = session?.user?.email?.toLowerCase();
+
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const payload = (await request.json()) as { signature?: string };
+
+  if (typeof payload.signature !== "string") {
+    return NextResponse.json(
+      { error: "Missing signature" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const signature = await updateSignature(owner, payload.signature);
+    return NextResponse.json({ signature });
+  } catch (error) {
+    console.error("Failed to update signature", error);
+    return NextResponse.json(
+      { error: "Failed to update signature" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,604 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+
+import { reconnectGoogle } from '@/components/providers';
+import type { LinkedAccount } from '@/lib/accounts';
+import type {
+  ApprovalPolicy,
+  ApprovalRole,
+  ApprovalStatus,
+  ApprovalSummary,
+  AuditAction,
+  AuditEntry,
+} from '@/lib/approvals';
+import type { Teammate } from '@/lib/collab';
+import { formatDate } from '@/lib/format';
+import { ReauthRequiredError, responseError } from '@/lib/reauth';
+import { UNSAFE_REPLY } from '@/lib/reply-safety';
+
+type QueueResponse = {
+  account?: string;
+  role?: ApprovalRole;
+  policy?: ApprovalPolicy;
+  teammates?: Teammate[];
+  approvals?: ApprovalSummary[];
+  error?: string;
+  code?: string;
+};
+
+type Decision = {
+  action: 'approve' | 'reject';
+  body?: string;
+  comment?: string;
+};
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: 'Waiting for approval',
+  sending: 'Sending…',
+  sent: 'Sent',
+  rejected: 'Rejected',
+  failed: 'Send failed',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  drafted: 'Drafted',
+  edited: 'Edited',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  sent: 'Sent',
+  failed: 'Send failed',
+};
+
+const RANGE_OPTIONS = [7, 30, 90, 365];
+
+function withAccount(path: string, account: string) {
+  if (!account) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}account=${encodeURIComponent(account)}`;
+}
+
+function DiffView({ diff }: { diff: string }) {
+  return (
+    <pre className="mt-2 overflow-x-auto rounded-lg bg-zinc-50 p-3 text-xs leading-5">
+      {diff.split('\n').map((line, index) => (
+        <div
+          key={index}
+          className={line.startsWith('+ ') ? 'text-emerald-700' : line.startsWith('- ') ? 'text-rose-700 line-through' : 'text-zinc-600'}
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+function ApprovalCard({
+  approval,
+  canDecide,
+  onDecide,
+}: {
+  approval: ApprovalSummary;
+  canDecide: boolean;
+  onDecide: (approval: ApprovalSummary, decision: Decision) => Promise<void>;
+}) {
+  const [body, setBody] = useState(approval.body);
+  const [comment, setComment] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const open = approval.status === 'pending' || approval.status === 'failed';
+
+  const decide = async (decision: Decision) => {
+    setBusy(true);
+    try {
+      await onDecide(approval, decision);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <article className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-zinc-900">{approval.subject || '(no subject)'}</h3>
+          <p className="text-sm text-zinc-500">
+            To {approval.to ?? 'the sender'} · drafted by {approval.drafterName ?? approval.drafter} ·{' '}
+            {formatDate(approval.submittedAt)}
+          </p>
+        </div>
+        <span
+          className={`rounded-full px-3 py-1 text-xs font-semibold ${
+            approval.status === 'sent'
+              ? 'bg-emerald-100 text-emerald-800'
+              : approval.status === 'rejected' || approval.status === 'failed'
+                ? 'bg-rose-100 text-rose-800'
+                : 'bg-amber-100 text-amber-800'
+          }`}
+        >
+          {STATUS_LABELS[approval.status]}
+        </span>
+      </div>
+
+      <textarea
+        aria-label="Reply"
+        value={body}
+        readOnly={!editing}
+        onChange={(event) => setBody(event.target.value)}
+        rows={Math.min(Math.max(body.split('\n').length, 4), 16)}
+        className={`mt-4 w-full rounded-lg border px-3 py-2 text-sm text-zinc-800 focus:outline-none ${
+          editing ? 'border-slate-500 bg-white' : 'border-zinc-200 bg-zinc-50'
+        }`}
+      />
+
+      {approval.comment && (
+        <p className="mt-2 rounded-md bg-zinc-50 px-3 py-2 text-xs text-zinc-700">
+          {approval.decidedBy ?? 'Approver'}: {approval.comment}
+        </p>
+      )}
+      {approval.error && <p className="mt-2 text-xs text-rose-600">Not sent: {approval.error}</p>}
+
+      {canDecide && open && (
+        <div className="mt-4 flex flex-col gap-3">
+          <input
+            aria-label="Comment"
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder="Comment for the drafter (required to reject)"
+            className="rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-800 focus:border-slate-500 focus:outline-none"
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              onClick={() => decide({ action: 'reject', comment })}
+              disabled={busy || !comment.trim()}
+              className="rounded-full border border-rose-300 px-4 py-2 text-sm font-medium text-rose-700 transition hover:border-rose-400 disabled:cursor-not-allowed disabled:text-rose-300"
+            >
+              Reject
+            </button>
+            {editing ? (
+              <button
+                onClick={() => {
+                  setBody(approval.body);
+                  setEditing(false);
+                }}
+                disabled={busy}
+                className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400"
+              >
+                Discard edits
+              </button>
+            ) : (
+              <button
+                onClick={() => setEditing(true)}
+                disabled={busy}
+                className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400"
+              >
+                Edit
+              </button>
+            )}
+            <button
+              onClick={() => decide({ action: 'approve', body, ...(comment.trim() ? { comment } : {}) })}
+              disabled={busy || !body.trim()}
+              className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-500"
+            >
+              {busy ? 'Sending…' : body !== approval.body ? 'Send edited reply' : 'Approve and send'}
+            </button>
+          </div>
+        </div>
+      )}
+    </article>
+  );
+}
+
+function PolicyEditor({
+  account,
+  policy,
+  teammates,
+  onSaved,
+}: {
+  account: string;
+  policy: ApprovalPolicy;
+  teammates: Teammate[];
+  onSaved: (policy: ApprovalPolicy) => void;
+}) {
+  const [roles, setRoles] = useState(policy.roles);
+  const [senders, setSenders] = useState(policy.senders.join('\n'));
+  const [domains, setDomains] = useState(policy.domains.join('\n'));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(withAccount('/api/gmail/approvals/policy', account), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ roles, senders, domains }),
+      });
+      const payload = (await response.json()) as { policy?: ApprovalPolicy; error?: string; code?: string };
+      if (!response.ok || !payload.policy) {
+        throw responseError(payload, 'Failed to save approval settings');
+      }
+      onSaved(payload.policy);
+    } catch (saveError) {
+      console.error(saveError);
+      if (saveError instanceof ReauthRequiredError) {
+        reconnectGoogle(saveError.account);
+        return;
+      }
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save approval settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <h2 className="text-xl font-semibold">Who needs approval</h2>
+      <p className="mt-1 text-sm text-zinc-500">
+        Drafters have to submit replies to these senders and domains; approvers can send them directly.
+      </p>
+      <div className="mt-4 grid gap-6 md:grid-cols-2">
+        <div className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold text-zinc-700">Roles</h3>
+          <ul className="flex flex-col gap-2">
+            {teammates.map((teammate) => (
+              <li key={teammate.email} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate text-zinc-700">{teammate.name ?? teammate.email}</span>
+                {teammate.email === account.toLowerCase() ? (
+                  <span className="text-xs text-zinc-500">Inbox owner · approver</span>
+                ) : (
+                  <select
+                    aria-label={`Role for ${teammate.email}`}
+                    value={roles[teammate.email] ?? 'drafter'}
+                    onChange={(event) =>
+                      setRoles((prev) => ({ ...prev, [teammate.email]: event.target.value as ApprovalRole }))
+                    }
+                    className="rounded-full border border-zinc-300 bg-white px-3 py-1 text-xs focus:border-slate-500 focus:outline-none"
+                  >
+                    <option value="drafter">Drafter</option>
+                    <option value="approver">Approver</option>
+                  </select>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="flex flex-col gap-3">
+          <label className="flex flex-col gap-1 text-sm font-semibold text-zinc-700">
+            Senders
+            <textarea
+              value={senders}
+              onChange={(event) => setSenders(event.target.value)}
+              rows={3}
+              placeholder="ceo@customer.com"
+              className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-800 focus:border-slate-500 focus:outline-none"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm font-semibold text-zinc-700">
+            Domains
+            <textarea
+              value={domains}
+              onChange={(event) => setDomains(event.target.value)}
+              rows={3}
+              placeholder="bigclient.com"
+              className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-normal text-zinc-800 focus:border-slate-500 focus:outline-none"
+            />
+          </label>
+        </div>
+      </div>
+      <div className="mt-4 flex items-center justify-between gap-3">
+        <span className="text-xs text-zinc-400">
+          {policy.updatedAt ? `Updated ${formatDate(policy.updatedAt)} by ${policy.updatedBy}` : ''}
+        </span>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:bg-slate-400"
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+    </section>
+  );
+}
+
+function AuditLog({ account, version }: { account: string; version: number }) {
+  const [days, setDays] = useState(30);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [openDiffs, setOpenDiffs] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadAuditLog() {
+      try {
+        const response = await fetch(withAccount(`/api/gmail/audit?days=${days}`, account));
+        const payload = (await response.json()) as { entries?: AuditEntry[]; error?: string; code?: string };
+        if (!response.ok || !payload.entries) {
+          throw responseError(payload, 'Failed to load audit log');
+        }
+        if (!cancelled) {
+          setEntries(payload.entries);
+          setError(null);
+        }
+      } catch (loadError) {
+        if (cancelled) return;
+        console.error(loadError);
+        if (loadError instanceof ReauthRequiredError) {
+          reconnectGoogle(loadError.account);
+          return;
+        }
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load audit log');
+      }
+    }
+
+    loadAuditLog();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account, days, version]);
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">Audit log</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={days}
+            onChange={(event) => setDays(Number(event.target.value))}
+            className="rounded-full border border-zinc-300 bg-white px-3 py-2 text-sm focus:border-slate-500 focus:outline-none"
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                Last {option} days
+              </option>
+            ))}
+          </select>
+          <a
+            href={withAccount(`/api/gmail/audit?days=${days}&format=csv`, account)}
+            className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800"
+          >
+            Export CSV
+          </a>
+        </div>
+      </div>
+      {error && <p className="mt-4 rounded-lg bg-rose-50 p-3 text-sm text-rose-700">{error}</p>}
+      {entries.length ? (
+        <ul className="mt-4 divide-y divide-zinc-100">
+          {entries.map((entry) => (
+            <li key={entry.id} className="py-3 text-sm">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="min-w-0 text-zinc-800">
+                  <span className="font-semibold">{ACTION_LABELS[entry.action]}</span> by {entry.actor} ·{' '}
+                  <span className="text-zinc-500">{entry.subject || '(no subject)'}</span>
+                </p>
+                <span className="text-xs text-zinc-400">{formatDate(entry.at)}</span>
+              </div>
+              {entry.comment && <p className="text-xs text-zinc-600">“{entry.comment}”</p>}
+              {entry.diff && (
+                <>
+                  <button
+                    onClick={() => setOpenDiffs((prev) => ({ ...prev, [entry.id]: !prev[entry.id] }))}
+                    aria-expanded={Boolean(openDiffs[entry.id])}
+                    className="text-xs text-zinc-500 underline-offset-2 hover:text-zinc-800 hover:underline"
+                  >
+                    {openDiffs[entry.id] ? 'Hide changes' : 'Show changes'}
+                  </button>
+                  {openDiffs[entry.id] && <DiffView diff={entry.diff} />}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-zinc-500">Nothing has gone through approval in this period.</p>
+      )}
+    </section>
+  );
+}
+
+export default function ApprovalsPage() {
+  const { status } = useSession();
+  const [accounts, setAccounts] = useState<LinkedAccount[]>([]);
+  const [account, setAccount] = useState('');
+  const [queue, setQueue] = useState<QueueResponse | null>(null);
+  const [version, setVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    let cancelled = false;
+
+    async function loadAccounts() {
+      try {
+        const response = await fetch('/api/accounts');
+        const payload = (await response.json()) as { accounts?: LinkedAccount[]; error?: string };
+        if (!response.ok || !payload.accounts) {
+          throw responseError(payload, 'Failed to load accounts');
+        }
+        if (!cancelled) setAccounts(payload.accounts);
+      } catch (loadError) {
+        if (!cancelled) console.error(loadError);
+      }
+    }
+
+    loadAccounts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status]);
+
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    let cancelled = false;
+
+    async function loadQueue() {
+      try {
+        const response = await fetch(withAccount('/api/gmail/approvals', account));
+        const payload = (await response.json()) as QueueResponse;
+        if (!response.ok || !payload.approvals) {
+          throw responseError(payload, 'Failed to load approvals');
+        }
+        if (!cancelled) {
+          setQueue(payload);
+          setError(null);
+        }
+      } catch (loadError) {
+        if (cancelled) return;
+        console.error(loadError);
+        if (loadError instanceof ReauthRequiredError) {
+          reconnectGoogle(loadError.account);
+          return;
+        }
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load approvals');
+      }
+    }
+
+    loadQueue();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account, status, version]);
+
+  const handleDecide = async (approval: ApprovalSummary, decision: Decision) => {
+    setError(null);
+    setSuccess(null);
+    try {
+      const decide = async (allowUnsafe: boolean) => {
+        const response = await fetch(
+          withAccount(`/api/gmail/approvals?id=${encodeURIComponent(approval.id)}`, account),
+          {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ ...decision, allowUnsafe }),
+          },
+        );
+        return { response, payload: (await response.json()) as { approval?: ApprovalSummary; error?: string; code?: string } };
+      };
+
+      let { response, payload } = await decide(false);
+      if (response.status === 409 && payload.code === UNSAFE_REPLY) {
+        if (!window.confirm(`${payload.error ?? 'This message looks automated'}.\n\nSend this reply anyway?`)) return;
+        ({ response, payload } = await decide(true));
+      }
+      if (!response.ok || !payload.approval) {
+        throw responseError(payload, 'Failed to update approval');
+      }
+      setSuccess(
+        payload.approval.status === 'sent'
+          ? `Reply to ${payload.approval.to ?? 'the sender'} sent`
+          : `Reply from ${approval.drafterName ?? approval.drafter} rejected`,
+      );
+    } catch (decideError) {
+      console.error(decideError);
+      if (decideError instanceof ReauthRequiredError) {
+        reconnectGoogle(decideError.account);
+        return;
+      }
+      setError(decideError instanceof Error ? decideError.message : 'Failed to update approval');
+    } finally {
+      setVersion((prev) => prev + 1);
+    }
+  };
+
+  const approver = queue?.role === 'approver';
+  const approvals = queue?.approvals ?? [];
+  const open = approvals.filter((approval) => approval.status === 'pending' || approval.status === 'failed');
+  const handled = approvals.filter((approval) => !open.includes(approval));
+
+  return (
+    <main className="min-h-screen bg-zinc-50 px-4 pb-24 pt-10 text-zinc-900">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold">Reply approvals</h1>
+            <p className="text-sm text-zinc-500">
+              <Link href="/" className="underline hover:text-zinc-700">Back to inbox</Link>
+              {queue?.role ? ` · You're ${queue.role === 'approver' ? 'an approver' : 'a drafter'} in ${queue.account}` : ''}
+            </p>
+          </div>
+          {accounts.length > 1 && (
+            <select
+              aria-label="Inbox"
+              value={account}
+              onChange={(event) => setAccount(event.target.value)}
+              className="rounded-full border border-zinc-300 bg-white px-3 py-2 text-sm focus:border-slate-500 focus:outline-none"
+            >
+              {accounts.map((entry) => (
+                <option key={entry.email} value={entry.primary ? '' : entry.email}>
+                  {entry.email}
+                </option>
+              ))}
+            </select>
+          )}
+        </header>
+
+        {status === 'unauthenticated' && (
+          <p className="rounded-lg bg-amber-50 p-4 text-sm text-amber-800">Sign in from the inbox to see approvals.</p>
+        )}
+        {error && <p className="rounded-lg bg-rose-50 p-4 text-sm text-rose-700">{error}</p>}
+        {success && <p className="rounded-lg bg-emerald-50 p-4 text-sm text-emerald-700">{success}</p>}
+
+        {queue && (
+          <>
+            <section className="flex flex-col gap-4">
+              <h2 className="text-xl font-semibold">
+                {approver ? 'Waiting for your approval' : 'Your submitted replies'} ({open.length})
+              </h2>
+              {open.length ? (
+                open.map((approval) => (
+                  <ApprovalCard
+                    key={`${approval.id}-${approval.status}`}
+                    approval={approval}
+                    canDecide={approver}
+                    onDecide={handleDecide}
+                  />
+                ))
+              ) : (
+                <p className="rounded-xl border border-dashed border-zinc-300 p-8 text-center text-sm text-zinc-500">
+                  Nothing is waiting for approval.
+                </p>
+              )}
+            </section>
+
+            {handled.length > 0 && (
+              <section className="flex flex-col gap-4">
+                <h2 className="text-xl font-semibold">Recently handled</h2>
+                {handled.map((approval) => (
+                  <ApprovalCard key={`${approval.id}-${approval.status}`} approval={approval} canDecide={false} onDecide={handleDecide} />
+                ))}
+              </section>
+            )}
+
+            {approver && queue.policy && (
+              <PolicyEditor
+                key={`${queue.account}-${queue.policy.updatedAt}`}
+                account={queue.account ?? ''}
+                policy={queue.policy}
+                teammates={queue.teammates ?? []}
+                onSaved={(policy) => {
+                  setQueue((prev) => (prev ? { ...prev, policy } : prev));
+                  setSuccess('Approval settings saved');
+                }}
+              />
+            )}
+
+            {approver && <AuditLog account={account} version={version} />}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+/// <reference types="vite/client" />
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import type { Session } from 'next-auth';
+import { getServerSession } from 'next-auth';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { FakeGmailBackend } from '@/lib/fake-gmail';
+import { updateUserSettings } from '@/lib/settings-store';
+import { fakeGmail, sessionFor } from '@/test/gmail';
+
+import InboxAssistant from './page';
+
+const session = vi.hoisted(() => ({ current: null as Session | null }));
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('next-auth/react', () => ({
+  signIn: vi.fn(),
+  signOut: vi.fn(),
+  useSession: () => ({ data: session.current, status: 'authenticated' }),
+}));
+vi.mock('@/components/providers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/components/providers')>()),
+  useAuthConfigured: () => true,
+}));
+
+type RouteModule = Record<string, (request: Request) => Promise<Response>>;
+
+const routes = import.meta.glob<RouteModule>('/app/api/**/route.ts');
+
+/** Serves the page's fetches from the real route handlers, in process. */
+async function routeFetch(input: RequestInfo | URL, init?: RequestInit) {
+  const request = new Request(new URL(String(input), 'http://localhost'), init);
+  const load = routes[`/app${new URL(request.url).pathname}/route.ts`];
+  const handler = load && (await load())[request.method];
+  if (!handler) return Response.json({ error: 'Not found' }, { status: 404 });
+  return handler(request);
+}
+
+// Route modules load on their first fetch, which takes longer than the default second.
+const FIRST_LOAD = { timeout: 10_000 };
+
+class IdleEventSource {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  close() {}
+}
+
+class IdleIntersectionObserver {
+  observe() {}
+  disconnect() {}
+}
+
+describe('InboxAssistant', () => {
+  let backend: FakeGmailBackend;
+
+  beforeEach(async () => {
+    backend = fakeGmail();
+    session.current = sessionFor();
+    vi.mocked(getServerSession).mockResolvedValue(session.current);
+    // Send straight away rather than through the undo window.
+    await updateUserSettings('me@example.com', { undoSeconds: 0 });
+
+    vi.stubGlobal('fetch', vi.fn(routeFetch));
+    vi.stubGlobal('EventSource', IdleEventSource);
+    vi.stubGlobal('IntersectionObserver', IdleIntersectionObserver);
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('lists the unread inbox', async () => {
+    render(<InboxAssistant />);
+
+    expect(await screen.findByText('Project update', undefined, FIRST_LOAD)).toBeTruthy();
+    for (const subject of ['Quick call next week?', 'Invoice #4821', 'This week in product']) {
+      expect(screen.getByText(subject)).toBeTruthy();
+    }
+    expect(screen.getByText('Project update').closest('article')?.textContent).toContain('Alex Rivera');
+  });
+
+  it('sends a typed reply through the reply route', async () => {
+    render(<InboxAssistant />);
+
+    const article = (await screen.findByText('Project update', undefined, FIRST_LOAD)).closest('article') as HTMLElement;
+    const editor = article.querySelector('textarea') as HTMLTextAreaElement;
+    fireEvent.change(editor, { target: { value: 'Hi Alex,\n\nStill on track for Friday.' } });
+    fireEvent.click(within(article).getByRole('button', { name: 'Send reply' }));
+
+    expect(await screen.findByText('Reply sent to Alex Rivera', undefined, FIRST_LOAD)).toBeTruthy();
+    await waitFor(() => expect(screen.queryByText('Project update')).toBeNull());
+
+    const [sent] = backend.sentMessages();
+    expect(sent.header('To')).toBe('Alex Rivera <alex@example.org>');
+    expect(sent.header('Subject')).toBe('Re: Project update');
+    expect(sent.text).toContain('Still on track for Friday.');
+  });
+});
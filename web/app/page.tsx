@@ -1,9 +1,59 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import { signIn, signOut, useSession } from 'next-auth/react';
 
-import { useAuthConfigured } from '@/components/providers';
+import AccountSwitcher from '@/components/account-switcher';
+import AssignmentControl from '@/components/assignment-control';
+import BulkSendDialog, { type BulkPlanItem } from '@/components/bulk-send-dialog';
+import { describePostSend, type GmailLabel } from '@/components/post-send-editor';
+import PriorityBadge from '@/components/priority-badge';
+import { reconnectGoogle, useAuthConfigured } from '@/components/providers';
+import ReplyOptionsPanel, {
+  DEFAULT_REPLY_OPTIONS,
+  readFileAsBase64,
+  scheduledSendAt,
+  splitRecipients,
+  type ReplyOptions,
+} from '@/components/reply-options';
+import RemindersPanel, { SnoozeMenu } from '@/components/reminders-panel';
+import RulesPanel from '@/components/rules-panel';
+import SenderSidebar from '@/components/sender-sidebar';
+import SendQueueBanner from '@/components/send-queue-banner';
+import SendSettings from '@/components/send-settings';
+import TemplateEditor from '@/components/template-editor';
+import ThreadView from '@/components/thread-view';
+import ShortcutHelp, { triageActionFor } from '@/components/triage-shortcuts';
+import VacationPanel, { VacationStatus } from '@/components/vacation-panel';
+import type { LinkedAccount } from '@/lib/accounts';
+import { editRatio, type ReplyAnalytics } from '@/lib/analytics';
+import { APPROVAL_REQUIRED } from '@/lib/approvals';
+import { isFresh, PRESENCE_REFRESH_MS, type Assignment, type Presence, type Teammate } from '@/lib/collab';
+import { formatDate } from '@/lib/format';
+import type { InboxStreamEvent } from '@/lib/history-sync';
+import { detectLanguage, isReplyLocale, localeLabel, REPLY_LOCALES, type ReplyLocale } from '@/lib/locale';
+import {
+  categoryLabel,
+  MESSAGE_CATEGORIES,
+  type MessageCategory,
+  type MessagePriority,
+  type MessageSignals,
+} from '@/lib/priority';
+import { REAUTH_REQUIRED, ReauthRequiredError, RELINK_REQUIRED, responseError } from '@/lib/reauth';
+import type { Reminder } from '@/lib/reminders';
+import { UNSAFE_REPLY, type SafetyIssue } from '@/lib/reply-safety';
+import { defaultAlias, type SendAsAlias } from '@/lib/send-as';
+import type { QueuedSendSummary } from '@/lib/send-queue';
+import { DEFAULT_SETTINGS, type UserSettings } from '@/lib/settings';
+import {
+  DEFAULT_LIBRARY,
+  renderTemplate,
+  templateContext,
+  type ReplyTemplate,
+  type TemplateLibrary,
+} from '@/lib/templates';
+import type { VacationSettings } from '@/lib/vacation';
 
 type GmailMessage = {
   id: string;
@@ -12,61 +62,390 @@ type GmailMessage = {
   from: string | null;
   fromName: string | null;
   fromAddress: string | null;
+  recipients?: string[];
   snippet: string;
   date: string | null;
   internalDate?: string | null;
   messageIdHeader?: string | null;
+  /** The inbox the message was fetched from, and so the one that answers it. */
+  account?: string | null;
+  labelIds?: string[];
+  signals?: MessageSignals | null;
+  priority?: MessagePriority;
 };
 
+type InboxOrder = 'newest' | 'priority' | 'category';
+
+const INBOX_ORDERS: { id: InboxOrder; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'priority', label: 'Highest priority' },
+  { id: 'category', label: 'By category' },
+];
+
 type MessagesResponse = {
   messages: GmailMessage[];
+  nextPageToken?: string | null;
+  resultSizeEstimate?: number;
   error?: string;
+  code?: string;
 };
 
-const QUICK_REPLIES = [
-  {
-    id: 'acknowledge',
-    label: 'Acknowledgement',
-    body: (
-      recipient: GmailMessage,
-    ) => `Hi ${recipient.fromName ?? 'there'},\n\nThanks for reaching out about "${recipient.subject}". I received your message and will circle back with a full response soon.\n\nBest,\n`,
-  },
-  {
-    id: 'schedule',
-    label: 'Schedule a call',
-    body: (
-      recipient: GmailMessage,
-    ) => `Hi ${recipient.fromName ?? 'there'},\n\nAppreciate the note regarding "${recipient.subject}". Happy to connect—would you have time for a quick call later this week? Let me know a few windows that work for you.\n\nThanks,\n`,
-  },
-  {
-    id: 'follow-up',
-    label: 'Ask for details',
-    body: (
-      recipient: GmailMessage,
-    ) => `Hi ${recipient.fromName ?? 'there'},\n\nThanks for reaching out! Could you share a bit more detail about "${recipient.subject}" so I can help faster?\n\nLooking forward to your reply,\n`,
-  },
-];
+type InboxPage = {
+  messages: GmailMessage[];
+  pageTokens: Record<string, string | null>;
+  resultSizeEstimate: number;
+};
+
+type SavedDraft = {
+  id: string;
+  threadId: string | null;
+  body: string;
+};
+
+type DraftsResponse = {
+  drafts: SavedDraft[];
+  error?: string;
+  code?: string;
+};
+
+type DraftStatus = 'saving' | 'saved' | 'error';
+
+/** Where the text in the composer came from, and what it said before any edits. */
+type DraftOrigin = Pick<ReplyAnalytics, 'origin' | 'templateId' | 'templateName' | 'provider'> & {
+  original: string;
+};
+
+type BatchReplyResult = {
+  messageId: string;
+  ok: boolean;
+  error?: string;
+  queued?: QueuedSendSummary;
+  plan?: 'send' | 'queue';
+  issues?: SafetyIssue[];
+};
+
+type BatchReplyResponse = {
+  results?: BatchReplyResult[];
+  error?: string;
+  code?: string;
+};
+
+type SendReplyResponse = {
+  ok?: boolean;
+  /** The reply went out but the original couldn't be relabelled. */
+  warning?: string | null;
+  queued?: QueuedSendSummary;
+  error?: string;
+  code?: string;
+};
+
+type CollabResponse = {
+  account?: string | null;
+  assignments?: Assignment[];
+  presence?: Presence[];
+  teammates?: Teammate[];
+  error?: string;
+  code?: string;
+};
+
+type SmartDraftResponse = {
+  body?: string;
+  intents?: string[];
+  provider?: { id: string; label: string };
+  fallbackReason?: string;
+  error?: string;
+  code?: string;
+};
+
+const UNREAD_QUERY = 'is:unread';
+const ALL_ACCOUNTS = 'all';
+// Stands for the signed-in account when the linked-account list isn't available.
+const PRIMARY_ACCOUNT = '';
+const DRAFT_AUTOSAVE_DELAY = 1500;
+// How long past its send time a queued reply waits before we ask the server for its status.
+const QUEUE_SYNC_GRACE_MS = 1500;
+const QUEUE_SYNC_INTERVAL_MS = 3000;
+// Snoozes wake on a server schedule too; this only catches them while the page is open.
+const REMINDER_SYNC_INTERVAL_MS = 60_000;
 
-function defaultReply(message: GmailMessage) {
-  return QUICK_REPLIES[0]?.body(message) ?? '';
+const PREVIEW_MESSAGE: GmailMessage = {
+  id: 'preview',
+  threadId: null,
+  subject: 'Project update',
+  from: 'preview@example.com',
+  fromName: 'Alex',
+  fromAddress: 'preview@example.com',
+  snippet: 'Wanted to check on the status of the project.',
+  date: new Date().toISOString(),
+  messageIdHeader: undefined,
+};
+
+function detectedLocale(message: GmailMessage) {
+  return detectLanguage(`${message.subject}\n${message.snippet}`);
+}
+
+function applyTemplate(
+  message: GmailMessage,
+  template: ReplyTemplate,
+  library: TemplateLibrary,
+  myName: string | null,
+  locale: ReplyLocale,
+) {
+  return renderTemplate(template, templateContext(message, myName, locale), library.signature, locale);
+}
+
+function defaultReply(message: GmailMessage, library: TemplateLibrary, myName: string | null, locale: ReplyLocale) {
+  const template = library.templates[0];
+  return template ? applyTemplate(message, template, library, myName, locale) : '';
+}
+
+// Without a chosen language the server detects it from the full message text.
+async function fetchSmartDraft(message: GmailMessage, locale?: ReplyLocale) {
+  const response = await fetch(withAccount('/api/smart-draft', message.account), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ messageId: message.id, threadId: message.threadId, ...(locale ? { locale } : {}) }),
+  });
+  const payload = (await response.json()) as SmartDraftResponse;
+  if (!response.ok || payload.body === undefined) {
+    throw responseError(payload, 'Failed to generate draft');
+  }
+  return payload;
+}
+
+function withAccount(path: string, account?: string | null) {
+  if (!account) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}account=${encodeURIComponent(account)}`;
+}
+
+function newestFirst(a: GmailMessage, b: GmailMessage) {
+  return Number(b.internalDate ?? 0) - Number(a.internalDate ?? 0);
+}
+
+function highestPriorityFirst(a: GmailMessage, b: GmailMessage) {
+  return (b.priority?.score ?? -1) - (a.priority?.score ?? -1) || newestFirst(a, b);
+}
+
+function categoryOrder(message: GmailMessage) {
+  return MESSAGE_CATEGORIES.findIndex((category) => category.id === (message.priority?.category ?? 'other'));
+}
+
+function byCategory(a: GmailMessage, b: GmailMessage) {
+  return categoryOrder(a) - categoryOrder(b) || highestPriorityFirst(a, b);
+}
+
+async function saveCategory(message: GmailMessage, category: MessageCategory) {
+  const response = await fetch('/api/priority', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      category,
+      message: {
+        subject: message.subject,
+        snippet: message.snippet,
+        fromAddress: message.fromAddress,
+        labelIds: message.labelIds ?? [],
+        internalDate: message.internalDate ?? null,
+        signals: message.signals ?? null,
+      },
+    }),
+  });
+  const payload = (await response.json()) as { priority?: MessagePriority; error?: string; code?: string };
+  if (!response.ok || !payload.priority) {
+    throw responseError(payload, 'Failed to save category');
+  }
+  return payload.priority;
+}
+
+async function fetchMessages(search: string, account: string, pageToken?: string | null) {
+  const params = new URLSearchParams({ q: [UNREAD_QUERY, search.trim()].filter(Boolean).join(' ') });
+  if (pageToken) {
+    params.set('pageToken', pageToken);
+  }
+  if (account) {
+    params.set('account', account);
+  }
+
+  const response = await fetch(`/api/gmail/list?${params.toString()}`);
+  const payload = (await response.json()) as MessagesResponse;
+  if (!response.ok) {
+    throw responseError(payload, 'Failed to load messages');
+  }
+  return payload;
 }
 
-function smartReply(message: GmailMessage) {
-  if (!message.fromAddress) {
-    return defaultReply(message);
+/**
+ * Loads a page of unread mail from each account and merges them newest
+ * first. With `pageTokens`, only accounts that have more pages are asked.
+ * One inbox failing doesn't hide the others unless they all fail.
+ */
+async function fetchInbox(search: string, accounts: string[], pageTokens?: Record<string, string | null>) {
+  const targets = pageTokens ? accounts.filter((account) => pageTokens[account]) : accounts;
+  const pages = await Promise.allSettled(
+    targets.map((account) => fetchMessages(search, account, pageTokens?.[account])),
+  );
+
+  const failures = pages.filter((page): page is PromiseRejectedResult => page.status === 'rejected');
+  if (failures.length && failures.length === pages.length) {
+    throw failures[0].reason;
   }
+  failures.forEach((failure) => console.error(failure.reason));
 
-  const cleanedSnippet = message.snippet.replace(/\s+/g, ' ').trim();
-  const greeting = message.fromName ? `Hi ${message.fromName},` : 'Hello,';
+  const inbox: InboxPage = { messages: [], pageTokens: {}, resultSizeEstimate: 0 };
+  pages.forEach((page, index) => {
+    if (page.status !== 'fulfilled') return;
+    inbox.messages.push(...page.value.messages);
+    inbox.pageTokens[targets[index]] = page.value.nextPageToken ?? null;
+    inbox.resultSizeEstimate += page.value.resultSizeEstimate ?? page.value.messages.length;
+  });
+  inbox.messages.sort(newestFirst);
+  return inbox;
+}
 
-  return `${greeting}\n\nThanks for getting in touch regarding "${message.subject}". ${cleanedSnippet.length ? `Here's what I understood from your note: ${cleanedSnippet}. ` : ''}I'll review the details and follow up with the next steps shortly.\n\nBest regards,\n`;
+async function fetchAccounts() {
+  const response = await fetch('/api/accounts');
+  const payload = (await response.json()) as { accounts?: LinkedAccount[]; error?: string };
+  if (!response.ok || !payload.accounts) {
+    throw responseError(payload, 'Failed to load accounts');
+  }
+  return payload.accounts;
 }
 
-function formatDate(date: string | null) {
-  if (!date) return 'Unknown date';
-  const parsed = new Date(date);
-  if (Number.isNaN(parsed.getTime())) return date;
-  return parsed.toLocaleString();
+function accountsInScope(scope: string, accounts: LinkedAccount[]) {
+  if (scope !== ALL_ACCOUNTS) return [scope];
+  return accounts.length ? accounts.map((account) => account.email) : [PRIMARY_ACCOUNT];
+}
+
+async function fetchTemplateLibrary() {
+  const response = await fetch('/api/templates');
+  const payload = (await response.json()) as TemplateLibrary & { error?: string };
+  if (!response.ok) {
+    throw responseError(payload, 'Failed to load templates');
+  }
+  return { templates: payload.templates, signature: payload.signature };
+}
+
+async function fetchSavedDrafts(account: string) {
+  const response = await fetch(withAccount('/api/gmail/drafts', account));
+  const payload = (await response.json()) as DraftsResponse;
+  if (!response.ok) {
+    throw responseError(payload, 'Failed to load drafts');
+  }
+  return payload.drafts;
+}
+
+async function fetchSendAs(account: string) {
+  const response = await fetch(withAccount('/api/gmail/send-as', account));
+  const payload = (await response.json()) as {
+    account?: string | null;
+    aliases?: SendAsAlias[];
+    error?: string;
+    code?: string;
+  };
+  if (!response.ok || !payload.aliases) {
+    throw responseError(payload, 'Failed to load sender addresses');
+  }
+  return { account: payload.account ?? account, aliases: payload.aliases };
+}
+
+async function fetchCollab(account: string) {
+  const response = await fetch(withAccount('/api/gmail/assignments', account));
+  const payload = (await response.json()) as CollabResponse;
+  if (!response.ok || !payload.assignments) {
+    throw responseError(payload, 'Failed to load assignments');
+  }
+  return {
+    account: payload.account ?? account,
+    assignments: payload.assignments,
+    presence: payload.presence ?? [],
+    teammates: payload.teammates ?? [],
+  };
+}
+
+/** Assignments and presence are per thread within an inbox. */
+function threadKey(account: string | null | undefined, threadId: string) {
+  return `${account ?? ''}:${threadId}`;
+}
+
+async function readAttachments(options: ReplyOptions) {
+  return Promise.all(
+    options.attachments.map(async (file) => ({
+      filename: file.name,
+      mimeType: file.type || null,
+      data: await readFileAsBase64(file),
+    })),
+  );
+}
+
+async function fetchSendQueue() {
+  const response = await fetch('/api/send-queue');
+  const payload = (await response.json()) as { queue?: QueuedSendSummary[]; error?: string };
+  if (!response.ok || !payload.queue) {
+    throw responseError(payload, 'Failed to load send queue');
+  }
+  return payload.queue;
+}
+
+async function fetchReminders() {
+  // Waking due reminders first means a snoozed message is back before the inbox loads.
+  await fetch('/api/reminders/process', { method: 'POST' });
+  const response = await fetch('/api/reminders');
+  const payload = (await response.json()) as { reminders?: Reminder[]; error?: string };
+  if (!response.ok || !payload.reminders) {
+    throw responseError(payload, 'Failed to load reminders');
+  }
+  return payload.reminders;
+}
+
+async function fetchSettings() {
+  const response = await fetch('/api/settings');
+  const payload = (await response.json()) as { settings?: UserSettings; error?: string };
+  if (!response.ok || !payload.settings) {
+    throw responseError(payload, 'Failed to load settings');
+  }
+  return payload.settings;
+}
+
+async function fetchLabels() {
+  const response = await fetch('/api/gmail/labels');
+  const payload = (await response.json()) as { labels?: GmailLabel[]; error?: string; code?: string };
+  if (!response.ok || !payload.labels) {
+    throw responseError(payload, 'Failed to load labels');
+  }
+  return payload.labels;
+}
+
+async function fetchVacation() {
+  const response = await fetch('/api/gmail/vacation');
+  const payload = (await response.json()) as { vacation?: VacationSettings; error?: string; code?: string };
+  if (!response.ok || !payload.vacation) {
+    throw responseError(payload, 'Failed to load auto-reply settings');
+  }
+  return payload.vacation;
+}
+
+function isPending(item: QueuedSendSummary) {
+  return item.status === 'queued' || item.status === 'sending';
+}
+
+function replyRequest(message: GmailMessage, body: string, options: ReplyOptions) {
+  return {
+    messageId: message.id,
+    threadId: message.threadId,
+    to: message.fromAddress ?? message.from,
+    subject: message.subject,
+    body,
+    messageHeaderId: message.messageIdHeader,
+    mode: options.mode,
+    cc: splitRecipients(options.cc),
+    bcc: splitRecipients(options.bcc),
+    postSend: options.postSend,
+    ...(options.from ? { from: options.from } : {}),
+  };
 }
 
 export default function InboxAssistant() {
@@ -74,19 +453,269 @@ export default function InboxAssistant() {
   const { data: session, status } = useSession();
   const [messages, setMessages] = useState<GmailMessage[]>([]);
   const [loadingMessages, setLoadingMessages] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pageTokens, setPageTokens] = useState<Record<string, string | null>>({});
+  const [accounts, setAccounts] = useState<LinkedAccount[]>([]);
+  const [accountScope, setAccountScope] = useState(ALL_ACCOUNTS);
+  const [resultSizeEstimate, setResultSizeEstimate] = useState(0);
+  const [searchInput, setSearchInput] = useState('');
+  const [activeSearch, setActiveSearch] = useState('');
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
   const [sendingId, setSendingId] = useState<string | null>(null);
+  const [bulkSending, setBulkSending] = useState(false);
+  const [bulkPlan, setBulkPlan] = useState<BulkPlanItem[] | null>(null);
+  const [sendErrors, setSendErrors] = useState<Record<string, string>>({});
   const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [expandedThreads, setExpandedThreads] = useState<Record<string, boolean>>({});
+  const [senderPanels, setSenderPanels] = useState<Record<string, boolean>>({});
+  const [replyOptions, setReplyOptions] = useState<Record<string, ReplyOptions>>({});
+  // Reply language chosen on a card; cards without one use the detected language.
+  const [languages, setLanguages] = useState<Record<string, ReplyLocale>>({});
+  const [templateLibrary, setTemplateLibrary] = useState<TemplateLibrary>(DEFAULT_LIBRARY);
+  const [draftingId, setDraftingId] = useState<string | null>(null);
+  const [draftAuthors, setDraftAuthors] = useState<Record<string, string>>({});
+  const [draftStatus, setDraftStatus] = useState<Record<string, DraftStatus>>({});
+  const savedDraftsByThread = useRef(new Map<string, SavedDraft>());
+  const draftSaves = useRef<Record<string, Promise<string | null>>>({});
+  const draftTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const draftOrigins = useRef<Record<string, DraftOrigin>>({});
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [labels, setLabels] = useState<GmailLabel[]>([]);
+  // Send-as aliases per inbox, keyed by the account address messages carry.
+  const [aliases, setAliases] = useState<Record<string, SendAsAlias[]>>({});
+  // Shared-inbox state: assignments and presence by `threadKey`, teammates by inbox.
+  const [assignments, setAssignments] = useState<Record<string, Assignment>>({});
+  const [presence, setPresence] = useState<Record<string, Presence[]>>({});
+  const [teammates, setTeammates] = useState<Record<string, Teammate[]>>({});
+  const presenceSentAt = useRef<Record<string, number>>({});
+  const [vacation, setVacation] = useState<VacationSettings | null>(null);
+  const [savingVacation, setSavingVacation] = useState(false);
+  const [queuedSends, setQueuedSends] = useState<QueuedSendSummary[]>([]);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const lastQueueSync = useRef(0);
+  const inboxEventHandler = useRef<(event: InboxStreamEvent) => void>(() => {});
+  const [triageMode, setTriageMode] = useState(false);
+  const [inboxOrder, setInboxOrder] = useState<InboxOrder>('newest');
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const triageKeyHandler = useRef<(event: KeyboardEvent) => void>(() => {});
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   const isAuthenticated = status === 'authenticated' && authConfigured;
   const sessionError = session?.error;
+  const myName = session?.user?.name ?? null;
+  const myEmail = session?.user?.email?.toLowerCase() ?? null;
+
+  // Queued replies stay in `messages` (hidden) so an undo brings back the card and its draft.
+  // Sorting here keeps triage navigation in the order the cards are shown.
+  const visibleMessages = useMemo(() => {
+    const queued = new Set(queuedSends.filter(isPending).map((item) => item.messageId));
+    const visible = messages.filter((message) => !queued.has(message.id));
+    if (inboxOrder === 'priority') return visible.sort(highestPriorityFirst);
+    if (inboxOrder === 'category') return visible.sort(byCategory);
+    return visible;
+  }, [inboxOrder, messages, queuedSends]);
+
+  // The triage cursor falls back to the first card when its message goes away.
+  const activeId = triageMode
+    ? visibleMessages.some((message) => message.id === focusedId)
+      ? focusedId
+      : visibleMessages[0]?.id ?? null
+    : null;
+
+  const scopeAccounts = useMemo(() => accountsInScope(accountScope, accounts), [accountScope, accounts]);
+  const hasMore = Object.values(pageTokens).some(Boolean);
 
   const canSend = useMemo(
     () => Object.values(replyDrafts).some((value) => value.trim().length > 0),
     [replyDrafts],
   );
 
+  // Keeps in-progress edits, then falls back to the saved Gmail draft for the
+  // thread, then to the default template.
+  const restoreDrafts = useCallback((loaded: GmailMessage[], library: TemplateLibrary) => {
+    const restored: Record<string, DraftStatus> = {};
+
+    for (const message of loaded) {
+      const saved = message.threadId ? savedDraftsByThread.current.get(message.threadId) : undefined;
+      if (saved && !draftSaves.current[message.id]) {
+        draftSaves.current[message.id] = Promise.resolve(saved.id);
+        restored[message.id] = 'saved';
+      }
+    }
+
+    for (const message of loaded) {
+      if (draftOrigins.current[message.id]) continue;
+      const saved = message.threadId ? savedDraftsByThread.current.get(message.threadId) : undefined;
+      const template = library.templates[0];
+      draftOrigins.current[message.id] = saved
+        ? { origin: 'saved-draft', original: saved.body }
+        : template
+          ? {
+              origin: 'template',
+              templateId: template.id,
+              templateName: template.label,
+              original: applyTemplate(message, template, library, myName, detectedLocale(message)),
+            }
+          : { origin: 'manual', original: '' };
+    }
+
+    setDraftStatus((prev) => ({ ...restored, ...prev }));
+    setReplyDrafts((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        loaded.map((message) => {
+          const fallback = defaultReply(message, library, myName, detectedLocale(message));
+          const current = prev[message.id];
+          const saved = message.threadId ? savedDraftsByThread.current.get(message.threadId) : undefined;
+          return [message.id, current && current !== fallback ? current : saved?.body ?? fallback];
+        }),
+      ),
+    }));
+  }, [myName]);
+
+  // Credentials that can't be refreshed need a consent round-trip, not an error banner.
+  const reportError = useCallback((cause: unknown, fallback: string) => {
+    console.error(cause);
+    if (cause instanceof ReauthRequiredError) {
+      reconnectGoogle(cause.account);
+      return;
+    }
+    setError(cause instanceof Error ? cause.message : fallback);
+  }, []);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const library = await fetchTemplateLibrary();
+      setTemplateLibrary(library);
+      return library;
+    } catch (templateError) {
+      console.error(templateError);
+      return DEFAULT_LIBRARY;
+    }
+  }, []);
+
+  const loadSavedDrafts = useCallback(async (scope: string[]) => {
+    try {
+      const drafts = (await Promise.all(scope.map(fetchSavedDrafts))).flat();
+      savedDraftsByThread.current = new Map(
+        drafts
+          .filter((draft) => draft.threadId)
+          .map((draft) => [draft.threadId as string, draft]),
+      );
+    } catch (draftError) {
+      // Saved drafts are a convenience; the inbox still works without them.
+      console.error(draftError);
+    }
+  }, []);
+
+  const loadAliases = useCallback(async (scope: string[]) => {
+    const loaded = await Promise.allSettled(scope.map(fetchSendAs));
+    const entries = loaded.flatMap((result) => {
+      if (result.status === 'fulfilled') return [[result.value.account, result.value.aliases] as const];
+      // Without aliases the reply goes out from Gmail's default address, as before.
+      console.error(result.reason);
+      return [];
+    });
+    setAliases(Object.fromEntries(entries));
+  }, []);
+
+  const loadCollab = useCallback(async (scope: string[]) => {
+    const loaded = await Promise.allSettled(scope.map(fetchCollab));
+    const nextAssignments: Record<string, Assignment> = {};
+    const nextPresence: Record<string, Presence[]> = {};
+    const nextTeammates: Record<string, Teammate[]> = {};
+
+    for (const result of loaded) {
+      if (result.status !== 'fulfilled') {
+        // Without it the inbox works as a single-user one.
+        console.error(result.reason);
+        continue;
+      }
+      const { account } = result.value;
+      nextTeammates[account] = result.value.teammates;
+      for (const assignment of result.value.assignments) {
+        nextAssignments[threadKey(account, assignment.threadId)] = assignment;
+      }
+      for (const entry of result.value.presence) {
+        const key = threadKey(account, entry.threadId);
+        nextPresence[key] = [...(nextPresence[key] ?? []), entry];
+      }
+    }
+
+    setAssignments(nextAssignments);
+    setPresence(nextPresence);
+    setTeammates(nextTeammates);
+  }, []);
+
+  // Also reports the outcome of a link flow, which returns here with ?linked= or ?linkError=.
+  const loadAccounts = useCallback(async () => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get('linked');
+    const linkError = params.get('linkError');
+    if (linked || linkError) {
+      window.history.replaceState(null, '', window.location.pathname);
+      if (linked) setSuccess(`Linked ${linked}`);
+      if (linkError) setError(linkError);
+    }
+
+    try {
+      const loaded = await fetchAccounts();
+      setAccounts(loaded);
+      return loaded;
+    } catch (accountsError) {
+      console.error(accountsError);
+      return [];
+    }
+  }, []);
+
+  const loadReminders = useCallback(async () => {
+    try {
+      setReminders(await fetchReminders());
+    } catch (remindersError) {
+      console.error(remindersError);
+    }
+  }, []);
+
+  // Everything here is optional for the inbox to work, so failures are only logged.
+  const loadSendPreferences = useCallback(async () => {
+    const [queue, loadedSettings, loadedLabels, loadedVacation] = await Promise.allSettled([
+      fetchSendQueue(),
+      fetchSettings(),
+      fetchLabels(),
+      fetchVacation(),
+    ]);
+    if (queue.status === 'fulfilled') {
+      setQueuedSends(queue.value.filter(isPending));
+    } else {
+      console.error(queue.reason);
+    }
+    if (loadedSettings.status === 'fulfilled') {
+      setSettings(loadedSettings.value);
+    } else {
+      console.error(loadedSettings.reason);
+    }
+    if (loadedLabels.status === 'fulfilled') {
+      setLabels(loadedLabels.value);
+    } else {
+      console.error(loadedLabels.reason);
+    }
+    if (loadedVacation.status === 'fulfilled') {
+      setVacation(loadedVacation.value);
+    } else {
+      console.error(loadedVacation.reason);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timers = draftTimers.current;
+    return () => {
+      Object.values(timers).forEach(clearTimeout);
+    };
+  }, []);
+
   useEffect(() => {
     if (!authConfigured || !isAuthenticated) {
       setMessages([]);
@@ -99,23 +728,25 @@ export default function InboxAssistant() {
       try {
         setLoadingMessages(true);
         setError(null);
-        const response = await fetch('/api/gmail/list');
-        const payload = (await response.json()) as MessagesResponse;
-        if (!response.ok) {
-          throw new Error(payload.error ?? 'Failed to load messages');
-        }
+        const [loadedAccounts] = await Promise.all([loadAccounts(), loadReminders()]);
+        const scope = accountsInScope(accountScope, loadedAccounts);
+        const [inbox, library] = await Promise.all([
+          fetchInbox(activeSearch, scope),
+          loadTemplates(),
+          loadSavedDrafts(scope),
+          loadSendPreferences(),
+          loadAliases(scope),
+          loadCollab(scope),
+        ]);
         if (!cancelled) {
-          setMessages(payload.messages);
-          setReplyDrafts(
-            Object.fromEntries(
-              payload.messages.map((message) => [message.id, defaultReply(message)]),
-            ),
-          );
+          setMessages(inbox.messages);
+          setPageTokens(inbox.pageTokens);
+          setResultSizeEstimate(inbox.resultSizeEstimate);
+          restoreDrafts(inbox.messages, library);
         }
       } catch (fetchError) {
         if (cancelled) return;
-        console.error(fetchError);
-        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load messages');
+        reportError(fetchError, 'Failed to load messages');
       } finally {
         if (!cancelled) {
           setLoadingMessages(false);
@@ -128,7 +759,86 @@ export default function InboxAssistant() {
     return () => {
       cancelled = true;
     };
-  }, [authConfigured, isAuthenticated]);
+  }, [
+    authConfigured,
+    isAuthenticated,
+    activeSearch,
+    accountScope,
+    loadAccounts,
+    loadAliases,
+    loadCollab,
+    loadReminders,
+    loadSendPreferences,
+    loadSavedDrafts,
+    loadTemplates,
+    reportError,
+    restoreDrafts,
+  ]);
+
+  // Reconciles local queue state with the server once items come due: sent
+  // replies leave the inbox, failed ones reappear with an error.
+  const syncQueue = useCallback(async () => {
+    lastQueueSync.current = Date.now();
+    try {
+      await fetch('/api/send-queue/process', { method: 'POST' });
+      const queue = await fetchSendQueue();
+      const byId = new Map(queue.map((item) => [item.id, item]));
+      const sent = queuedSends.filter((item) => byId.get(item.id)?.status === 'sent');
+      const failed = queuedSends
+        .map((item) => byId.get(item.id))
+        .filter((item): item is QueuedSendSummary => item?.status === 'failed');
+
+      if (sent.length) {
+        const sentIds = new Set(sent.map((item) => item.messageId));
+        sent.forEach((item) => delete draftSaves.current[item.messageId]);
+        setMessages((prev) => prev.filter((message) => !sentIds.has(message.id)));
+        const warned = sent.map((item) => byId.get(item.id)?.warning).find(Boolean);
+        setSuccess(
+          warned ?? (sent.length === 1 ? `Reply sent to ${sent[0].to ?? 'recipient'}` : `${sent.length} replies sent`),
+        );
+      }
+      if (failed.length) {
+        setError(`Failed to send reply to ${failed[0].to ?? 'recipient'}: ${failed[0].error ?? 'unknown error'}`);
+      }
+      setQueuedSends((prev) =>
+        prev.flatMap((item) => {
+          const latest = byId.get(item.id);
+          return latest && isPending(latest) ? [latest] : [];
+        }),
+      );
+    } catch (syncError) {
+      console.error(syncError);
+    }
+  }, [queuedSends]);
+
+  useEffect(() => {
+    if (!queuedSends.length) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [queuedSends.length]);
+
+  useEffect(() => {
+    const due = queuedSends.some((item) => new Date(item.sendAt).getTime() + QUEUE_SYNC_GRACE_MS <= now);
+    if (!due || now - lastQueueSync.current < QUEUE_SYNC_INTERVAL_MS) return;
+    syncQueue();
+  }, [now, queuedSends, syncQueue]);
+
+  useEffect(() => {
+    if (!reminders.length) return;
+    const interval = setInterval(loadReminders, REMINDER_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [reminders.length, loadReminders]);
+
+  // Teammates who close the tab never clear their presence, so it ages out here.
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const at = Date.now();
+      setPresence((prev) =>
+        Object.fromEntries(Object.entries(prev).map(([key, entries]) => [key, entries.filter((entry) => isFresh(entry, at))])),
+      );
+    }, PRESENCE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
 
   useEffect(() => {
     if (!success) return;
@@ -141,85 +851,849 @@ export default function InboxAssistant() {
     setLoadingMessages(true);
     setError(null);
     try {
-      const response = await fetch('/api/gmail/list');
-      const payload = (await response.json()) as MessagesResponse;
-      if (!response.ok) {
-        throw new Error(payload.error ?? 'Failed to load messages');
-      }
-      setMessages(payload.messages);
-      setReplyDrafts(
-        Object.fromEntries(
-          payload.messages.map((message) => [message.id, defaultReply(message)]),
-        ),
-      );
+      const [inbox] = await Promise.all([fetchInbox(activeSearch, scopeAccounts), loadSavedDrafts(scopeAccounts)]);
+      setMessages(inbox.messages);
+      setPageTokens(inbox.pageTokens);
+      setResultSizeEstimate(inbox.resultSizeEstimate);
+      restoreDrafts(inbox.messages, templateLibrary);
     } catch (refreshError) {
-      console.error(refreshError);
-      setError(refreshError instanceof Error ? refreshError.message : 'Failed to refresh');
+      reportError(refreshError, 'Failed to refresh');
     } finally {
       setLoadingMessages(false);
     }
   };
 
+  // Cards with a reply being written (or sent) stay put when Gmail says the
+  // message left the unread inbox, so the draft isn't lost mid-edit.
+  const dropMessage = (id: string) => {
+    if (id in draftSaves.current || sendingId === id) return;
+    if (!messages.some((message) => message.id === id)) return;
+    setMessages((prev) => prev.filter((message) => message.id !== id));
+    setResultSizeEstimate((prev) => Math.max(prev - 1, 0));
+  };
+
+  const applyAssignment = (key: string, assignment: Assignment | null) => {
+    setAssignments((prev) => {
+      const next = { ...prev };
+      if (assignment) next[key] = assignment;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const applyInboxEvent = (event: InboxStreamEvent) => {
+    switch (event.type) {
+      case 'assignment':
+        applyAssignment(threadKey(event.account, event.threadId), event.assignment);
+        return;
+      case 'presence':
+        setPresence((prev) => ({ ...prev, [threadKey(event.account, event.threadId)]: event.presence }));
+        return;
+      case 'error':
+        if (event.code === REAUTH_REQUIRED) reconnectGoogle();
+        if (event.code === RELINK_REQUIRED) reconnectGoogle(event.account);
+        return;
+      case 'reset':
+        handleRefresh();
+        return;
+      case 'removed':
+        dropMessage(event.id);
+        return;
+    }
+
+    const { message } = event;
+    if (!message.labelIds.includes('INBOX') || !message.labelIds.includes('UNREAD')) {
+      dropMessage(message.id);
+      return;
+    }
+    // Only Gmail can tell whether a new arrival matches a search; it shows up once the search is cleared.
+    if (activeSearch || messages.some((item) => item.id === message.id)) return;
+
+    setMessages((prev) =>
+      prev.some((item) => item.id === message.id)
+        ? prev
+        : [message, ...prev].sort(newestFirst),
+    );
+    setResultSizeEstimate((prev) => prev + 1);
+    restoreDrafts([message], templateLibrary);
+  };
+
+  useEffect(() => {
+    inboxEventHandler.current = applyInboxEvent;
+  });
+
+  // One stream covers every inbox in scope; EventSource reconnects by itself when it ends.
+  useEffect(() => {
+    if (!authConfigured || !isAuthenticated) return;
+
+    const params = new URLSearchParams();
+    scopeAccounts.filter(Boolean).forEach((account) => params.append('account', account));
+    const source = new EventSource(`/api/gmail/events?${params.toString()}`);
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as InboxStreamEvent;
+      if (event.type === 'error') source.close();
+      inboxEventHandler.current(event);
+    };
+
+    return () => source.close();
+  }, [authConfigured, isAuthenticated, scopeAccounts]);
+
+  const handleLoadMore = useCallback(async () => {
+    if (!isAuthenticated || !hasMore || loadingMore) return;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const inbox = await fetchInbox(activeSearch, scopeAccounts, pageTokens);
+      setMessages((prev) => {
+        const known = new Set(prev.map((message) => message.id));
+        return [...prev, ...inbox.messages.filter((message) => !known.has(message.id))].sort(newestFirst);
+      });
+      restoreDrafts(inbox.messages, templateLibrary);
+      setPageTokens((prev) => ({ ...prev, ...inbox.pageTokens }));
+      // Exhausted inboxes weren't asked again, so only a full round has a complete estimate.
+      if (Object.keys(inbox.pageTokens).length === scopeAccounts.length) {
+        setResultSizeEstimate(inbox.resultSizeEstimate);
+      }
+    } catch (loadError) {
+      reportError(loadError, 'Failed to load more messages');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [
+    activeSearch,
+    hasMore,
+    isAuthenticated,
+    loadingMore,
+    pageTokens,
+    reportError,
+    restoreDrafts,
+    scopeAccounts,
+    templateLibrary,
+  ]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        handleLoadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [handleLoadMore, hasMore]);
+
+  const handleSearch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setActiveSearch(searchInput.trim());
+  };
+
+  // Saves are chained per message so a slow create can't race a later update
+  // into a duplicate draft; each link resolves to the current draft id.
+  const saveDraft = (message: GmailMessage, body: string, options: ReplyOptions) => {
+    const previous = draftSaves.current[message.id] ?? Promise.resolve(null);
+    const next = previous.then(async (draftId) => {
+      setDraftStatus((prev) => ({ ...prev, [message.id]: 'saving' }));
+      try {
+        const response = await fetch(withAccount('/api/gmail/drafts', message.account), {
+          method: draftId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ draftId, ...replyRequest(message, body, options) }),
+        });
+        const payload = (await response.json()) as { draft?: { id: string | null }; error?: string };
+        if (!response.ok || !payload.draft?.id) {
+          throw responseError(payload, 'Failed to save draft');
+        }
+        setDraftStatus((prev) => ({ ...prev, [message.id]: 'saved' }));
+        return payload.draft.id;
+      } catch (saveError) {
+        console.error(saveError);
+        setDraftStatus((prev) => ({ ...prev, [message.id]: 'error' }));
+        return draftId;
+      }
+    });
+
+    draftSaves.current[message.id] = next;
+    return next;
+  };
+
+  const scheduleDraftSave = (message: GmailMessage, body: string, options?: ReplyOptions) => {
+    clearTimeout(draftTimers.current[message.id]);
+    draftTimers.current[message.id] = setTimeout(() => {
+      delete draftTimers.current[message.id];
+      saveDraft(message, body, options ?? replyOptions[message.id] ?? DEFAULT_REPLY_OPTIONS);
+    }, DRAFT_AUTOSAVE_DELAY);
+  };
+
+  const localeOf = (message: GmailMessage) => languages[message.id] ?? detectedLocale(message);
+
+  // Tells teammates on the same inbox that a reply is in progress; refreshes
+  // are throttled, and a clear is only sent if something was announced.
+  const announcePresence = (message: GmailMessage, drafting: boolean) => {
+    if (!message.threadId) return;
+    const last = presenceSentAt.current[message.id];
+    if (drafting ? last && Date.now() - last < PRESENCE_REFRESH_MS : !last) return;
+
+    if (drafting) presenceSentAt.current[message.id] = Date.now();
+    else delete presenceSentAt.current[message.id];
+
+    const path = `/api/gmail/presence?threadId=${encodeURIComponent(message.threadId)}`;
+    fetch(withAccount(path, message.account), { method: drafting ? 'POST' : 'DELETE' }).catch((presenceError) => {
+      console.error(presenceError);
+    });
+  };
+
+  const updateReplyDraft = (message: GmailMessage, body: string) => {
+    setReplyDrafts((prev) => ({
+      ...prev,
+      [message.id]: body,
+    }));
+    scheduleDraftSave(message, body);
+    announcePresence(message, true);
+  };
+
+  const handleAssign = async (message: GmailMessage, assignee: string | null) => {
+    if (!message.threadId) return;
+    try {
+      const response = await fetch(withAccount('/api/gmail/assignments', message.account), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ threadId: message.threadId, assignee }),
+      });
+      const payload = (await response.json()) as { assignment?: Assignment | null; error?: string; code?: string };
+      if (!response.ok) {
+        throw responseError(payload, 'Failed to assign thread');
+      }
+      applyAssignment(threadKey(message.account, message.threadId), payload.assignment ?? null);
+    } catch (assignError) {
+      reportError(assignError, 'Failed to assign thread');
+    }
+  };
+
+  // Other unread mail from the same sender is re-scored the next time the inbox loads.
+  const handleCorrectCategory = async (message: GmailMessage, category: MessageCategory) => {
+    try {
+      const priority = await saveCategory(message, category);
+      setMessages((prev) => prev.map((item) => (item.id === message.id ? { ...item, priority } : item)));
+    } catch (saveError) {
+      reportError(saveError, 'Failed to save category');
+    }
+  };
+
+  const updateReplyOptions = (message: GmailMessage, options: ReplyOptions) => {
+    setReplyOptions((prev) => ({
+      ...prev,
+      [message.id]: options,
+    }));
+    if (replyDrafts[message.id]?.trim()) {
+      scheduleDraftSave(message, replyDrafts[message.id], options);
+    }
+  };
+
+  const handleDiscardDraft = async (message: GmailMessage) => {
+    announcePresence(message, false);
+    clearTimeout(draftTimers.current[message.id]);
+    delete draftTimers.current[message.id];
+    const draftId = await draftSaves.current[message.id];
+    delete draftSaves.current[message.id];
+
+    setReplyDrafts((prev) => ({
+      ...prev,
+      [message.id]: defaultReply(message, templateLibrary, myName, localeOf(message)),
+    }));
+    setDraftStatus((prev) => {
+      const next = { ...prev };
+      delete next[message.id];
+      return next;
+    });
+
+    if (!draftId) return;
+    try {
+      const response = await fetch(withAccount(`/api/gmail/drafts?id=${encodeURIComponent(draftId)}`, message.account), {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw responseError(payload, 'Failed to delete draft');
+      }
+    } catch (discardError) {
+      reportError(discardError, 'Failed to delete draft');
+    }
+  };
+
+  // Flushes any pending autosave so the send goes through the same Gmail draft.
+  const prepareReply = async (message: GmailMessage) => {
+    clearTimeout(draftTimers.current[message.id]);
+    delete draftTimers.current[message.id];
+    const draftId = await draftSaves.current[message.id];
+    const options = replyOptions[message.id] ?? DEFAULT_REPLY_OPTIONS;
+    const { original, ...origin } = draftOrigins.current[message.id] ?? { origin: 'manual', original: '' };
+    const analytics: ReplyAnalytics = {
+      ...origin,
+      editRatio: editRatio(original, replyDrafts[message.id]),
+      receivedAt: message.internalDate ?? null,
+    };
+
+    return {
+      ...(draftId ? { draftId } : {}),
+      ...replyRequest(message, replyDrafts[message.id], options),
+      attachments: await readAttachments(options),
+      sendAt: scheduledSendAt(options.sendAt),
+      analytics,
+    };
+  };
+
+  const clearSendError = (messageId: string) =>
+    setSendErrors((prev) => {
+      const next = { ...prev };
+      delete next[messageId];
+      return next;
+    });
+
+  // The approver's send marks the message as handled in Gmail, so the card can go now.
+  const submitForApproval = async (message: GmailMessage, reply: Awaited<ReturnType<typeof prepareReply>>) => {
+    const submit = async (allowUnsafe: boolean) => {
+      const response = await fetch(withAccount('/api/gmail/approvals', message.account), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...reply, ...(allowUnsafe ? { allowUnsafe } : {}) }),
+      });
+      return { response, payload: (await response.json()) as { error?: string; code?: string } };
+    };
+
+    let { response, payload } = await submit(false);
+    if (response.status === 409 && payload.code === UNSAFE_REPLY) {
+      if (!window.confirm(`${payload.error ?? 'This message looks automated'}.\n\nSubmit this reply anyway?`)) return;
+      ({ response, payload } = await submit(true));
+    }
+    if (!response.ok) {
+      throw responseError(payload, 'Failed to submit for approval');
+    }
+
+    delete draftSaves.current[message.id];
+    setSuccess(`Reply to ${message.fromName ?? message.fromAddress ?? 'recipient'} sent for approval`);
+    setMessages((prev) => prev.filter((item) => item.id !== message.id));
+  };
+
+  const handleSubmitForApproval = async (message: GmailMessage) => {
+    if (!replyDrafts[message.id]) return;
+
+    setSendingId(message.id);
+    setError(null);
+    clearSendError(message.id);
+
+    try {
+      await submitForApproval(message, await prepareReply(message));
+    } catch (submitError) {
+      reportError(submitError, 'Failed to submit for approval');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
   const handleSendReply = async (message: GmailMessage) => {
     if (!replyDrafts[message.id]) return;
 
     setSendingId(message.id);
     setError(null);
+    clearSendError(message.id);
 
     try {
-      const response = await fetch('/api/gmail/reply', {
+      const reply = await prepareReply(message);
+      const { remindAfterDays } = replyOptions[message.id] ?? DEFAULT_REPLY_OPTIONS;
+      const send = async (allowUnsafe: boolean) => {
+        const response = await fetch(withAccount('/api/gmail/reply', message.account), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            ...reply,
+            undoSeconds: settings.undoSeconds,
+            ...(remindAfterDays ? { remindAfterDays } : {}),
+            ...(allowUnsafe ? { allowUnsafe } : {}),
+          }),
+        });
+        return { response, payload: (await response.json()) as SendReplyResponse };
+      };
+
+      let { response, payload } = await send(false);
+      if (response.status === 409 && payload.code === UNSAFE_REPLY) {
+        if (!window.confirm(`${payload.error ?? 'This message looks automated'}.\n\nSend this reply anyway?`)) return;
+        ({ response, payload } = await send(true));
+      }
+      if (response.status === 409 && payload.code === APPROVAL_REQUIRED) {
+        if (window.confirm(`${payload.error ?? 'This reply needs approval'}.\n\nSubmit it for approval instead?`)) {
+          await submitForApproval(message, reply);
+        }
+        return;
+      }
+      if (!response.ok) {
+        throw responseError(payload, 'Failed to send reply');
+      }
+      // The server clears our presence (or holds it while the reply is queued) once it takes the reply.
+      delete presenceSentAt.current[message.id];
+      if (remindAfterDays) loadReminders();
+
+      if (payload.queued) {
+        const queued = payload.queued;
+        setQueuedSends((prev) => [...prev, queued]);
+        return;
+      }
+
+      delete draftSaves.current[message.id];
+      setSuccess(payload.warning ?? `Reply sent to ${message.fromName ?? message.fromAddress ?? 'recipient'}`);
+      setMessages((prev) => prev.filter((item) => item.id !== message.id));
+    } catch (sendError) {
+      reportError(sendError, 'Failed to send reply');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const handleUndoSend = async (item: QueuedSendSummary) => {
+    try {
+      const response = await fetch(`/api/send-queue?id=${encodeURIComponent(item.id)}`, { method: 'DELETE' });
+      const payload = (await response.json()) as { error?: string };
+      if (!response.ok) {
+        throw responseError(payload, 'Failed to cancel reply');
+      }
+      setQueuedSends((prev) => prev.filter((entry) => entry.id !== item.id));
+    } catch (undoError) {
+      reportError(undoError, 'Failed to cancel reply');
+    }
+  };
+
+  const handleSettingsChange = async (changes: Partial<UserSettings>) => {
+    const previous = settings;
+    setSettings({ ...settings, ...changes });
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+      const payload = (await response.json()) as { settings?: UserSettings; error?: string };
+      if (!response.ok || !payload.settings) {
+        throw responseError(payload, 'Failed to save settings');
+      }
+      setSettings(payload.settings);
+    } catch (settingsError) {
+      console.error(settingsError);
+      setSettings(previous);
+      setError(settingsError instanceof Error ? settingsError.message : 'Failed to save settings');
+    }
+  };
+
+  const handleSaveVacation = async (changes: VacationSettings) => {
+    setSavingVacation(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/gmail/vacation', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+      const payload = (await response.json()) as { vacation?: VacationSettings; error?: string; code?: string };
+      if (!response.ok || !payload.vacation) {
+        throw responseError(payload, 'Failed to save auto-reply settings');
+      }
+      setVacation(payload.vacation);
+      setSuccess(payload.vacation.enabled ? 'Auto-reply saved' : 'Auto-reply turned off');
+    } catch (vacationError) {
+      reportError(vacationError, 'Failed to save auto-reply settings');
+    } finally {
+      setSavingVacation(false);
+    }
+  };
+
+  const handleCreateLabel = async (name: string) => {
+    try {
+      const response = await fetch('/api/gmail/labels', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+      const payload = (await response.json()) as { label?: GmailLabel; error?: string; code?: string };
+      if (!response.ok || !payload.label) {
+        throw responseError(payload, 'Failed to create label');
+      }
+      const label = payload.label;
+      setLabels((prev) => [...prev, label]);
+      return label;
+    } catch (labelError) {
+      reportError(labelError, 'Failed to create label');
+      return null;
+    }
+  };
+
+  const handleUnlinkAccount = async (account: LinkedAccount) => {
+    if (!window.confirm(`Unlink ${account.email}? Its stored Gmail access will be removed from this app.`)) return;
+    try {
+      const response = await fetch(`/api/accounts?email=${encodeURIComponent(account.email)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw responseError(payload, 'Failed to unlink account');
+      }
+      setAccounts((prev) => prev.filter((entry) => entry.email !== account.email));
+      setMessages((prev) => prev.filter((message) => message.account !== account.email));
+      if (accountScope === account.email) setAccountScope(ALL_ACCOUNTS);
+    } catch (unlinkError) {
+      reportError(unlinkError, 'Failed to unlink account');
+    }
+  };
+
+  const handleSmartDraft = async (message: GmailMessage) => {
+    setDraftingId(message.id);
+    setError(null);
+    try {
+      const draft = await fetchSmartDraft(message, languages[message.id]);
+      updateReplyDraft(message, draft.body ?? '');
+      draftOrigins.current[message.id] = {
+        origin: 'smart-draft',
+        provider: draft.provider?.id ?? null,
+        original: draft.body ?? '',
+      };
+      setDraftAuthors((prev) => ({
+        ...prev,
+        [message.id]: [
+          `Drafted by ${draft.provider?.label ?? 'smart draft'}`,
+          draft.intents?.length ? `detected ${draft.intents.join(', ')}` : null,
+          draft.fallbackReason ?? null,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      }));
+    } catch (draftError) {
+      reportError(draftError, 'Failed to generate draft');
+    } finally {
+      setDraftingId(null);
+    }
+  };
+
+  const handleTemplate = (message: GmailMessage, templateId: string, locale?: ReplyLocale) => {
+    const template = templateLibrary.templates.find((item) => item.id === templateId);
+    if (!template) return;
+    const body = applyTemplate(message, template, templateLibrary, myName, locale ?? localeOf(message));
+    updateReplyDraft(message, body);
+    draftOrigins.current[message.id] = {
+      origin: 'template',
+      templateId: template.id,
+      templateName: template.label,
+      original: body,
+    };
+    setDraftAuthors((prev) => ({ ...prev, [message.id]: `From template "${template.label}"` }));
+  };
+
+  // An untouched template reply is re-rendered in the new language; edited text is left alone.
+  const handleLanguageChange = (message: GmailMessage, value: string) => {
+    const locale = isReplyLocale(value) ? value : null;
+    setLanguages((prev) => {
+      const next = { ...prev };
+      if (locale) next[message.id] = locale;
+      else delete next[message.id];
+      return next;
+    });
+
+    const origin = draftOrigins.current[message.id];
+    if (origin?.origin === 'template' && origin.templateId && replyDrafts[message.id] === origin.original) {
+      handleTemplate(message, origin.templateId, locale ?? detectedLocale(message));
+    }
+  };
+
+  // A dry run first, so the dialog can say what will be sent, queued or skipped.
+  const handleAutoAnswerAll = async () => {
+    const targets = visibleMessages.filter((message) => replyDrafts[message.id]?.trim());
+    if (!targets.length) return;
+
+    setBulkSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/gmail/reply/batch', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          dryRun: true,
+          replies: targets.map((message) => {
+            const options = replyOptions[message.id] ?? DEFAULT_REPLY_OPTIONS;
+            return {
+              ...replyRequest(message, replyDrafts[message.id], options),
+              sendAt: scheduledSendAt(options.sendAt),
+              account: message.account,
+            };
+          }),
+          undoSeconds: settings.undoSeconds,
+        }),
+      });
+
+      const payload = (await response.json()) as BatchReplyResponse;
+      if (!response.ok || !payload.results) {
+        throw responseError(payload, 'Failed to check replies');
+      }
+
+      const results = payload.results;
+      setBulkPlan(
+        targets.map((message, index) => ({
           messageId: message.id,
-          threadId: message.threadId,
-          to: message.fromAddress ?? message.from,
           subject: message.subject,
-          body: replyDrafts[message.id],
-          messageHeaderId: message.messageIdHeader,
+          from: message.fromName ?? message.fromAddress ?? message.from ?? 'unknown sender',
+          plan: results[index]?.plan ?? null,
+          issues: results[index]?.issues ?? [],
+          error: results[index]?.error ?? null,
+        })),
+      );
+    } catch (checkError) {
+      reportError(checkError, 'Failed to check replies');
+    } finally {
+      setBulkSending(false);
+    }
+  };
+
+  const handleConfirmBulkSend = async (overrideIds: string[]) => {
+    const planned = new Set(bulkPlan?.filter((item) => item.plan).map((item) => item.messageId));
+    const overrides = new Set(overrideIds);
+    const targets = visibleMessages.filter(
+      (message) => (planned.has(message.id) || overrides.has(message.id)) && replyDrafts[message.id]?.trim(),
+    );
+    setBulkPlan(null);
+    if (!targets.length) return;
+
+    setBulkSending(true);
+    setError(null);
+    setSendErrors({});
+
+    try {
+      const response = await fetch('/api/gmail/reply/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          replies: await Promise.all(
+            targets.map(async (message) => ({
+              ...(await prepareReply(message)),
+              account: message.account,
+              ...(overrides.has(message.id) ? { allowUnsafe: true } : {}),
+            })),
+          ),
+          undoSeconds: settings.undoSeconds,
         }),
       });
 
-      if (!response.ok) {
-        const payload = (await response.json()) as { error?: string };
-        throw new Error(payload.error ?? 'Failed to send reply');
+      const payload = (await response.json()) as BatchReplyResponse;
+      if (!response.ok || !payload.results) {
+        throw responseError(payload, 'Failed to send replies');
       }
 
-      setSuccess(`Reply sent to ${message.fromName ?? message.fromAddress ?? 'recipient'}`);
-      setMessages((prev) => prev.filter((item) => item.id !== message.id));
+      const sentIds = new Set(
+        payload.results.filter((result) => result.ok && !result.queued).map((result) => result.messageId),
+      );
+      const queued = payload.results.flatMap((result) => (result.queued ? [result.queued] : []));
+      const failed = payload.results.filter((result) => !result.ok);
+
+      sentIds.forEach((messageId) => delete draftSaves.current[messageId]);
+      setMessages((prev) => prev.filter((message) => !sentIds.has(message.id)));
+      setQueuedSends((prev) => [...prev, ...queued]);
+      setSendErrors(
+        Object.fromEntries(failed.map((result) => [result.messageId, result.error ?? 'Failed to send reply'])),
+      );
+
+      if (sentIds.size || queued.length) {
+        setSuccess(
+          [sentIds.size ? `${sentIds.size} sent` : null, queued.length ? `${queued.length} queued` : null]
+            .filter(Boolean)
+            .join(', '),
+        );
+      }
+      if (failed.length) {
+        setError(`${failed.length} of ${payload.results.length} replies could not be sent. See the marked messages below.`);
+      }
     } catch (sendError) {
-      console.error(sendError);
-      setError(sendError instanceof Error ? sendError.message : 'Failed to send reply');
+      reportError(sendError, 'Failed to send replies');
     } finally {
-      setSendingId(null);
+      setBulkSending(false);
     }
   };
 
-  const handleSmartDraft = (message: GmailMessage) => {
-    setReplyDrafts((prev) => ({
-      ...prev,
-      [message.id]: smartReply(message),
-    }));
+  // Archive and trash drop the card straight away and put it back if Gmail refuses.
+  const handleRemove = async (message: GmailMessage, action: 'archive' | 'trash') => {
+    const fallback = action === 'archive' ? 'Failed to archive message' : 'Failed to move message to trash';
+    const position = visibleMessages.findIndex((item) => item.id === message.id);
+    const neighbour = visibleMessages[position + 1] ?? visibleMessages[position - 1];
+    if (activeId === message.id) setFocusedId(neighbour?.id ?? null);
+
+    setMessages((prev) => prev.filter((item) => item.id !== message.id));
+    setResultSizeEstimate((prev) => Math.max(prev - 1, 0));
+    setError(null);
+
+    try {
+      const response = await fetch(withAccount(`/api/gmail/${action}`, message.account), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids: [message.id] }),
+      });
+      const payload = (await response.json()) as {
+        results?: { ok: boolean; error?: string }[];
+        error?: string;
+        code?: string;
+      };
+      if (!response.ok) {
+        throw responseError(payload, fallback);
+      }
+      const failure = payload.results?.find((result) => !result.ok);
+      if (failure) {
+        throw new Error(failure.error ?? fallback);
+      }
+      setSuccess(action === 'archive' ? 'Archived' : 'Moved to trash');
+    } catch (removeError) {
+      setMessages((prev) => (prev.some((item) => item.id === message.id) ? prev : [...prev, message].sort(newestFirst)));
+      setResultSizeEstimate((prev) => prev + 1);
+      reportError(removeError, fallback);
+    }
   };
 
-  const handleTemplate = (message: GmailMessage, templateId: string) => {
-    const template = QUICK_REPLIES.find((item) => item.id === templateId);
-    if (!template) return;
-    setReplyDrafts((prev) => ({
-      ...prev,
-      [message.id]: template.body(message),
-    }));
+  const handleSnooze = async (message: GmailMessage, until: string) => {
+    if (!message.threadId) return;
+    const position = visibleMessages.findIndex((item) => item.id === message.id);
+    const neighbour = visibleMessages[position + 1] ?? visibleMessages[position - 1];
+    if (activeId === message.id) setFocusedId(neighbour?.id ?? null);
+
+    setMessages((prev) => prev.filter((item) => item.id !== message.id));
+    setResultSizeEstimate((prev) => Math.max(prev - 1, 0));
+    setError(null);
+
+    try {
+      const response = await fetch(withAccount('/api/gmail/snooze', message.account), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messageId: message.id,
+          threadId: message.threadId,
+          subject: message.subject,
+          contact: message.fromName ?? message.fromAddress,
+          until,
+        }),
+      });
+      const payload = (await response.json()) as { reminder?: Reminder; error?: string; code?: string };
+      if (!response.ok || !payload.reminder) {
+        throw responseError(payload, 'Failed to snooze message');
+      }
+      const reminder = payload.reminder;
+      setReminders((prev) => [...prev, reminder].sort((a, b) => a.dueAt.localeCompare(b.dueAt)));
+      setSuccess(`Snoozed until ${formatDate(reminder.dueAt)}`);
+    } catch (snoozeError) {
+      setMessages((prev) => (prev.some((item) => item.id === message.id) ? prev : [...prev, message].sort(newestFirst)));
+      setResultSizeEstimate((prev) => prev + 1);
+      reportError(snoozeError, 'Failed to snooze message');
+    }
   };
 
-  const handleAutoAnswerAll = async () => {
-    for (const message of messages) {
-      if (!replyDrafts[message.id]?.trim()) continue;
-      await handleSendReply(message);
+  // An unsnoozed message comes back through the events stream once Gmail has it in the inbox again.
+  const handleCancelReminder = async (reminder: Reminder) => {
+    try {
+      const response = await fetch(`/api/reminders?id=${encodeURIComponent(reminder.id)}`, { method: 'DELETE' });
+      const payload = (await response.json()) as { error?: string; code?: string };
+      if (!response.ok) {
+        throw responseError(payload, 'Failed to cancel reminder');
+      }
+      setReminders((prev) => prev.filter((entry) => entry.id !== reminder.id));
+    } catch (cancelError) {
+      reportError(cancelError, 'Failed to cancel reminder');
     }
   };
 
+  const focusMessage = (id: string) => {
+    setFocusedId(id);
+    requestAnimationFrame(() => {
+      document.getElementById(`message-${id}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    });
+  };
+
+  const handleTriageKey = (event: KeyboardEvent) => {
+    const action = triageActionFor(event);
+    if (!action) return;
+
+    if (action.type === 'help') {
+      event.preventDefault();
+      setShowShortcuts((prev) => !prev);
+      return;
+    }
+    if (action.type === 'dismiss') {
+      if (showShortcuts) {
+        setShowShortcuts(false);
+      } else if (document.activeElement instanceof HTMLElement) {
+        document.activeElement.blur();
+      }
+      return;
+    }
+
+    // Cmd+Enter inside a reply box sends that card's reply, wherever the cursor is.
+    const typingIn = event.target instanceof HTMLElement
+      ? event.target.closest('[data-message-id]')?.getAttribute('data-message-id')
+      : null;
+    const index = visibleMessages.findIndex((message) => message.id === (typingIn ?? activeId));
+    const message = visibleMessages[index];
+    if (!message) return;
+    event.preventDefault();
+
+    switch (action.type) {
+      case 'next':
+      case 'previous': {
+        const target = visibleMessages[Math.min(Math.max(index + (action.type === 'next' ? 1 : -1), 0), visibleMessages.length - 1)];
+        focusMessage(target.id);
+        return;
+      }
+      case 'template': {
+        const template = templateLibrary.templates[action.index];
+        if (template) handleTemplate(message, template.id);
+        return;
+      }
+      case 'smartDraft':
+        if (draftingId === null) handleSmartDraft(message);
+        return;
+      case 'send':
+        if (sendingId === null && replyDrafts[message.id]?.trim()) handleSendReply(message);
+        return;
+      case 'archive':
+      case 'trash':
+        handleRemove(message, action.type);
+        return;
+    }
+  };
+
+  useEffect(() => {
+    triageKeyHandler.current = handleTriageKey;
+  });
+
+  useEffect(() => {
+    if (!triageMode) return;
+    const onKeyDown = (event: KeyboardEvent) => triageKeyHandler.current(event);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [triageMode]);
+
   if (!authConfigured) {
     return (
       <main className="flex min-h-screen flex-col items-center justify-center gap-8 bg-gradient-to-b from-slate-900 to-slate-700 px-6 py-24 text-center text-white">
@@ -274,6 +1748,18 @@ export default function InboxAssistant() {
             </p>
           </div>
           <div className="flex flex-wrap gap-3">
+            <Link
+              href="/analytics"
+              className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400 hover:bg-white"
+            >
+              Analytics
+            </Link>
+            <Link
+              href="/approvals"
+              className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400 hover:bg-white"
+            >
+              Approvals
+            </Link>
             <button
               onClick={handleRefresh}
               className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400 hover:bg-white"
@@ -290,9 +1776,17 @@ export default function InboxAssistant() {
           </div>
         </header>
 
+        <VacationStatus
+          value={vacation}
+          onTurnOff={() => vacation && handleSaveVacation({ ...vacation, enabled: false })}
+        />
+
         {sessionError && (
           <div className="rounded-md bg-amber-100 px-4 py-3 text-sm text-amber-800">
-            Session error: {sessionError}. Please reconnect your Google account.
+            Session error: {sessionError}. Please reconnect your Google account.{' '}
+            <button onClick={() => reconnectGoogle()} className="font-semibold underline hover:text-amber-900">
+              Reconnect
+            </button>
           </div>
         )}
 
@@ -308,123 +1802,371 @@ export default function InboxAssistant() {
           </div>
         )}
 
-        <section className="rounded-2xl bg-white p-6 shadow-sm">
-          <h2 className="text-xl font-semibold">Quick reply templates</h2>
-          <p className="mt-2 text-sm text-zinc-500">
-            Apply a template to a selected message, then personalize it before sending.
-          </p>
-          <div className="mt-4 grid gap-4 sm:grid-cols-3">
-            {QUICK_REPLIES.map((template) => (
-              <article key={template.id} className="rounded-xl border border-zinc-200 p-4">
-                <h3 className="text-sm font-semibold text-zinc-700">{template.label}</h3>
-                <pre className="mt-2 whitespace-pre-wrap text-sm text-zinc-500">
-                  {template.body({
-                    id: 'preview',
-                    threadId: null,
-                    subject: 'Project update',
-                    from: 'preview@example.com',
-                    fromName: 'Alex',
-                    fromAddress: 'preview@example.com',
-                    snippet: 'Wanted to check on the status of the project.',
-                    date: new Date().toISOString(),
-                    messageIdHeader: undefined,
-                  }).trim()}
-                </pre>
-              </article>
-            ))}
-          </div>
-        </section>
+        <SendQueueBanner queue={queuedSends} now={now} onUndo={handleUndoSend} />
+
+        <SendSettings
+          settings={settings}
+          labels={labels}
+          onChange={handleSettingsChange}
+          onCreateLabel={handleCreateLabel}
+        />
+
+        {vacation && (
+          <VacationPanel
+            // Remount with fresh form state whenever Gmail's copy changes.
+            key={JSON.stringify(vacation)}
+            value={vacation}
+            library={templateLibrary}
+            myName={myName}
+            saving={savingVacation}
+            onSave={handleSaveVacation}
+          />
+        )}
+
+        <TemplateEditor
+          library={templateLibrary}
+          onChange={setTemplateLibrary}
+          messages={messages}
+          sampleMessage={PREVIEW_MESSAGE}
+          myName={myName}
+        />
+
+        <RulesPanel templates={templateLibrary.templates} />
+
+        <RemindersPanel reminders={reminders} onCancel={handleCancelReminder} />
 
         <section className="flex flex-col gap-4">
           <div className="flex flex-wrap items-center justify-between gap-3">
-            <h2 className="text-xl font-semibold">Unread emails ({messages.length})</h2>
-            <button
-              onClick={handleAutoAnswerAll}
-              disabled={!canSend || sendingId !== null || !messages.length}
+            <h2 className="text-xl font-semibold">
+              Unread emails ({visibleMessages.length}
+              {resultSizeEstimate > visibleMessages.length ? ` of ~${resultSizeEstimate}` : ''})
+            </h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                aria-label="Order"
+                value={inboxOrder}
+                onChange={(event) => setInboxOrder(event.target.value as InboxOrder)}
+                className="rounded-full border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-slate-500 focus:outline-none"
+              >
+                {INBOX_ORDERS.map((order) => (
+                  <option key={order.id} value={order.id}>
+                    {order.label}
+                  </option>
+                ))}
+              </select>
+              {triageMode && (
+                <button
+                  onClick={() => setShowShortcuts(true)}
+                  className="text-xs text-zinc-500 transition hover:text-zinc-800"
+                >
+                  j/k to move · ? for shortcuts
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setTriageMode((prev) => !prev);
+                  setShowShortcuts(false);
+                }}
+                aria-pressed={triageMode}
+                className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                  triageMode
+                    ? 'bg-slate-900 text-white hover:bg-slate-800'
+                    : 'border border-zinc-300 hover:border-zinc-400 hover:bg-white'
+                }`}
+              >
+                Triage mode
+              </button>
+              <button
+                onClick={handleAutoAnswerAll}
+              disabled={!canSend || sendingId !== null || bulkSending || !visibleMessages.length}
               className="rounded-full bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:bg-emerald-300"
             >
-              Answer all with drafts
-            </button>
+                {bulkSending ? 'Sending all…' : 'Answer all with drafts'}
+              </button>
+            </div>
           </div>
 
-          {loadingMessages && !messages.length ? (
+          <AccountSwitcher
+            accounts={accounts}
+            value={accountScope}
+            allValue={ALL_ACCOUNTS}
+            onChange={setAccountScope}
+            onUnlink={handleUnlinkAccount}
+          />
+
+          <form onSubmit={handleSearch} className="flex flex-wrap gap-2">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              placeholder="Search unread mail, e.g. from:alex@example.com has:attachment"
+              className="min-w-0 flex-1 rounded-full border border-zinc-300 bg-white px-4 py-2 text-sm text-zinc-800 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+            />
+            <button
+              type="submit"
+              disabled={loadingMessages}
+              className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400 hover:bg-white"
+            >
+              Search
+            </button>
+            {activeSearch && (
+              <button
+                type="button"
+                onClick={() => {
+                  setSearchInput('');
+                  setActiveSearch('');
+                }}
+                className="rounded-full px-3 py-2 text-sm text-zinc-500 transition hover:text-zinc-800"
+              >
+                Clear
+              </button>
+            )}
+          </form>
+
+          {loadingMessages && !visibleMessages.length ? (
             <div className="rounded-xl border border-dashed border-zinc-300 p-10 text-center text-sm text-zinc-500">
               Loading unread emails…
             </div>
           ) : null}
 
-          {!loadingMessages && !messages.length ? (
+          {!loadingMessages && !visibleMessages.length ? (
             <div className="rounded-xl border border-dashed border-zinc-300 p-10 text-center text-sm text-zinc-500">
-              No unread emails detected in your inbox.
+              {activeSearch ? `No unread emails match "${activeSearch}".` : 'No unread emails detected in your inbox.'}
             </div>
           ) : null}
 
           <div className="grid grid-cols-1 gap-6">
-            {messages.map((message) => (
-              <article key={message.id} className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
-                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
-                  <div>
-                    <h3 className="text-lg font-semibold text-zinc-900">{message.subject}</h3>
-                    <p className="text-sm text-zinc-500">
-                      From {message.fromName ?? message.fromAddress ?? 'Unknown sender'} · {formatDate(message.date)}
-                    </p>
+            {visibleMessages.map((message, index) => (
+              <Fragment key={message.id}>
+                {inboxOrder === 'category' &&
+                  (index === 0 || message.priority?.category !== visibleMessages[index - 1].priority?.category) && (
+                    <h3 className="-mb-3 text-sm font-semibold uppercase text-zinc-500">
+                      {categoryLabel(message.priority?.category ?? 'other')}
+                    </h3>
+                  )}
+                <article
+                  id={`message-${message.id}`}
+                  data-message-id={message.id}
+                  onClick={triageMode ? () => setFocusedId(message.id) : undefined}
+                  className={`rounded-2xl border bg-white p-6 shadow-sm ${
+                    activeId === message.id ? 'border-slate-900 ring-2 ring-slate-900' : 'border-zinc-200'
+                  }`}
+                >
+                  <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold text-zinc-900">{message.subject}</h3>
+                      <p className="text-sm text-zinc-500">
+                        From {message.fromName ?? message.fromAddress ?? 'Unknown sender'} · {formatDate(message.date)}
+                        {accounts.length > 1 && message.account ? ` · to ${message.account}` : ''}
+                      </p>
+                      {message.priority && (
+                        <PriorityBadge
+                          id={message.id}
+                          priority={message.priority}
+                          onCorrect={(category) => handleCorrectCategory(message, category)}
+                        />
+                      )}
+                      {message.threadId && (
+                        <AssignmentControl
+                          id={message.id}
+                          assignment={assignments[threadKey(message.account, message.threadId)] ?? null}
+                          presence={presence[threadKey(message.account, message.threadId)] ?? []}
+                          teammates={teammates[message.account ?? ''] ?? []}
+                          me={myEmail}
+                          onAssign={(assignee) => handleAssign(message, assignee)}
+                        />
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <select
+                        aria-label="Reply language"
+                        value={languages[message.id] ?? ''}
+                        onChange={(event) => handleLanguageChange(message, event.target.value)}
+                        className="rounded-full border border-zinc-300 bg-white px-3 py-1.5 text-xs font-medium text-zinc-700 focus:border-slate-500 focus:outline-none"
+                      >
+                        <option value="">Auto ({localeLabel(detectedLocale(message))})</option>
+                        {REPLY_LOCALES.map((locale) => (
+                          <option key={locale.id} value={locale.id}>
+                            {locale.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleSmartDraft(message)}
+                        disabled={draftingId === message.id}
+                        className="rounded-full border border-zinc-300 px-3 py-1.5 text-xs font-semibold transition hover:border-zinc-400 hover:bg-white disabled:cursor-wait disabled:text-zinc-400"
+                      >
+                        {draftingId === message.id ? 'Drafting…' : 'Smart draft'}
+                      </button>
+                      {message.threadId && <SnoozeMenu id={message.id} onSnooze={(until) => handleSnooze(message, until)} />}
+                      <button
+                        onClick={() => handleRemove(message, 'archive')}
+                        className="rounded-full border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 transition hover:border-zinc-400 hover:bg-white"
+                      >
+                        Archive
+                      </button>
+                      <button
+                        onClick={() => handleRemove(message, 'trash')}
+                        className="rounded-full border border-zinc-300 px-3 py-1.5 text-xs font-medium text-rose-700 transition hover:border-rose-300 hover:bg-white"
+                      >
+                        Trash
+                      </button>
+                      {templateLibrary.templates.map((template) => (
+                        <button
+                          key={template.id}
+                          onClick={() => handleTemplate(message, template.id)}
+                          className="rounded-full border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 transition hover:border-zinc-400 hover:bg-white"
+                        >
+                          {template.label}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                  <div className="flex gap-2">
+
+                  {expandedThreads[message.id] && message.threadId ? (
+                    <ThreadView threadId={message.threadId} messageId={message.id} account={message.account} />
+                  ) : (
+                    <p className="mt-4 rounded-lg bg-zinc-50 p-4 text-sm text-zinc-600">
+                      {message.snippet || 'No preview available.'}
+                    </p>
+                  )}
+                  {message.threadId && (
                     <button
-                      onClick={() => handleSmartDraft(message)}
-                      className="rounded-full border border-zinc-300 px-3 py-1.5 text-xs font-semibold transition hover:border-zinc-400 hover:bg-white"
+                      onClick={() =>
+                        setExpandedThreads((prev) => ({
+                          ...prev,
+                          [message.id]: !prev[message.id],
+                        }))
+                      }
+                      className="mt-2 text-xs font-semibold text-slate-600 transition hover:text-slate-900"
                     >
-                      Smart draft
+                      {expandedThreads[message.id] ? 'Hide conversation' : 'Read full conversation'}
                     </button>
-                    {QUICK_REPLIES.map((template) => (
+                  )}
+
+                  <div className="mt-4 flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <label className="block text-sm font-semibold text-zinc-700" htmlFor={`reply-${message.id}`}>
+                        Your reply
+                      </label>
+                      {message.fromAddress && (
+                        <button
+                          onClick={() =>
+                            setSenderPanels((prev) => ({
+                              ...prev,
+                              [message.id]: !prev[message.id],
+                            }))
+                          }
+                          aria-expanded={Boolean(senderPanels[message.id])}
+                          className="text-xs font-semibold text-slate-600 transition hover:text-slate-900"
+                        >
+                          {senderPanels[message.id] ? 'Hide sender details' : 'Sender details'}
+                        </button>
+                      )}
+                    </div>
+                    {draftStatus[message.id] && (
+                      <div className="flex items-center gap-3 text-xs text-zinc-500">
+                        <span className={draftStatus[message.id] === 'error' ? 'text-rose-600' : undefined}>
+                          {draftStatus[message.id] === 'saving'
+                            ? 'Saving draft…'
+                            : draftStatus[message.id] === 'saved'
+                              ? 'Draft saved to Gmail'
+                              : 'Could not save draft'}
+                        </span>
+                        <button
+                          onClick={() => handleDiscardDraft(message)}
+                          className="font-semibold text-zinc-600 transition hover:text-zinc-900"
+                        >
+                          Discard draft
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-2 flex flex-col gap-4 lg:flex-row">
+                    <div className="min-w-0 flex-1">
+                      <textarea
+                        id={`reply-${message.id}`}
+                        className="w-full rounded-xl border border-zinc-300 bg-white p-4 text-sm text-zinc-800 shadow-inner focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+                        rows={6}
+                        value={replyDrafts[message.id] ?? ''}
+                        onChange={(event) => updateReplyDraft(message, event.target.value)}
+                      />
+                      {draftAuthors[message.id] && (
+                        <p className="mt-1 text-xs text-zinc-400">{draftAuthors[message.id]}</p>
+                      )}
+                    </div>
+                    {senderPanels[message.id] && message.fromAddress && (
+                      <aside className="rounded-xl border border-zinc-200 bg-zinc-50 p-4 lg:w-72 lg:shrink-0">
+                        <SenderSidebar address={message.fromAddress} threadId={message.threadId} account={message.account} />
+                      </aside>
+                    )}
+                  </div>
+
+                  <ReplyOptionsPanel
+                    id={message.id}
+                    value={replyOptions[message.id] ?? DEFAULT_REPLY_OPTIONS}
+                    onChange={(value) => updateReplyOptions(message, value)}
+                    labels={labels}
+                    defaultPostSend={settings.postSend}
+                    onCreateLabel={handleCreateLabel}
+                    aliases={aliases[message.account ?? ''] ?? []}
+                    defaultFrom={defaultAlias(aliases[message.account ?? ''] ?? [], message.recipients)}
+                  />
+
+                  {sendErrors[message.id] && (
+                    <p className="mt-3 rounded-md bg-rose-50 px-3 py-2 text-xs text-rose-700">
+                      Not sent: {sendErrors[message.id]}
+                    </p>
+                  )}
+
+                  <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-xs text-zinc-500">
+                      Replies are sent as {message.account || session?.user?.email}.{' '}
+                      {describePostSend(replyOptions[message.id]?.postSend ?? settings.postSend, labels)}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
                       <button
-                        key={template.id}
-                        onClick={() => handleTemplate(message, template.id)}
-                        className="rounded-full border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 transition hover:border-zinc-400 hover:bg-white"
+                        onClick={() => handleSubmitForApproval(message)}
+                        disabled={sendingId === message.id || !replyDrafts[message.id]?.trim()}
+                        className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400 hover:bg-white disabled:cursor-not-allowed disabled:text-zinc-400"
                       >
-                        {template.label}
+                        Submit for approval
                       </button>
-                    ))}
+                      <button
+                        onClick={() => handleSendReply(message)}
+                        disabled={sendingId === message.id || !replyDrafts[message.id]?.trim()}
+                        className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-500"
+                      >
+                        {sendingId === message.id
+                          ? 'Sending…'
+                          : replyOptions[message.id]?.sendAt
+                            ? 'Schedule reply'
+                            : 'Send reply'}
+                      </button>
+                    </div>
                   </div>
-                </div>
-
-                <p className="mt-4 rounded-lg bg-zinc-50 p-4 text-sm text-zinc-600">
-                  {message.snippet || 'No preview available.'}
-                </p>
-
-                <label className="mt-4 block text-sm font-semibold text-zinc-700" htmlFor={`reply-${message.id}`}>
-                  Your reply
-                </label>
-                <textarea
-                  id={`reply-${message.id}`}
-                  className="mt-2 w-full rounded-xl border border-zinc-300 bg-white p-4 text-sm text-zinc-800 shadow-inner focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
-                  rows={6}
-                  value={replyDrafts[message.id] ?? ''}
-                  onChange={(event) =>
-                    setReplyDrafts((prev) => ({
-                      ...prev,
-                      [message.id]: event.target.value,
-                    }))
-                  }
-                />
-
-                <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
-                  <p className="text-xs text-zinc-500">
-                    Replies are sent as {session?.user?.email}. Messages are marked as read and starred after sending.
-                  </p>
-                  <button
-                    onClick={() => handleSendReply(message)}
-                    disabled={sendingId === message.id || !replyDrafts[message.id]?.trim()}
-                    className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-500"
-                  >
-                    {sendingId === message.id ? 'Sending…' : 'Send reply'}
-                  </button>
-                </div>
-              </article>
+                </article>
+              </Fragment>
             ))}
           </div>
+
+          {hasMore && (
+            <div ref={loadMoreRef} className="flex justify-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400 hover:bg-white disabled:cursor-not-allowed disabled:text-zinc-400"
+              >
+                {loadingMore ? 'Loading more…' : 'Load more'}
+              </button>
+            </div>
+          )}
         </section>
       </div>
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+      {bulkPlan && (
+        <BulkSendDialog items={bulkPlan} onConfirm={handleConfirmBulkSend} onCancel={() => setBulkPlan(null)} />
+      )}
     </main>
   );
 }
@@ -0,0 +1,54 @@
+'use client';
+
+import type { LinkedAccount } from '@/lib/accounts';
+
+type AccountSwitcherProps = {
+  accounts: LinkedAccount[];
+  value: string;
+  allValue: string;
+  onChange: (value: string) => void;
+  onUnlink: (account: LinkedAccount) => void;
+};
+
+const tabClass = (active: boolean) =>
+  `rounded-full px-3 py-1.5 text-xs font-semibold transition ${
+    active ? 'bg-slate-900 text-white' : 'border border-zinc-300 text-zinc-700 hover:border-zinc-400'
+  }`;
+
+export default function AccountSwitcher({ accounts, value, allValue, onChange, onUnlink }: AccountSwitcherProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {accounts.length > 1 && (
+        <button onClick={() => onChange(allValue)} className={tabClass(value === allValue)}>
+          All inboxes
+        </button>
+      )}
+      {accounts.map((account) => (
+        <span key={account.email} className="flex items-center gap-1">
+          <button
+            onClick={() => onChange(account.email)}
+            className={tabClass(value === account.email || (accounts.length === 1 && value === allValue))}
+            title={account.name ?? undefined}
+          >
+            {account.email}
+          </button>
+          {!account.primary && (
+            <button
+              aria-label={`Unlink ${account.email}`}
+              onClick={() => onUnlink(account)}
+              className="text-xs text-zinc-400 hover:text-zinc-700"
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      <a
+        href="/api/accounts/link"
+        className="rounded-full px-3 py-1.5 text-xs font-semibold text-slate-600 transition hover:text-slate-900"
+      >
+        + Link another Gmail account
+      </a>
+    </div>
+  );
+}
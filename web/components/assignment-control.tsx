@@ -0,0 +1,84 @@
+'use client';
+
+import { displayName, type Assignment, type Presence, type Teammate } from '@/lib/collab';
+
+type AssignmentControlProps = {
+  id: string;
+  assignment: Assignment | null;
+  presence: Presence[];
+  teammates: Teammate[];
+  /** The signed-in user, who is left out of the presence line. */
+  me: string | null;
+  onAssign: (assignee: string | null) => void;
+};
+
+export default function AssignmentControl({ id, assignment, presence, teammates, me, onAssign }: AssignmentControlProps) {
+  const others = presence.filter((entry) => entry.user !== me);
+  const drafting = others.filter((entry) => !entry.sending);
+  const sending = [...new Map(others.filter((entry) => entry.sending).map((entry) => [entry.user, entry])).values()];
+  // Assignment only means something when more than one person works the inbox.
+  const shared = teammates.length > 1;
+  if (!shared && !others.length) return null;
+
+  const mine = assignment?.assignee === me;
+  // Keeps an assignee who has since lost access visible in the list.
+  const options =
+    assignment && !teammates.some((teammate) => teammate.email === assignment.assignee)
+      ? [...teammates, { email: assignment.assignee, name: assignment.assigneeName }]
+      : teammates;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+      {shared && (
+        <>
+          {!assignment && me && (
+            <button
+              onClick={() => onAssign(me)}
+              className="rounded-full border border-zinc-300 px-2.5 py-1 font-semibold text-zinc-700 transition hover:border-zinc-400"
+            >
+              Claim
+            </button>
+          )}
+          {mine && (
+            <button
+              onClick={() => onAssign(null)}
+              className="rounded-full border border-zinc-300 px-2.5 py-1 font-semibold text-zinc-700 transition hover:border-zinc-400"
+            >
+              Release
+            </button>
+          )}
+          <label className="sr-only" htmlFor={`assignee-${id}`}>
+            Assignee
+          </label>
+          <select
+            id={`assignee-${id}`}
+            value={assignment?.assignee ?? ''}
+            onChange={(event) => onAssign(event.target.value || null)}
+            className={`rounded-full border px-2.5 py-1 font-medium focus:border-slate-500 focus:outline-none ${
+              assignment && !mine ? 'border-sky-300 bg-sky-50 text-sky-800' : 'border-zinc-300 bg-white text-zinc-700'
+            }`}
+          >
+            <option value="">Unassigned</option>
+            {options.map((teammate) => (
+              <option key={teammate.email} value={teammate.email}>
+                {teammate.email === me ? 'Assigned to me' : `Assigned to ${teammate.name ?? teammate.email}`}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+      {drafting.length > 0 && (
+        <span className="font-medium text-amber-700">
+          {drafting.map((entry) => displayName(entry.name, entry.user)).join(', ')}{' '}
+          {drafting.length > 1 ? 'are' : 'is'} drafting…
+        </span>
+      )}
+      {sending.length > 0 && (
+        <span className="font-medium text-amber-700">
+          {sending.map((entry) => displayName(entry.name, entry.user)).join(', ')}{' '}
+          {sending.length > 1 ? 'have replies' : 'has a reply'} queued to send
+        </span>
+      )}
+    </div>
+  );
+}
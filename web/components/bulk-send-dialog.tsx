@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+
+import type { SafetyIssue } from '@/lib/reply-safety';
+
+export type BulkPlanItem = {
+  messageId: string;
+  subject: string;
+  from: string;
+  /** What the batch would do; null when the reply would be skipped. */
+  plan: 'send' | 'queue' | null;
+  issues: SafetyIssue[];
+  error: string | null;
+};
+
+type BulkSendDialogProps = {
+  items: BulkPlanItem[];
+  onConfirm: (overrideIds: string[]) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Summary shown before "Answer all" runs: how many replies go out now, how
+ * many wait in the queue, and which ones the safety checks would skip and why.
+ * Flagged replies can be ticked to send anyway.
+ */
+export default function BulkSendDialog({ items, onConfirm, onCancel }: BulkSendDialogProps) {
+  const [overrides, setOverrides] = useState<string[]>([]);
+
+  const sending = items.filter((item) => item.plan === 'send').length;
+  const queueing = items.filter((item) => item.plan === 'queue').length;
+  const skipped = items.filter((item) => !item.plan);
+  const total = sending + queueing + overrides.length;
+
+  const toggle = (messageId: string, checked: boolean) =>
+    setOverrides((prev) => (checked ? [...prev, messageId] : prev.filter((id) => id !== messageId)));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+      onClick={onCancel}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="bulk-send-title"
+    >
+      <div
+        className="flex max-h-[85vh] w-full max-w-lg flex-col rounded-2xl bg-white p-6 shadow-xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h2 id="bulk-send-title" className="text-lg font-semibold">Answer {items.length} messages?</h2>
+        <ul className="mt-3 flex flex-col gap-1 text-sm text-zinc-700">
+          {sending > 0 && <li>{sending} will be sent now</li>}
+          {queueing > 0 && <li>{queueing} will be queued (undo window or scheduled send)</li>}
+          {skipped.length > 0 && <li>{skipped.length} will be skipped</li>}
+        </ul>
+
+        {skipped.length > 0 && (
+          <div className="mt-4 min-h-0 overflow-y-auto">
+            <ul className="flex flex-col gap-2 text-sm">
+              {skipped.map((item) => (
+                <li key={item.messageId} className="rounded-lg bg-amber-50 px-4 py-2">
+                  <p className="font-medium text-zinc-800">
+                    {item.subject || '(no subject)'} <span className="text-zinc-500">from {item.from}</span>
+                  </p>
+                  <p className="text-xs text-amber-800">{item.error ?? 'Would not be sent'}</p>
+                  {item.issues.length > 0 && (
+                    <label className="mt-1 flex items-center gap-2 text-xs text-zinc-600">
+                      <input
+                        type="checkbox"
+                        checked={overrides.includes(item.messageId)}
+                        onChange={(event) => toggle(item.messageId, event.target.checked)}
+                      />
+                      Send anyway
+                    </label>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(overrides)}
+            disabled={!total}
+            className="rounded-full bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:bg-emerald-300"
+          >
+            {total ? `Answer ${total}` : 'Nothing to send'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+
+import type { PostSendActions } from '@/lib/settings';
+
+export type GmailLabel = {
+  id: string;
+  name: string;
+  type: 'system' | 'user';
+};
+
+type PostSendEditorProps = {
+  id: string;
+  value: PostSendActions;
+  labels: GmailLabel[];
+  onChange: (value: PostSendActions) => void;
+  onCreateLabel?: (name: string) => Promise<GmailLabel | null>;
+};
+
+const FLAGS: { key: 'markRead' | 'star' | 'archive'; label: string }[] = [
+  { key: 'markRead', label: 'Mark read' },
+  { key: 'star', label: 'Star' },
+  { key: 'archive', label: 'Archive' },
+];
+
+const toggleClass = (active: boolean) =>
+  `rounded-full px-3 py-1 text-xs font-semibold transition ${
+    active ? 'bg-slate-900 text-white' : 'border border-zinc-300 text-zinc-700 hover:border-zinc-400'
+  }`;
+
+export function describePostSend(actions: PostSendActions, labels: GmailLabel[]) {
+  const name = (labelId: string) => `"${labels.find((label) => label.id === labelId)?.name ?? labelId}"`;
+  const steps = [
+    actions.markRead ? 'marked as read' : null,
+    actions.star ? 'starred' : null,
+    actions.moveToLabelId ? `moved to ${name(actions.moveToLabelId)}` : actions.archive ? 'archived' : null,
+    actions.addLabelIds.length ? `labelled ${actions.addLabelIds.map(name).join(', ')}` : null,
+    actions.removeLabelIds.length ? `unlabelled ${actions.removeLabelIds.map(name).join(', ')}` : null,
+  ].filter(Boolean);
+
+  return steps.length
+    ? `Messages are ${steps.join(', ')} after sending.`
+    : 'Messages are left untouched after sending.';
+}
+
+function LabelList({
+  title,
+  selected,
+  labels,
+  onChange,
+}: {
+  title: string;
+  selected: string[];
+  labels: GmailLabel[];
+  onChange: (ids: string[]) => void;
+}) {
+  const available = labels.filter((label) => !selected.includes(label.id));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold uppercase text-zinc-500">{title}</span>
+      {selected.map((labelId) => (
+        <span key={labelId} className="flex items-center gap-1 rounded-full border border-zinc-200 px-2 py-0.5 text-xs text-zinc-600">
+          {labels.find((label) => label.id === labelId)?.name ?? labelId}
+          <button
+            aria-label={`Remove ${labelId}`}
+            onClick={() => onChange(selected.filter((entry) => entry !== labelId))}
+            className="text-zinc-400 hover:text-zinc-700"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(event) => event.target.value && onChange([...selected, event.target.value])}
+          className="rounded-full border border-zinc-300 bg-white px-2 py-0.5 text-xs text-zinc-700 focus:border-slate-500 focus:outline-none"
+        >
+          <option value="">Add…</option>
+          {available.map((label) => (
+            <option key={label.id} value={label.id}>
+              {label.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default function PostSendEditor({ id, value, labels, onChange, onCreateLabel }: PostSendEditorProps) {
+  const [newLabel, setNewLabel] = useState('');
+  const [creating, setCreating] = useState(false);
+  const userLabels = labels.filter((label) => label.type === 'user');
+
+  const handleCreate = async () => {
+    if (!onCreateLabel || !newLabel.trim()) return;
+    setCreating(true);
+    try {
+      const label = await onCreateLabel(newLabel.trim());
+      if (label) {
+        onChange({ ...value, addLabelIds: [...value.addLabelIds, label.id] });
+        setNewLabel('');
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-zinc-200 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {FLAGS.map(({ key, label }) => (
+          <button key={key} onClick={() => onChange({ ...value, [key]: !value[key] })} className={toggleClass(value[key])}>
+            {label}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 text-xs font-semibold uppercase text-zinc-500" htmlFor={`move-to-${id}`}>
+          Move to
+          <select
+            id={`move-to-${id}`}
+            value={value.moveToLabelId ?? ''}
+            onChange={(event) => onChange({ ...value, moveToLabelId: event.target.value || null })}
+            className="rounded-full border border-zinc-300 bg-white px-2 py-0.5 text-xs font-normal normal-case text-zinc-700 focus:border-slate-500 focus:outline-none"
+          >
+            <option value="">Stay in inbox</option>
+            {userLabels.map((label) => (
+              <option key={label.id} value={label.id}>
+                {label.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <LabelList
+        title="Add labels"
+        selected={value.addLabelIds}
+        labels={userLabels}
+        onChange={(addLabelIds) => onChange({ ...value, addLabelIds })}
+      />
+      <LabelList
+        title="Remove labels"
+        selected={value.removeLabelIds}
+        labels={labels}
+        onChange={(removeLabelIds) => onChange({ ...value, removeLabelIds })}
+      />
+
+      {onCreateLabel && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={newLabel}
+            onChange={(event) => setNewLabel(event.target.value)}
+            placeholder="New label name"
+            className="rounded-full border border-zinc-300 px-3 py-1 text-xs text-zinc-800 focus:border-slate-500 focus:outline-none"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={creating || !newLabel.trim()}
+            className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400 disabled:cursor-not-allowed disabled:text-zinc-400"
+          >
+            {creating ? 'Creating…' : 'Create & add'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
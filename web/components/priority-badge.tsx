@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+
+import { MESSAGE_CATEGORIES, type MessageCategory, type MessagePriority } from '@/lib/priority';
+
+type PriorityBadgeProps = {
+  id: string;
+  priority: MessagePriority;
+  onCorrect: (category: MessageCategory) => void;
+};
+
+const HIGH_SCORE = 70;
+const LOW_SCORE = 30;
+
+function scoreClasses(score: number) {
+  if (score >= HIGH_SCORE) return 'bg-rose-100 text-rose-800';
+  if (score <= LOW_SCORE) return 'bg-zinc-100 text-zinc-600';
+  return 'bg-amber-100 text-amber-800';
+}
+
+/** The message's urgency score and category, with the reasons behind them and a way to correct the category. */
+export default function PriorityBadge({ id, priority, onCorrect }: PriorityBadgeProps) {
+  const [showReasons, setShowReasons] = useState(false);
+
+  return (
+    <div className="mt-2 flex flex-col gap-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={`rounded-full px-2 py-0.5 font-semibold ${scoreClasses(priority.score)}`}
+          title="Priority score, 0 to 100"
+        >
+          {priority.score}
+        </span>
+        <select
+          id={`category-${id}`}
+          aria-label="Category"
+          value={priority.category}
+          onChange={(event) => onCorrect(event.target.value as MessageCategory)}
+          className="rounded-full border border-zinc-300 bg-white px-2 py-0.5 text-xs text-zinc-700 focus:border-slate-500 focus:outline-none"
+        >
+          {MESSAGE_CATEGORIES.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.label}
+            </option>
+          ))}
+        </select>
+        {priority.learned && <span className="text-zinc-400">learned from your corrections</span>}
+        <button
+          onClick={() => setShowReasons((prev) => !prev)}
+          aria-expanded={showReasons}
+          className="text-zinc-500 underline-offset-2 transition hover:text-zinc-800 hover:underline"
+        >
+          {showReasons ? 'Hide reasons' : 'Why?'}
+        </button>
+      </div>
+      {showReasons && (
+        <ul className="flex flex-col gap-0.5 rounded-lg bg-zinc-50 px-3 py-2 text-zinc-600">
+          {priority.reasons.map((reason) => (
+            <li key={reason.label} className="flex justify-between gap-4">
+              <span>{reason.label}</span>
+              <span className={reason.weight < 0 ? 'text-emerald-700' : 'text-rose-700'}>
+                {reason.weight > 0 ? `+${reason.weight}` : reason.weight}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { SessionProvider } from 'next-auth/react';
+import { SessionProvider, signIn } from 'next-auth/react';
 import { createContext, useContext, type ReactNode } from 'react';
 import type { Session } from 'next-auth';
 
@@ -16,6 +16,20 @@ export function useAuthConfigured() {
   return useContext(AuthConfigContext);
 }
 
+/**
+ * Sends the user back through Google with the consent screen forced, which is
+ * the only way to get a fresh refresh token after the old one stops working.
+ * A linked inbox (`account`) goes through the link flow again instead, since
+ * signing in only renews the session's own account.
+ */
+export function reconnectGoogle(account?: string | null) {
+  if (account) {
+    window.location.assign(`/api/accounts/link?account=${encodeURIComponent(account)}`);
+    return;
+  }
+  return signIn('google', undefined, { prompt: 'consent' });
+}
+
 export default function Providers({ children, session, authConfigured }: ProvidersProps) {
   return (
     <AuthConfigContext.Provider value={authConfigured}>
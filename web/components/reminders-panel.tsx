@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+
+import { formatDate } from '@/lib/format';
+import type { Reminder } from '@/lib/reminders';
+
+type SnoozeMenuProps = {
+  id: string;
+  onSnooze: (until: string) => void;
+};
+
+type RemindersPanelProps = {
+  reminders: Reminder[];
+  onCancel: (reminder: Reminder) => void;
+};
+
+type SnoozePreset = 'later' | 'tomorrow' | 'next-week';
+
+const SNOOZE_PRESETS: { id: SnoozePreset; label: string }[] = [
+  { id: 'later', label: 'Later today' },
+  { id: 'tomorrow', label: 'Tomorrow morning' },
+  { id: 'next-week', label: 'Next week' },
+];
+
+const MORNING_HOUR = 8;
+const LATER_TODAY_HOURS = 3;
+
+export const FOLLOW_UP_DAY_OPTIONS = [0, 1, 2, 3, 5, 7, 14];
+
+/** Local times like Gmail's snooze menu: three hours out, 8am tomorrow, 8am next Monday. */
+export function snoozeUntil(preset: SnoozePreset, now = new Date()) {
+  const until = new Date(now);
+  if (preset === 'later') {
+    until.setHours(until.getHours() + LATER_TODAY_HOURS, 0, 0, 0);
+    return until;
+  }
+
+  const days = preset === 'tomorrow' ? 1 : ((8 - until.getDay()) % 7 || 7);
+  until.setDate(until.getDate() + days);
+  until.setHours(MORNING_HOUR, 0, 0, 0);
+  return until;
+}
+
+export function SnoozeMenu({ id, onSnooze }: SnoozeMenuProps) {
+  const [custom, setCustom] = useState(false);
+  const [customAt, setCustomAt] = useState('');
+
+  if (custom) {
+    return (
+      <span className="flex items-center gap-1 rounded-full border border-zinc-300 px-3 py-1 text-xs">
+        <input
+          aria-label="Snooze until"
+          type="datetime-local"
+          value={customAt}
+          onChange={(event) => setCustomAt(event.target.value)}
+          className="bg-transparent text-zinc-800 focus:outline-none"
+        />
+        <button
+          disabled={!customAt}
+          onClick={() => {
+            onSnooze(new Date(customAt).toISOString());
+            setCustom(false);
+            setCustomAt('');
+          }}
+          className="font-semibold text-slate-700 hover:text-slate-900 disabled:text-zinc-400"
+        >
+          Snooze
+        </button>
+        <button onClick={() => setCustom(false)} className="text-zinc-400 hover:text-zinc-700" aria-label="Cancel snooze">
+          ×
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <select
+      id={`snooze-${id}`}
+      aria-label="Snooze"
+      value=""
+      onChange={(event) => {
+        const choice = event.target.value;
+        if (choice === 'custom') setCustom(true);
+        else if (choice) onSnooze(snoozeUntil(choice as SnoozePreset).toISOString());
+      }}
+      className="rounded-full border border-zinc-300 bg-white px-3 py-1.5 text-xs font-medium text-zinc-700 focus:border-slate-500 focus:outline-none"
+    >
+      <option value="">Snooze…</option>
+      {SNOOZE_PRESETS.map((preset) => (
+        <option key={preset.id} value={preset.id}>
+          {preset.label}
+        </option>
+      ))}
+      <option value="custom">Pick a time…</option>
+    </select>
+  );
+}
+
+function ReminderList({
+  title,
+  empty,
+  reminders,
+  describe,
+  action,
+  onCancel,
+}: {
+  title: string;
+  empty: string;
+  reminders: Reminder[];
+  describe: (reminder: Reminder) => string;
+  action: string;
+  onCancel: (reminder: Reminder) => void;
+}) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zinc-700">
+        {title} ({reminders.length})
+      </h3>
+      {reminders.length ? (
+        <ul className="mt-2 divide-y divide-zinc-100">
+          {reminders.map((reminder) => (
+            <li key={reminder.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate font-medium text-zinc-800">{reminder.subject || '(no subject)'}</p>
+                <p className="truncate text-xs text-zinc-500">{describe(reminder)}</p>
+              </div>
+              <button
+                onClick={() => onCancel(reminder)}
+                className="shrink-0 rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400"
+              >
+                {action}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1 text-xs text-zinc-500">{empty}</p>
+      )}
+    </div>
+  );
+}
+
+/** The "Snoozed / Awaiting reply" view: what is hidden for now and what we're waiting on. */
+export default function RemindersPanel({ reminders, onCancel }: RemindersPanelProps) {
+  const snoozed = reminders.filter((reminder) => reminder.kind === 'snooze');
+  const awaiting = reminders.filter((reminder) => reminder.kind === 'follow-up');
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <h2 className="text-xl font-semibold">Snoozed / Awaiting reply</h2>
+      <div className="mt-4 grid gap-6 sm:grid-cols-2">
+        <ReminderList
+          title="Snoozed"
+          empty="Snooze a message to hide it until later."
+          reminders={snoozed}
+          describe={(reminder) =>
+            `${reminder.contact ? `From ${reminder.contact} · ` : ''}back ${formatDate(reminder.dueAt)}`
+          }
+          action="Unsnooze"
+          onCancel={onCancel}
+        />
+        <ReminderList
+          title="Awaiting reply"
+          empty='Pick "Remind me" when sending to follow up on threads that go quiet.'
+          reminders={awaiting}
+          describe={(reminder) =>
+            `${reminder.contact ? `To ${reminder.contact} · ` : ''}reminder ${formatDate(reminder.dueAt)}`
+          }
+          action="Cancel"
+          onCancel={onCancel}
+        />
+      </div>
+    </section>
+  );
+}
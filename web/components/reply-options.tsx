@@ -0,0 +1,226 @@
+'use client';
+
+import PostSendEditor, { type GmailLabel } from '@/components/post-send-editor';
+import { FOLLOW_UP_DAY_OPTIONS } from '@/components/reminders-panel';
+import { describeAlias, type SendAsAlias } from '@/lib/send-as';
+import type { PostSendActions } from '@/lib/settings';
+
+export type ReplyOptions = {
+  mode: 'reply' | 'replyAll';
+  showCopies: boolean;
+  cc: string;
+  bcc: string;
+  attachments: File[];
+  /** `datetime-local` value; empty sends now (after the undo window). */
+  sendAt: string;
+  /** Per-reply post-send actions; null follows the saved defaults. */
+  postSend: PostSendActions | null;
+  /** Send-as address; empty uses the alias the message was addressed to. */
+  from: string;
+  /** Bring the thread back after this many days without an answer; 0 is off. */
+  remindAfterDays: number;
+};
+
+export const DEFAULT_REPLY_OPTIONS: ReplyOptions = {
+  mode: 'reply',
+  showCopies: false,
+  cc: '',
+  bcc: '',
+  attachments: [],
+  sendAt: '',
+  postSend: null,
+  from: '',
+  remindAfterDays: 0,
+};
+
+type ReplyOptionsPanelProps = {
+  id: string;
+  value: ReplyOptions;
+  onChange: (value: ReplyOptions) => void;
+  labels: GmailLabel[];
+  defaultPostSend: PostSendActions;
+  onCreateLabel: (name: string) => Promise<GmailLabel | null>;
+  aliases: SendAsAlias[];
+  defaultFrom: SendAsAlias | null;
+};
+
+export function splitRecipients(value: string) {
+  return value
+    .split(/[,;\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export function scheduledSendAt(value: string) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export async function readFileAsBase64(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const toggleClass = (active: boolean) =>
+  `rounded-full px-3 py-1 text-xs font-semibold transition ${
+    active ? 'bg-slate-900 text-white' : 'border border-zinc-300 text-zinc-700 hover:border-zinc-400'
+  }`;
+
+export default function ReplyOptionsPanel({
+  id,
+  value,
+  onChange,
+  labels,
+  defaultPostSend,
+  onCreateLabel,
+  aliases,
+  defaultFrom,
+}: ReplyOptionsPanelProps) {
+  return (
+    <div className="mt-3 flex flex-col gap-3 text-sm">
+      {aliases.length > 1 && (
+        <label className="flex items-center gap-2 text-xs font-semibold text-zinc-600" htmlFor={`from-${id}`}>
+          From
+          <select
+            id={`from-${id}`}
+            value={value.from || defaultFrom?.address || ''}
+            onChange={(event) =>
+              onChange({ ...value, from: event.target.value === defaultFrom?.address ? '' : event.target.value })
+            }
+            className="min-w-0 rounded-full border border-zinc-300 bg-white px-3 py-1 text-xs font-normal text-zinc-800 focus:border-slate-500 focus:outline-none"
+          >
+            {aliases.map((alias) => (
+              <option key={alias.address} value={alias.address}>
+                {describeAlias(alias)}
+                {alias.signature ? '' : ' (no signature)'}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onChange({ ...value, mode: 'reply' })} className={toggleClass(value.mode === 'reply')}>
+          Reply
+        </button>
+        <button
+          onClick={() => onChange({ ...value, mode: 'replyAll' })}
+          className={toggleClass(value.mode === 'replyAll')}
+        >
+          Reply all
+        </button>
+        <button
+          onClick={() => onChange({ ...value, showCopies: !value.showCopies })}
+          className={toggleClass(value.showCopies)}
+        >
+          Cc/Bcc
+        </button>
+        <button
+          onClick={() => onChange({ ...value, postSend: value.postSend ? null : defaultPostSend })}
+          className={toggleClass(value.postSend !== null)}
+        >
+          Custom after-send
+        </button>
+        <label className="cursor-pointer rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400">
+          Attach files
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              event.target.value = '';
+              onChange({ ...value, attachments: [...value.attachments, ...files] });
+            }}
+          />
+        </label>
+        <label className="flex items-center gap-2 rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-700" htmlFor={`send-at-${id}`}>
+          Send later
+          <input
+            id={`send-at-${id}`}
+            type="datetime-local"
+            value={value.sendAt}
+            onChange={(event) => onChange({ ...value, sendAt: event.target.value })}
+            className="bg-transparent font-normal text-zinc-800 focus:outline-none"
+          />
+        </label>
+        {value.sendAt && (
+          <button onClick={() => onChange({ ...value, sendAt: '' })} className="text-xs text-zinc-500 hover:text-zinc-800">
+            Send now instead
+          </button>
+        )}
+        <label className="flex items-center gap-2 rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-700" htmlFor={`remind-${id}`}>
+          Remind me if no reply
+          <select
+            id={`remind-${id}`}
+            value={value.remindAfterDays}
+            onChange={(event) => onChange({ ...value, remindAfterDays: Number(event.target.value) })}
+            className="bg-transparent font-normal text-zinc-800 focus:outline-none"
+          >
+            {FOLLOW_UP_DAY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days ? `in ${days} day${days === 1 ? '' : 's'}` : 'Off'}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {value.showCopies && (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {(['cc', 'bcc'] as const).map((field) => (
+            <label key={field} className="flex flex-col gap-1 text-xs font-semibold uppercase text-zinc-500" htmlFor={`${field}-${id}`}>
+              {field}
+              <input
+                id={`${field}-${id}`}
+                value={value[field]}
+                onChange={(event) => onChange({ ...value, [field]: event.target.value })}
+                placeholder="name@example.com, …"
+                className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm font-normal normal-case text-zinc-800 focus:border-slate-500 focus:outline-none"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {value.postSend && (
+        <PostSendEditor
+          id={id}
+          value={value.postSend}
+          labels={labels}
+          onChange={(postSend) => onChange({ ...value, postSend })}
+          onCreateLabel={onCreateLabel}
+        />
+      )}
+
+      {value.attachments.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {value.attachments.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center gap-2 rounded-full border border-zinc-200 px-3 py-1 text-xs text-zinc-600"
+            >
+              {file.name}
+              <button
+                aria-label={`Remove ${file.name}`}
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    attachments: value.attachments.filter((_, position) => position !== index),
+                  })
+                }
+                className="text-zinc-400 hover:text-zinc-700"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { reconnectGoogle } from '@/components/providers';
+import { ReauthRequiredError, responseError } from '@/lib/reauth';
+import type { AutoReplyRule, RuleAction, RuleCondition, RuleField, RuleOutcome } from '@/lib/rules';
+import type { ReplyTemplate } from '@/lib/templates';
+
+type RulesResponse = {
+  rules?: AutoReplyRule[];
+  rule?: AutoReplyRule;
+  error?: string;
+};
+
+type RunResponse = {
+  ranAt?: string;
+  dryRun?: boolean;
+  outcomes?: RuleOutcome[];
+  error?: string;
+  code?: string;
+};
+
+type RuleDraft = {
+  name: string;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  templateId: string;
+  labels: string;
+};
+
+const FIELD_LABELS: Record<RuleField, string> = {
+  from: 'Sender contains',
+  domain: 'Sender domain is',
+  subject: 'Subject contains',
+  body: 'Body contains',
+  label: 'Has label',
+};
+
+const ACTION_LABELS: Record<RuleAction, string> = {
+  reply: 'Reply with template',
+  label: 'Apply labels',
+  archive: 'Archive',
+  star: 'Star',
+  markRead: 'Mark read',
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  match: 'all',
+  conditions: [{ field: 'from', value: '' }],
+  actions: ['reply', 'markRead'],
+  templateId: '',
+  labels: '',
+};
+
+async function rulesRequest(init?: RequestInit, query = '') {
+  const response = await fetch(`/api/rules${query}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const payload = (await response.json()) as RulesResponse;
+  if (!response.ok) {
+    throw new Error(payload.error ?? 'Rules request failed');
+  }
+  return payload;
+}
+
+type RulesPanelProps = {
+  templates: ReplyTemplate[];
+};
+
+export default function RulesPanel({ templates }: RulesPanelProps) {
+  const [rules, setRules] = useState<AutoReplyRule[]>([]);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [outcomes, setOutcomes] = useState<RunResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    rulesRequest()
+      .then((payload) => {
+        if (!cancelled) setRules(payload.rules ?? []);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        console.error(loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load rules');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      console.error(actionError);
+      if (actionError instanceof ReauthRequiredError) {
+        reconnectGoogle(actionError.account);
+        return;
+      }
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(async () => {
+      const { rule } = await rulesRequest({
+        method: 'POST',
+        body: JSON.stringify({
+          name: draft.name,
+          match: draft.match,
+          conditions: draft.conditions,
+          actions: draft.actions,
+          templateId: draft.actions.includes('reply') ? draft.templateId || templates[0]?.id || null : null,
+          labelIds: draft.labels.split(',').map((label) => label.trim()).filter(Boolean),
+        }),
+      });
+      if (rule) setRules((prev) => [...prev, rule]);
+      setDraft(EMPTY_DRAFT);
+    });
+  };
+
+  const handleToggle = (rule: AutoReplyRule) =>
+    run(async () => {
+      const { rule: updated } = await rulesRequest({
+        method: 'PUT',
+        body: JSON.stringify({ id: rule.id, enabled: !rule.enabled }),
+      });
+      if (updated) setRules((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    });
+
+  const handleDelete = (rule: AutoReplyRule) =>
+    run(async () => {
+      await rulesRequest({ method: 'DELETE' }, `?id=${encodeURIComponent(rule.id)}`);
+      setRules((prev) => prev.filter((item) => item.id !== rule.id));
+    });
+
+  const handleRun = (dryRun: boolean) =>
+    run(async () => {
+      const response = await fetch(`/api/rules/run${dryRun ? '?dryRun=1' : ''}`, { method: 'POST' });
+      const payload = (await response.json()) as RunResponse;
+      if (!response.ok) {
+        throw responseError(payload, 'Failed to run rules');
+      }
+      setOutcomes(payload);
+    });
+
+  const updateCondition = (index: number, condition: RuleCondition) =>
+    setDraft((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((item, position) => (position === index ? condition : item)),
+    }));
+
+  const toggleAction = (action: RuleAction) =>
+    setDraft((prev) => ({
+      ...prev,
+      actions: prev.actions.includes(action)
+        ? prev.actions.filter((item) => item !== action)
+        : [...prev.actions, action],
+    }));
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Auto-responder rules</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Rules run on the server whenever the scheduler calls <code>/api/rules/run</code>, even with this page closed.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleRun(true)}
+            disabled={busy || !rules.length}
+            className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium transition hover:border-zinc-400 disabled:cursor-not-allowed disabled:text-zinc-400"
+          >
+            Dry run
+          </button>
+          <button
+            onClick={() => handleRun(false)}
+            disabled={busy || !rules.length}
+            className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-500"
+          >
+            Run now
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-4 rounded-md bg-rose-100 px-4 py-3 text-sm text-rose-700">{error}</p>}
+
+      {rules.length > 0 && (
+        <ul className="mt-4 flex flex-col gap-2">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-zinc-200 px-4 py-3 text-sm">
+              <div>
+                <p className="font-semibold text-zinc-800">{rule.name}</p>
+                <p className="text-xs text-zinc-500">
+                  {rule.conditions.map((condition) => `${FIELD_LABELS[condition.field]} "${condition.value}"`).join(rule.match === 'all' ? ' and ' : ' or ')}
+                  {' → '}
+                  {rule.actions.map((action) => ACTION_LABELS[action]).join(', ')}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleToggle(rule)}
+                  disabled={busy}
+                  className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold transition hover:border-zinc-400"
+                >
+                  {rule.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  disabled={busy}
+                  className="rounded-full px-3 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-6 flex flex-col gap-3 rounded-xl border border-dashed border-zinc-300 p-4 text-sm">
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={draft.name}
+            onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            placeholder="Rule name"
+            className="min-w-0 flex-1 rounded-lg border border-zinc-300 px-3 py-1.5"
+          />
+          <select
+            value={draft.match}
+            onChange={(event) => setDraft((prev) => ({ ...prev, match: event.target.value as RuleDraft['match'] }))}
+            className="rounded-lg border border-zinc-300 px-3 py-1.5"
+          >
+            <option value="all">Match all conditions</option>
+            <option value="any">Match any condition</option>
+          </select>
+        </div>
+
+        {draft.conditions.map((condition, index) => (
+          <div key={index} className="flex flex-wrap gap-2">
+            <select
+              value={condition.field}
+              onChange={(event) => updateCondition(index, { ...condition, field: event.target.value as RuleField })}
+              className="rounded-lg border border-zinc-300 px-3 py-1.5"
+            >
+              {(Object.keys(FIELD_LABELS) as RuleField[]).map((field) => (
+                <option key={field} value={field}>
+                  {FIELD_LABELS[field]}
+                </option>
+              ))}
+            </select>
+            <input
+              value={condition.value}
+              onChange={(event) => updateCondition(index, { ...condition, value: event.target.value })}
+              placeholder={condition.field === 'domain' ? 'example.com' : 'keyword'}
+              className="min-w-0 flex-1 rounded-lg border border-zinc-300 px-3 py-1.5"
+            />
+            {draft.conditions.length > 1 && (
+              <button
+                type="button"
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    conditions: prev.conditions.filter((_, position) => position !== index),
+                  }))
+                }
+                className="px-2 text-zinc-400 hover:text-zinc-700"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDraft((prev) => ({ ...prev, conditions: [...prev.conditions, { field: 'subject', value: '' }] }))}
+          className="self-start text-xs font-semibold text-slate-600 hover:text-slate-900"
+        >
+          + Add condition
+        </button>
+
+        <div className="flex flex-wrap gap-3">
+          {(Object.keys(ACTION_LABELS) as RuleAction[]).map((action) => (
+            <label key={action} className="flex items-center gap-1.5 text-zinc-700">
+              <input type="checkbox" checked={draft.actions.includes(action)} onChange={() => toggleAction(action)} />
+              {ACTION_LABELS[action]}
+            </label>
+          ))}
+        </div>
+
+        {draft.actions.includes('reply') && (
+          <select
+            value={draft.templateId || templates[0]?.id || ''}
+            onChange={(event) => setDraft((prev) => ({ ...prev, templateId: event.target.value }))}
+            className="self-start rounded-lg border border-zinc-300 px-3 py-1.5"
+          >
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {draft.actions.includes('label') && (
+          <input
+            value={draft.labels}
+            onChange={(event) => setDraft((prev) => ({ ...prev, labels: event.target.value }))}
+            placeholder="Label ids, comma separated (e.g. Label_12)"
+            className="rounded-lg border border-zinc-300 px-3 py-1.5"
+          />
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="self-start rounded-full bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:bg-emerald-300"
+        >
+          Add rule
+        </button>
+      </form>
+
+      {outcomes && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-zinc-700">
+            {outcomes.dryRun ? 'Dry run' : 'Run'} at {outcomes.ranAt ? new Date(outcomes.ranAt).toLocaleString() : 'unknown time'}:{' '}
+            {outcomes.outcomes?.length ? `${outcomes.outcomes.length} matching message(s)` : 'no matching messages'}
+          </h3>
+          <ul className="mt-2 flex flex-col gap-2 text-sm">
+            {outcomes.outcomes?.map((outcome) => (
+              <li key={outcome.messageId} className="rounded-lg bg-zinc-50 px-4 py-2">
+                <p className="font-medium text-zinc-800">
+                  {outcome.subject} <span className="text-zinc-500">from {outcome.from ?? 'unknown sender'}</span>
+                </p>
+                <p className="text-xs text-zinc-500">
+                  {outcome.ruleName}: {outcome.actions.map((action) => ACTION_LABELS[action]).join(', ')} · {outcome.status}
+                  {outcome.error ? ` (${outcome.error})` : ''}
+                </p>
+                {outcome.replyBlocked && (
+                  <p className="text-xs text-amber-700">Reply skipped: {outcome.replyBlocked}</p>
+                )}
+                {outcome.warning && <p className="text-xs text-amber-700">{outcome.warning}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import type { QueuedSendSummary } from '@/lib/send-queue';
+
+type SendQueueBannerProps = {
+  queue: QueuedSendSummary[];
+  now: number;
+  onUndo: (item: QueuedSendSummary) => void;
+};
+
+// Anything further out than this is shown as a scheduled time, not a countdown.
+const COUNTDOWN_LIMIT_MS = 2 * 60 * 1000;
+
+export default function SendQueueBanner({ queue, now, onUndo }: SendQueueBannerProps) {
+  if (!queue.length) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      {queue.map((item) => {
+        const remaining = new Date(item.sendAt).getTime() - now;
+        const recipient = item.to ?? 'recipient';
+
+        return (
+          <div
+            key={item.id}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-md bg-slate-900 px-4 py-3 text-sm text-white"
+          >
+            <span>
+              {item.status === 'sending' || remaining <= 0
+                ? `Sending reply to ${recipient}…`
+                : remaining <= COUNTDOWN_LIMIT_MS
+                  ? `Sending reply to ${recipient} in ${Math.ceil(remaining / 1000)}s`
+                  : `Reply to ${recipient} scheduled for ${new Date(item.sendAt).toLocaleString()}`}
+            </span>
+            {item.status === 'queued' && remaining > 0 && (
+              <button
+                onClick={() => onUndo(item)}
+                className="rounded-full bg-white px-3 py-1 text-xs font-semibold text-slate-900 transition hover:bg-slate-100"
+              >
+                {remaining <= COUNTDOWN_LIMIT_MS ? 'Undo' : 'Cancel'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import PostSendEditor, { describePostSend, type GmailLabel } from '@/components/post-send-editor';
+import { UNDO_SECONDS_OPTIONS, type UserSettings } from '@/lib/settings';
+
+type SendSettingsProps = {
+  settings: UserSettings;
+  labels: GmailLabel[];
+  onChange: (changes: Partial<UserSettings>) => void;
+  onCreateLabel: (name: string) => Promise<GmailLabel | null>;
+};
+
+export default function SendSettings({ settings, labels, onChange, onCreateLabel }: SendSettingsProps) {
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Sending</h2>
+          <p className="mt-1 text-sm text-zinc-500">{describePostSend(settings.postSend, labels)}</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-600">
+          Undo send
+          <select
+            value={settings.undoSeconds}
+            onChange={(event) => onChange({ undoSeconds: Number(event.target.value) })}
+            className="rounded-full border border-zinc-300 bg-white px-3 py-1.5 text-sm focus:border-slate-500 focus:outline-none"
+          >
+            {UNDO_SECONDS_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds ? `${seconds}s` : 'Off'}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <h3 className="mt-4 text-sm font-semibold text-zinc-700">After sending a reply</h3>
+      <p className="mb-2 text-xs text-zinc-500">Defaults for every reply; override them per reply in the composer.</p>
+      <PostSendEditor
+        id="defaults"
+        value={settings.postSend}
+        labels={labels}
+        onChange={(postSend) => onChange({ postSend })}
+        onCreateLabel={onCreateLabel}
+      />
+    </section>
+  );
+}
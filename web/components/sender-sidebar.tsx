@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { reconnectGoogle } from '@/components/providers';
+import { formatDate, formatDuration } from '@/lib/format';
+import { ReauthRequiredError, responseError } from '@/lib/reauth';
+import { isFirstContact, normalizeTags, type SenderNotes, type SenderProfile, type SenderThread } from '@/lib/sender-profile';
+
+type SenderSidebarProps = {
+  address: string;
+  threadId: string | null;
+  account?: string | null;
+};
+
+type ProfileResponse = {
+  profile?: SenderProfile;
+  error?: string;
+  code?: string;
+};
+
+function ThreadList({ title, threads }: { title: string; threads: SenderThread[] }) {
+  if (!threads.length) return null;
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase text-zinc-500">{title}</h4>
+      <ul className="mt-1 flex flex-col gap-1.5">
+        {threads.map((thread) => (
+          <li key={thread.threadId} className="text-xs">
+            <p className="truncate font-medium text-zinc-800" title={thread.subject}>
+              {thread.subject}
+            </p>
+            <p className="truncate text-zinc-500">
+              {formatDate(thread.date)}
+              {thread.snippet ? ` · ${thread.snippet}` : ''}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** Who the sender is to us: past threads, our last reply, their contact card and the team's notes. */
+export default function SenderSidebar({ address, threadId, account }: SenderSidebarProps) {
+  const [profile, setProfile] = useState<SenderProfile | null>(null);
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState('');
+  const [saved, setSaved] = useState<SenderNotes | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadProfile() {
+      try {
+        const params = new URLSearchParams({ address });
+        if (threadId) params.set('threadId', threadId);
+        if (account) params.set('account', account);
+        const response = await fetch(`/api/gmail/sender?${params.toString()}`);
+        const payload = (await response.json()) as ProfileResponse;
+        if (!response.ok || !payload.profile) {
+          throw responseError(payload, 'Failed to load sender details');
+        }
+        if (!cancelled) {
+          setProfile(payload.profile);
+          setSaved(payload.profile.notes);
+          setNotes(payload.profile.notes.notes);
+          setTags(payload.profile.notes.tags.join(', '));
+        }
+      } catch (fetchError) {
+        if (cancelled) return;
+        console.error(fetchError);
+        if (fetchError instanceof ReauthRequiredError) {
+          reconnectGoogle(fetchError.account);
+          return;
+        }
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load sender details');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadProfile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account, address, threadId]);
+
+  const dirty = saved !== null && (notes.trim() !== saved.notes || normalizeTags(tags).join(',') !== saved.tags.join(','));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const query = account ? `?account=${encodeURIComponent(account)}` : '';
+      const response = await fetch(`/api/gmail/sender${query}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ address, notes, tags: normalizeTags(tags) }),
+      });
+      const payload = (await response.json()) as { notes?: SenderNotes; error?: string; code?: string };
+      if (!response.ok || !payload.notes) {
+        throw responseError(payload, 'Failed to save notes');
+      }
+      setSaved(payload.notes);
+      setNotes(payload.notes.notes);
+      setTags(payload.notes.tags.join(', '));
+    } catch (saveError) {
+      console.error(saveError);
+      if (saveError instanceof ReauthRequiredError) {
+        reconnectGoogle(saveError.account);
+        return;
+      }
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save notes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-zinc-500">Loading sender details…</p>;
+  }
+
+  if (!profile) {
+    return <p className="rounded-lg bg-rose-50 p-3 text-xs text-rose-700">{error}</p>;
+  }
+
+  const { contact } = profile;
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <div>
+        <p className="font-semibold text-zinc-900">{contact?.name ?? profile.address}</p>
+        {contact?.name && <p className="text-xs text-zinc-500">{profile.address}</p>}
+        {(contact?.title || contact?.organization) && (
+          <p className="text-xs text-zinc-600">{[contact.title, contact.organization].filter(Boolean).join(' · ')}</p>
+        )}
+        {contact?.phone && <p className="text-xs text-zinc-600">{contact.phone}</p>}
+        <p className="mt-1 text-xs text-zinc-500">
+          {isFirstContact(profile)
+            ? 'First contact'
+            : [
+                `${profile.repliesSent} sent to them`,
+                profile.averageResponseSeconds !== null
+                  ? `usually answered in ${formatDuration(profile.averageResponseSeconds)}`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+        </p>
+      </div>
+
+      {profile.lastReply && (
+        <div>
+          <h4 className="text-xs font-semibold uppercase text-zinc-500">Last reply</h4>
+          <p className="mt-1 text-xs text-zinc-700">
+            {formatDate(profile.lastReply.date)} · {profile.lastReply.subject}
+          </p>
+          {profile.lastReply.snippet && <p className="line-clamp-2 text-xs text-zinc-500">{profile.lastReply.snippet}</p>}
+        </div>
+      )}
+
+      <ThreadList title="Earlier conversations" threads={profile.threads} />
+      <ThreadList title={`Others at ${profile.domain}`} threads={profile.domainThreads} />
+
+      <div className="flex flex-col gap-2">
+        <h4 className="text-xs font-semibold uppercase text-zinc-500">Team notes</h4>
+        <textarea
+          aria-label="Notes about this sender"
+          value={notes}
+          onChange={(event) => setNotes(event.target.value)}
+          rows={4}
+          placeholder="Only your team sees these."
+          className="rounded-lg border border-zinc-300 px-3 py-2 text-xs text-zinc-800 focus:border-slate-500 focus:outline-none"
+        />
+        <input
+          aria-label="Tags"
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="Tags, comma separated"
+          className="rounded-lg border border-zinc-300 px-3 py-1.5 text-xs text-zinc-800 focus:border-slate-500 focus:outline-none"
+        />
+        {saved?.tags.length ? (
+          <ul className="flex flex-wrap gap-1">
+            {saved.tags.map((tag) => (
+              <li key={tag} className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700">
+                {tag}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-zinc-400">
+            {saved?.updatedAt ? `Updated ${formatDate(saved.updatedAt)} by ${saved.updatedBy}` : ''}
+          </span>
+          <button
+            onClick={handleSave}
+            disabled={!dirty || saving}
+            className="rounded-full bg-slate-900 px-3 py-1 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:bg-slate-400"
+          >
+            {saving ? 'Saving…' : 'Save notes'}
+          </button>
+        </div>
+        {error && <p className="text-xs text-rose-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
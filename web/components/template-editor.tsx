@@ -0,0 +1,320 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+
+import { DEFAULT_LOCALE, REPLY_LOCALES, type ReplyLocale } from '@/lib/locale';
+import {
+  renderTemplate,
+  templateContext,
+  TEMPLATE_VARIABLES,
+  type ReplyTemplate,
+  type TemplateLibrary,
+  type TemplateRecipient,
+} from '@/lib/templates';
+
+type PreviewMessage = TemplateRecipient & { id: string };
+
+type TemplateEditorProps = {
+  library: TemplateLibrary;
+  onChange: (library: TemplateLibrary) => void;
+  messages: PreviewMessage[];
+  sampleMessage: PreviewMessage;
+  myName?: string | null;
+};
+
+type TemplateResponse = {
+  template?: ReplyTemplate;
+  signature?: string;
+  error?: string;
+};
+
+const NEW_TEMPLATE: ReplyTemplate = {
+  id: '',
+  label: '',
+  category: 'General',
+  body: 'Hi {{fromName|there}},\n\n\n\nBest,\n{{myName}}\n',
+  includeSignature: true,
+};
+
+async function templateRequest(url: string, init: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const payload = (await response.json()) as TemplateResponse;
+  if (!response.ok) {
+    throw new Error(payload.error ?? 'Template request failed');
+  }
+  return payload;
+}
+
+export default function TemplateEditor({ library, onChange, messages, sampleMessage, myName }: TemplateEditorProps) {
+  const [category, setCategory] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ReplyTemplate | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  // Which language's body is being edited; the default locale edits `body` itself.
+  const [locale, setLocale] = useState<ReplyLocale>(DEFAULT_LOCALE);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const categories = useMemo(
+    () => Array.from(new Set(library.templates.map((template) => template.category))).sort(),
+    [library.templates],
+  );
+  const visible = library.templates.filter((template) => !category || template.category === category);
+  const previewMessage = messages.find((message) => message.id === previewId) ?? messages[0] ?? sampleMessage;
+  const signatureValue = signature ?? library.signature;
+  const editingBody = editing ? (locale === DEFAULT_LOCALE ? editing.body : editing.variants?.[locale] ?? '') : '';
+
+  const setEditingBody = (body: string) => {
+    if (!editing) return;
+    setEditing(
+      locale === DEFAULT_LOCALE ? { ...editing, body } : { ...editing, variants: { ...editing.variants, [locale]: body } },
+    );
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      console.error(actionError);
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const insertVariable = (name: string) => {
+    if (!editing) return;
+    const placeholder = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? editingBody.length;
+    const end = textarea?.selectionEnd ?? editingBody.length;
+    setEditingBody(`${editingBody.slice(0, start)}${placeholder}${editingBody.slice(end)}`);
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      if (!editing) return;
+      const { id, label, category: templateCategory, body, variants, includeSignature } = editing;
+      const { template } = await templateRequest('/api/templates', {
+        method: id ? 'PUT' : 'POST',
+        body: JSON.stringify({ id: id || undefined, label, category: templateCategory, body, variants, includeSignature }),
+      });
+      if (!template) return;
+      onChange({
+        ...library,
+        templates: id
+          ? library.templates.map((item) => (item.id === id ? template : item))
+          : [...library.templates, template],
+      });
+      setEditing(template);
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!editing?.id) return;
+      await templateRequest(`/api/templates?id=${encodeURIComponent(editing.id)}`, { method: 'DELETE' });
+      onChange({ ...library, templates: library.templates.filter((item) => item.id !== editing.id) });
+      setEditing(null);
+    });
+
+  const handleSaveSignature = () =>
+    run(async () => {
+      const payload = await templateRequest('/api/templates/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ signature: signatureValue }),
+      });
+      onChange({ ...library, signature: payload.signature ?? signatureValue });
+      setSignature(null);
+    });
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Reply templates</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Templates are saved to your account. Use variables like <code>{'{{fromName}}'}</code> and preview them against a real message.
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing({ ...NEW_TEMPLATE, category: category ?? NEW_TEMPLATE.category })}
+          className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800"
+        >
+          New template
+        </button>
+      </div>
+
+      {error && <p className="mt-4 rounded-md bg-rose-100 px-4 py-3 text-sm text-rose-700">{error}</p>}
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {[null, ...categories].map((item) => (
+          <button
+            key={item ?? 'all'}
+            onClick={() => setCategory(item)}
+            className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+              category === item ? 'bg-slate-900 text-white' : 'border border-zinc-300 text-zinc-700 hover:border-zinc-400'
+            }`}
+          >
+            {item ?? 'All'}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-3">
+        {visible.map((template) => (
+          <button
+            key={template.id}
+            onClick={() => setEditing(template)}
+            className={`rounded-xl border p-4 text-left transition hover:border-zinc-400 ${
+              editing?.id === template.id ? 'border-slate-900' : 'border-zinc-200'
+            }`}
+          >
+            <h3 className="text-sm font-semibold text-zinc-700">{template.label}</h3>
+            <p className="text-xs text-zinc-400">{template.category}</p>
+            <pre className="mt-2 line-clamp-4 whitespace-pre-wrap text-sm text-zinc-500">
+              {renderTemplate(template, templateContext(previewMessage, myName), library.signature).trim()}
+            </pre>
+          </button>
+        ))}
+      </div>
+
+      {editing && (
+        <div className="mt-6 grid gap-4 rounded-xl border border-zinc-200 p-4 text-sm lg:grid-cols-2">
+          <div className="flex flex-col gap-3">
+            <div className="flex flex-wrap gap-2">
+              <input
+                value={editing.label}
+                onChange={(event) => setEditing({ ...editing, label: event.target.value })}
+                placeholder="Template name"
+                className="min-w-0 flex-1 rounded-lg border border-zinc-300 px-3 py-1.5"
+              />
+              <input
+                value={editing.category}
+                onChange={(event) => setEditing({ ...editing, category: event.target.value })}
+                placeholder="Category"
+                list="template-categories"
+                className="w-40 rounded-lg border border-zinc-300 px-3 py-1.5"
+              />
+              <datalist id="template-categories">
+                {categories.map((item) => (
+                  <option key={item} value={item} />
+                ))}
+              </datalist>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {TEMPLATE_VARIABLES.map((variable) => (
+                <button
+                  key={variable.name}
+                  title={variable.description}
+                  onClick={() => insertVariable(variable.name)}
+                  className="rounded-full bg-zinc-100 px-2.5 py-1 font-mono text-xs text-zinc-700 transition hover:bg-zinc-200"
+                >
+                  {`{{${variable.name}}}`}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5">
+              {REPLY_LOCALES.map((entry) => (
+                <button
+                  key={entry.id}
+                  onClick={() => setLocale(entry.id)}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                    locale === entry.id ? 'bg-slate-900 text-white' : 'border border-zinc-300 text-zinc-700 hover:border-zinc-400'
+                  }`}
+                >
+                  {entry.label}
+                  {entry.id === DEFAULT_LOCALE ? ' (default)' : editing.variants?.[entry.id]?.trim() ? '' : ' +'}
+                </button>
+              ))}
+            </div>
+            <textarea
+              ref={bodyRef}
+              value={editingBody}
+              onChange={(event) => setEditingBody(event.target.value)}
+              placeholder={locale === DEFAULT_LOCALE ? undefined : 'Leave empty to use the default text for this language'}
+              rows={10}
+              className="rounded-xl border border-zinc-300 p-3 font-mono text-sm text-zinc-800 focus:border-slate-500 focus:outline-none"
+            />
+            <label className="flex items-center gap-2 text-zinc-700">
+              <input
+                type="checkbox"
+                checked={editing.includeSignature}
+                onChange={(event) => setEditing({ ...editing, includeSignature: event.target.checked })}
+              />
+              Append my signature
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={busy}
+                className="rounded-full bg-emerald-600 px-4 py-2 font-semibold text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:bg-emerald-300"
+              >
+                Save template
+              </button>
+              {editing.id && (
+                <button
+                  onClick={handleDelete}
+                  disabled={busy}
+                  className="rounded-full px-4 py-2 font-semibold text-rose-600 transition hover:bg-rose-50"
+                >
+                  Delete
+                </button>
+              )}
+              <button onClick={() => setEditing(null)} className="rounded-full px-4 py-2 text-zinc-500 hover:text-zinc-800">
+                Close
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <label className="text-xs font-semibold uppercase text-zinc-500" htmlFor="template-preview-message">
+              Preview against
+            </label>
+            <select
+              id="template-preview-message"
+              value={previewMessage.id}
+              onChange={(event) => setPreviewId(event.target.value)}
+              className="rounded-lg border border-zinc-300 px-3 py-1.5"
+            >
+              {(messages.length ? messages : [sampleMessage]).map((message) => (
+                <option key={message.id} value={message.id}>
+                  {message.subject} — {message.fromName ?? message.fromAddress ?? 'Unknown sender'}
+                </option>
+              ))}
+            </select>
+            <pre className="min-h-40 whitespace-pre-wrap rounded-xl bg-zinc-50 p-4 font-sans text-sm text-zinc-700">
+              {renderTemplate(editing, templateContext(previewMessage, myName, locale), signatureValue, locale)}
+            </pre>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-col gap-2 text-sm">
+        <label className="text-sm font-semibold text-zinc-700" htmlFor="template-signature">
+          Default signature
+        </label>
+        <textarea
+          id="template-signature"
+          value={signatureValue}
+          onChange={(event) => setSignature(event.target.value)}
+          rows={3}
+          placeholder="Your name, title and contact details"
+          className="rounded-xl border border-zinc-300 p-3 text-sm text-zinc-800 focus:border-slate-500 focus:outline-none"
+        />
+        <button
+          onClick={handleSaveSignature}
+          disabled={busy || signature === null}
+          className="self-start rounded-full border border-zinc-300 px-4 py-2 font-medium transition hover:border-zinc-400 disabled:cursor-not-allowed disabled:text-zinc-400"
+        >
+          Save signature
+        </button>
+      </div>
+    </section>
+  );
+}
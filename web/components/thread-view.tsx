@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { reconnectGoogle } from '@/components/providers';
+import type { FullMessage } from '@/lib/gmail-message';
+import { formatBytes, formatDate } from '@/lib/format';
+import { ReauthRequiredError, responseError } from '@/lib/reauth';
+
+type ThreadViewProps = {
+  threadId: string;
+  messageId: string;
+  account?: string | null;
+};
+
+type ThreadResponse = {
+  thread?: {
+    id: string;
+    messages: FullMessage[];
+  };
+  error?: string;
+  code?: string;
+};
+
+function MessageBody({ message }: { message: FullMessage }) {
+  if (message.html) {
+    return (
+      <iframe
+        title={`Message body: ${message.subject}`}
+        sandbox=""
+        srcDoc={message.html}
+        className="h-96 w-full rounded-lg border border-zinc-200 bg-white"
+      />
+    );
+  }
+
+  return (
+    <pre className="whitespace-pre-wrap break-words rounded-lg bg-zinc-50 p-4 font-sans text-sm text-zinc-700">
+      {message.text?.trim() || message.snippet || 'No content available.'}
+    </pre>
+  );
+}
+
+export default function ThreadView({ threadId, messageId, account }: ThreadViewProps) {
+  const [messages, setMessages] = useState<FullMessage[]>([]);
+  const [openIds, setOpenIds] = useState<Record<string, boolean>>({ [messageId]: true });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadThread() {
+      try {
+        const params = new URLSearchParams({ threadId });
+        if (account) params.set('account', account);
+        const response = await fetch(`/api/gmail/message?${params.toString()}`);
+        const payload = (await response.json()) as ThreadResponse;
+        if (!response.ok || !payload.thread) {
+          throw responseError(payload, 'Failed to load conversation');
+        }
+        if (!cancelled) {
+          setMessages(payload.thread.messages);
+        }
+      } catch (fetchError) {
+        if (cancelled) return;
+        console.error(fetchError);
+        if (fetchError instanceof ReauthRequiredError) {
+          reconnectGoogle(fetchError.account);
+          return;
+        }
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load conversation');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadThread();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account, threadId]);
+
+  if (loading) {
+    return <p className="mt-4 text-sm text-zinc-500">Loading conversation…</p>;
+  }
+
+  if (error) {
+    return <p className="mt-4 rounded-lg bg-rose-50 p-4 text-sm text-rose-700">{error}</p>;
+  }
+
+  return (
+    <ol className="mt-4 flex flex-col gap-3">
+      {messages.map((message) => {
+        const id = message.id ?? '';
+        const open = Boolean(openIds[id]);
+
+        return (
+          <li key={id} className="rounded-xl border border-zinc-200">
+            <button
+              onClick={() => setOpenIds((prev) => ({ ...prev, [id]: !prev[id] }))}
+              className="flex w-full flex-col gap-1 px-4 py-3 text-left sm:flex-row sm:items-center sm:justify-between"
+            >
+              <span className="text-sm font-semibold text-zinc-800">
+                {message.fromName ?? message.fromAddress ?? 'Unknown sender'}
+              </span>
+              <span className="text-xs text-zinc-500">{formatDate(message.date)}</span>
+            </button>
+            {open ? (
+              <div className="flex flex-col gap-3 border-t border-zinc-100 px-4 py-3">
+                <MessageBody message={message} />
+                {message.attachments.length > 0 && (
+                  <ul className="flex flex-wrap gap-2">
+                    {message.attachments.map((attachment) => (
+                      <li
+                        key={attachment.partId ?? attachment.filename}
+                        className="rounded-full border border-zinc-200 px-3 py-1 text-xs text-zinc-600"
+                      >
+                        {attachment.filename} · {formatBytes(attachment.size)} · {attachment.mimeType}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <p className="truncate px-4 pb-3 text-xs text-zinc-500">{message.snippet}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+export type TriageAction =
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'template'; index: number }
+  | { type: 'smartDraft' }
+  | { type: 'send' }
+  | { type: 'archive' }
+  | { type: 'trash' }
+  | { type: 'help' }
+  | { type: 'dismiss' };
+
+const SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['j', 'k'], description: 'Next / previous message' },
+  { keys: ['1–9'], description: 'Fill the reply with that template' },
+  { keys: ['s'], description: 'Smart draft' },
+  { keys: ['⌘ Enter', 'Ctrl Enter'], description: 'Send the reply' },
+  { keys: ['e'], description: 'Archive' },
+  { keys: ['#'], description: 'Move to trash' },
+  { keys: ['?'], description: 'Show or hide this list' },
+  { keys: ['Esc'], description: 'Leave the reply box / close this list' },
+];
+
+function isTyping(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Maps a keydown to a triage action. Plain keys are ignored while typing in a
+ * field so replies can be written normally; send and Esc work everywhere.
+ */
+export function triageActionFor(event: KeyboardEvent): TriageAction | null {
+  if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) return { type: 'send' };
+  if (event.key === 'Escape') return { type: 'dismiss' };
+  if (event.metaKey || event.ctrlKey || event.altKey || isTyping(event.target)) return null;
+
+  switch (event.key) {
+    case 'j':
+      return { type: 'next' };
+    case 'k':
+      return { type: 'previous' };
+    case 's':
+      return { type: 'smartDraft' };
+    case 'e':
+      return { type: 'archive' };
+    case '#':
+      return { type: 'trash' };
+    case '?':
+      return { type: 'help' };
+  }
+
+  return /^[1-9]$/.test(event.key) ? { type: 'template', index: Number(event.key) - 1 } : null;
+}
+
+type ShortcutHelpProps = {
+  onClose: () => void;
+};
+
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shortcut-help-title"
+    >
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl" onClick={(event) => event.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 id="shortcut-help-title" className="text-lg font-semibold">Keyboard shortcuts</h2>
+          <button onClick={onClose} className="text-sm text-zinc-500 transition hover:text-zinc-800">
+            Close
+          </button>
+        </div>
+        <dl className="mt-4 flex flex-col gap-2 text-sm">
+          {SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4">
+              <dt className="flex gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd key={key} className="rounded border border-zinc-300 bg-zinc-50 px-1.5 py-0.5 font-mono text-xs text-zinc-700">
+                    {key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-right text-zinc-600">{shortcut.description}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+
+import { renderTemplate, templateContext, type TemplateLibrary } from '@/lib/templates';
+import { vacationState, type VacationSettings } from '@/lib/vacation';
+
+type VacationPanelProps = {
+  value: VacationSettings;
+  library: TemplateLibrary;
+  myName: string | null;
+  saving: boolean;
+  onSave: (settings: VacationSettings) => void;
+};
+
+type VacationStatusProps = {
+  value: VacationSettings | null;
+  onTurnOff: () => void;
+};
+
+const inputClass =
+  'rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-800 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200';
+
+// Gmail stores instants; the form works in whole local days like Gmail's own settings page.
+function toDateInput(iso: string | null) {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDateInput(value: string, endOfDay: boolean) {
+  if (!value) return null;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/** Header banner: shown only while the auto-reply is on or scheduled. */
+export function VacationStatus({ value, onTurnOff }: VacationStatusProps) {
+  if (!value) return null;
+  const state = vacationState(value);
+  if (state === 'off') return null;
+
+  return (
+    <div className="rounded-md bg-sky-100 px-4 py-3 text-sm text-sky-800">
+      {state === 'active'
+        ? `Out-of-office auto-reply is on${value.endTime ? ` until ${formatDay(value.endTime)}` : ''}.`
+        : `Out-of-office auto-reply starts ${value.startTime ? formatDay(value.startTime) : 'soon'}.`}{' '}
+      <button onClick={onTurnOff} className="font-semibold underline hover:text-sky-900">
+        Turn off
+      </button>
+    </div>
+  );
+}
+
+export default function VacationPanel({ value, library, myName, saving, onSave }: VacationPanelProps) {
+  const [draft, setDraft] = useState(value);
+  const [showHtml, setShowHtml] = useState(Boolean(value.html));
+
+  const update = (changes: Partial<VacationSettings>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const fillFromTemplate = (templateId: string) => {
+    const template = library.templates.find((item) => item.id === templateId);
+    if (!template) return;
+    // There's no single sender to address, so variables fall back to their defaults.
+    const context = templateContext({ fromName: null, subject: '', snippet: '', date: null }, myName);
+    update({
+      text: renderTemplate(template, context, library.signature),
+      subject: draft.subject || 'Out of office',
+    });
+  };
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Out-of-office auto-reply</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Gmail answers every incoming message with this reply while it&apos;s on.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium text-zinc-700">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(event) => update({ enabled: event.target.checked })}
+          />
+          Enabled
+        </label>
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+          First day
+          <input
+            type="date"
+            value={toDateInput(draft.startTime)}
+            onChange={(event) => update({ startTime: fromDateInput(event.target.value, false) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
+          Last day (optional)
+          <input
+            type="date"
+            value={toDateInput(draft.endTime)}
+            onChange={(event) => update({ endTime: fromDateInput(event.target.value, true) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600 sm:col-span-2">
+          Subject
+          <input
+            value={draft.subject}
+            onChange={(event) => update({ subject: event.target.value })}
+            placeholder="Out of office"
+            className={inputClass}
+          />
+        </label>
+        <div className="flex flex-col gap-1 text-xs font-medium text-zinc-600 sm:col-span-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label htmlFor="vacation-text">Message</label>
+            {library.templates.length > 0 && (
+              <select
+                value=""
+                onChange={(event) => fillFromTemplate(event.target.value)}
+                className="rounded-full border border-zinc-300 bg-white px-3 py-1 text-xs focus:border-slate-500 focus:outline-none"
+              >
+                <option value="" disabled>
+                  Fill from template…
+                </option>
+                {library.templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <textarea
+            id="vacation-text"
+            rows={5}
+            value={draft.text}
+            onChange={(event) => update({ text: event.target.value })}
+            className={inputClass}
+          />
+        </div>
+        {showHtml ? (
+          <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600 sm:col-span-2">
+            HTML version (sent to clients that display HTML)
+            <textarea
+              rows={4}
+              value={draft.html ?? ''}
+              onChange={(event) => update({ html: event.target.value || null })}
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+        ) : (
+          <button
+            onClick={() => setShowHtml(true)}
+            className="justify-self-start text-xs font-semibold text-slate-600 transition hover:text-slate-900"
+          >
+            Add an HTML version
+          </button>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-4 text-sm text-zinc-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.contactsOnly}
+              onChange={(event) => update({ contactsOnly: event.target.checked })}
+            />
+            Only reply to my contacts
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.domainOnly}
+              onChange={(event) => update({ domainOnly: event.target.checked })}
+            />
+            Only reply to people in my organisation
+          </label>
+        </div>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={saving}
+          className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-wait disabled:bg-slate-500"
+        >
+          {saving ? 'Saving…' : 'Save auto-reply'}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,86 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+import { google } from "googleapis";
+
+import type { StoredAccount } from "@/lib/accounts";
+import { GMAIL_SCOPES } from "@/lib/auth";
+
+const CALLBACK_PATH = "/api/accounts/link/callback";
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+type LinkState = {
+  owner: string;
+  nonce: string;
+  expiresAt: number;
+};
+
+function oauthClient(origin: string) {
+  return new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    `${process.env.NEXTAUTH_URL ?? origin}${CALLBACK_PATH}`,
+  );
+}
+
+function sign(value: string) {
+  return createHmac("sha256", process.env.NEXTAUTH_SECRET ?? "").update(value).digest("base64url");
+}
+
+/**
+ * Google consent URL for linking another inbox. The state is signed and
+ * bound to the owner so the callback can't be replayed into someone else's
+ * session. `account` preselects the inbox when linking it again.
+ */
+export function linkAuthorizationUrl(owner: string, origin: string, account?: string | null) {
+  const state: LinkState = {
+    owner,
+    nonce: randomBytes(12).toString("base64url"),
+    expiresAt: Date.now() + STATE_TTL_MS,
+  };
+  const encoded = Buffer.from(JSON.stringify(state)).toString("base64url");
+
+  return oauthClient(origin).generateAuthUrl({
+    access_type: "offline",
+    prompt: "consent select_account",
+    scope: GMAIL_SCOPES,
+    ...(account ? { login_hint: account } : {}),
+    state: `${encoded}.${sign(encoded)}`,
+  });
+}
+
+/** Returns the owner the state was issued to, or null if it is forged or stale. */
+export function verifyLinkState(state: string | null) {
+  const [encoded, signature] = state?.split(".") ?? [];
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")) as LinkState;
+    return parsed.expiresAt > Date.now() ? parsed.owner : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Trades the callback's code for tokens and looks up which inbox they belong to. */
+export async function exchangeLinkCode(code: string, origin: string): Promise<Omit<StoredAccount, "updatedAt">> {
+  const client = oauthClient(origin);
+  const { tokens } = await client.getToken(code);
+  client.setCredentials(tokens);
+
+  const { data } = await google.oauth2({ version: "v2", auth: client }).userinfo.get();
+  if (!data.email || !tokens.access_token) {
+    throw new Error("Google did not return an email address or access token");
+  }
+
+  return {
+    email: data.email.toLowerCase(),
+    name: data.name ?? null,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token ?? null,
+    expiresAt: tokens.expiry_date ? Math.floor(tokens.expiry_date / 1000) : null,
+  };
+}
@@ -0,0 +1,147 @@
+import type { Session } from "next-auth";
+
+import { gmailClient } from "@/lib/gmail-client";
+import { readStore, updateStore } from "@/lib/store";
+
+/**
+ * OAuth tokens kept server-side so background jobs (rules, scheduled work)
+ * can reach Gmail without a browser session.
+ */
+export type StoredAccount = {
+  email: string;
+  name: string | null;
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number | null;
+  updatedAt: string;
+  /** The tokens only came from linking the inbox; its owner never signed in here to store them. */
+  linkedOnly?: boolean;
+};
+
+type AccountStore = Record<string, StoredAccount>;
+
+const STORE = "accounts";
+
+export async function rememberAccount(session: Session) {
+  const email = session.user?.email?.toLowerCase();
+  const { accessToken } = session;
+  if (!email || !accessToken) return null;
+
+  const store = await updateStore<AccountStore>(STORE, {}, (accounts) => ({
+    ...accounts,
+    [email]: {
+      email,
+      name: session.user?.name ?? accounts[email]?.name ?? null,
+      accessToken,
+      refreshToken: session.refreshToken ?? accounts[email]?.refreshToken ?? null,
+      expiresAt: session.expiresAt ?? null,
+      updatedAt: new Date().toISOString(),
+    },
+  }));
+
+  return store[email];
+}
+
+export async function listAccounts() {
+  return Object.values(await readStore<AccountStore>(STORE, {}));
+}
+
+export async function getAccount(email: string) {
+  const accounts = await readStore<AccountStore>(STORE, {});
+  return accounts[email.toLowerCase()] ?? null;
+}
+
+export function gmailForAccount(account: StoredAccount) {
+  return gmailClient(account.accessToken, account.refreshToken ?? undefined);
+}
+
+/** An inbox the signed-in user can act as: their own, or one they linked. */
+export type LinkedAccount = {
+  email: string;
+  name: string | null;
+  primary: boolean;
+};
+
+// owner (the signed-in user's address) -> addresses of the extra inboxes they linked
+type LinkStore = Record<string, string[]>;
+
+const LINKS_STORE = "account-links";
+
+/**
+ * Stores tokens for another Google account and links it to `owner`, so the
+ * owner's session can read and send as that inbox.
+ */
+export async function linkAccount(owner: string, account: Omit<StoredAccount, "updatedAt" | "linkedOnly">) {
+  const email = account.email.toLowerCase();
+
+  await updateStore<AccountStore>(STORE, {}, (accounts) => ({
+    ...accounts,
+    [email]: {
+      ...account,
+      email,
+      refreshToken: account.refreshToken ?? accounts[email]?.refreshToken ?? null,
+      updatedAt: new Date().toISOString(),
+      linkedOnly: accounts[email] ? accounts[email].linkedOnly === true : true,
+    },
+  }));
+  await updateStore<LinkStore>(LINKS_STORE, {}, (links) => ({
+    ...links,
+    [owner]: [...new Set([...(links[owner] ?? []), email])],
+  }));
+
+  return email;
+}
+
+export async function unlinkAccount(owner: string, email: string) {
+  const address = email.toLowerCase();
+  const links = await updateStore<LinkStore>(LINKS_STORE, {}, (current) => ({
+    ...current,
+    [owner]: (current[owner] ?? []).filter((entry) => entry !== address),
+  }));
+
+  // Drop the stored tokens once no link needs them. Tokens its own owner stored by
+  // signing in stay, since their queued sends, snoozes and rules run on them.
+  const stillLinked = Object.values(links).some((entries) => entries.includes(address));
+  if (!stillLinked) {
+    await updateStore<AccountStore>(STORE, {}, (accounts) => {
+      if (!accounts[address]?.linkedOnly) return accounts;
+      const next = { ...accounts };
+      delete next[address];
+      return next;
+    });
+  }
+}
+
+export async function isLinked(owner: string, email: string) {
+  const links = await readStore<LinkStore>(LINKS_STORE, {});
+  return (links[owner] ?? []).includes(email.toLowerCase());
+}
+
+export async function listLinkedAccounts(owner: string, ownerName: string | null): Promise<LinkedAccount[]> {
+  const [links, accounts] = await Promise.all([
+    readStore<LinkStore>(LINKS_STORE, {}),
+    readStore<AccountStore>(STORE, {}),
+  ]);
+
+  return [
+    { email: owner, name: ownerName, primary: true },
+    ...(links[owner] ?? [])
+      .filter((email) => accounts[email])
+      .map((email) => ({ email, name: accounts[email].name, primary: false })),
+  ];
+}
+
+/**
+ * Everyone who works in a mailbox: its own account plus each user who linked
+ * it. Names come from stored accounts where there is one.
+ */
+export async function listMailboxUsers(email: string) {
+  const address = email.toLowerCase();
+  const [links, accounts] = await Promise.all([
+    readStore<LinkStore>(LINKS_STORE, {}),
+    readStore<AccountStore>(STORE, {}),
+  ]);
+
+  const users = [address, ...Object.keys(links).filter((owner) => links[owner].includes(address))];
+  return [...new Set(users)].map((user) => ({ email: user, name: accounts[user]?.name ?? null }));
+}
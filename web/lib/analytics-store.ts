@@ -0,0 +1,99 @@
+import { randomUUID } from "node:crypto";
+
+import type { gmail_v1 } from "googleapis";
+
+import { normalizeOrigin, senderDomain, type ReplyEvent } from "@/lib/analytics";
+import { headerValue, parseEmailAddress } from "@/lib/gmail-message";
+import { mapWithConcurrency } from "@/lib/pool";
+import type { ReplyPayload } from "@/lib/reply";
+import { readStore, updateStore } from "@/lib/store";
+
+type ReplyEventStore = Record<string, ReplyEvent[]>;
+
+const STORE = "reply-events";
+// Oldest events are dropped past this, per owner, to keep the store file small.
+const MAX_EVENTS_PER_OWNER = 10_000;
+const SENDER_CONCURRENCY = 5;
+
+function ratio(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : null;
+}
+
+function toEvent(
+  account: string,
+  reply: ReplyPayload & { messageId: string; threadId: string },
+  sender: string | null,
+  sentAt: Date,
+): ReplyEvent {
+  const analytics = reply.analytics;
+  const received = Number(analytics?.receivedAt);
+  const receivedAt = Number.isFinite(received) && received > 0 ? new Date(received) : null;
+  const origin = normalizeOrigin(analytics?.origin);
+
+  return {
+    id: randomUUID(),
+    account,
+    messageId: reply.messageId,
+    threadId: reply.threadId,
+    sender,
+    senderDomain: senderDomain(sender),
+    origin,
+    templateId: origin === "template" ? analytics?.templateId ?? null : null,
+    templateName: origin === "template" ? analytics?.templateName ?? null : null,
+    provider: origin === "smart-draft" ? analytics?.provider ?? null : null,
+    editRatio: ratio(analytics?.editRatio),
+    receivedAt: receivedAt?.toISOString() ?? null,
+    sentAt: sentAt.toISOString(),
+    responseSeconds: receivedAt ? Math.max(Math.round((sentAt.getTime() - receivedAt.getTime()) / 1000), 0) : null,
+  };
+}
+
+/** The answered message's sender, read from Gmail: the per-sender rate limits count it, so the page's word isn't enough. */
+async function answeredSender(gmail: gmail_v1.Gmail, messageId: string) {
+  const { data } = await gmail.users.messages.get({
+    userId: "me",
+    id: messageId,
+    format: "metadata",
+    metadataHeaders: ["From"],
+  });
+  return parseEmailAddress(headerValue(data.payload?.headers ?? [], "From")).address?.toLowerCase() ?? null;
+}
+
+/**
+ * Logs sent replies for the analytics dashboard and the reply guard's rate
+ * limits. Never throws: a reply that went out must not be reported as failed
+ * because its stats didn't save.
+ */
+export async function recordReplies(
+  gmail: gmail_v1.Gmail,
+  owner: string | null | undefined,
+  account: string | null | undefined,
+  replies: (ReplyPayload & { messageId: string; threadId: string })[],
+  sentAt = new Date(),
+) {
+  if (!owner || !replies.length) return;
+
+  try {
+    const senders = await mapWithConcurrency(replies, (reply) => answeredSender(gmail, reply.messageId), {
+      concurrency: SENDER_CONCURRENCY,
+    });
+    const events = replies.map((reply, index) => {
+      const sender = senders[index];
+      if (!sender.ok) console.error(`Failed to look up the sender of ${reply.messageId}`, sender.error);
+      return toEvent(account ?? owner, reply, sender.ok ? sender.value : null, sentAt);
+    });
+    await updateStore<ReplyEventStore>(STORE, {}, (store) => ({
+      ...store,
+      [owner]: [...(store[owner] ?? []), ...events].slice(-MAX_EVENTS_PER_OWNER),
+    }));
+  } catch (error) {
+    console.error("Failed to record reply analytics", error);
+  }
+}
+
+/** The owner's reply events sent at or after `since`, oldest first. */
+export async function listReplyEvents(owner: string, since?: Date) {
+  const store = await readStore<ReplyEventStore>(STORE, {});
+  const events = store[owner] ?? [];
+  return since ? events.filter((event) => new Date(event.sentAt).getTime() >= since.getTime()) : events;
+}
@@ -0,0 +1,143 @@
+import { toCsv } from "@/lib/csv";
+
+export type ReplyOrigin = "template" | "smart-draft" | "saved-draft" | "manual";
+
+/** What the page knows about how a reply was written, sent along with it. */
+export type ReplyAnalytics = {
+  origin: ReplyOrigin;
+  templateId?: string | null;
+  templateName?: string | null;
+  /** Smart-draft provider id, for `smart-draft` replies. */
+  provider?: string | null;
+  /** 0 when sent exactly as drafted, 1 when rewritten completely. */
+  editRatio?: number | null;
+  /** The answered message's Gmail `internalDate`, in epoch milliseconds. */
+  receivedAt?: string | null;
+};
+
+export type ReplyEvent = {
+  id: string;
+  account: string;
+  messageId: string;
+  threadId: string;
+  /** The answered message's sender address, lowercased. */
+  sender: string | null;
+  senderDomain: string | null;
+  origin: ReplyOrigin;
+  templateId: string | null;
+  templateName: string | null;
+  provider: string | null;
+  editRatio: number | null;
+  receivedAt: string | null;
+  sentAt: string;
+  responseSeconds: number | null;
+};
+
+export type CountEntry = { key: string; count: number };
+
+export type ReplySummary = {
+  total: number;
+  medianResponseSeconds: number | null;
+  averageEditRatio: number | null;
+  daily: CountEntry[];
+  topSenders: CountEntry[];
+  templates: CountEntry[];
+  origins: CountEntry[];
+};
+
+const ORIGINS: ReplyOrigin[] = ["template", "smart-draft", "saved-draft", "manual"];
+const TOP_ENTRIES = 10;
+// Word-level edit distance is quadratic; longer drafts are compared on this prefix.
+const MAX_COMPARED_WORDS = 1500;
+
+export function normalizeOrigin(value: unknown): ReplyOrigin {
+  return ORIGINS.includes(value as ReplyOrigin) ? (value as ReplyOrigin) : "manual";
+}
+
+export function senderDomain(address: string | null | undefined) {
+  const domain = address?.match(/@([^>\s]+)>?\s*$/)?.[1];
+  return domain ? domain.toLowerCase() : null;
+}
+
+/**
+ * Share of the drafted words that had to change to reach the sent text:
+ * word-level edit distance over the longer of the two.
+ */
+export function editRatio(original: string, sent: string) {
+  const before = original.split(/\s+/).filter(Boolean).slice(0, MAX_COMPARED_WORDS);
+  const after = sent.split(/\s+/).filter(Boolean).slice(0, MAX_COMPARED_WORDS);
+  const longest = Math.max(before.length, after.length);
+  if (!longest) return 0;
+
+  let previous = Array.from({ length: after.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= before.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= after.length; j += 1) {
+      const substitution = previous[j - 1] + (before[i - 1] === after[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return Math.round((previous[after.length] / longest) * 100) / 100;
+}
+
+function median(values: number[]) {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function countBy(events: ReplyEvent[], key: (event: ReplyEvent) => string | null) {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    const value = key(event);
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts].map(([entry, count]) => ({ key: entry, count })).sort((a, b) => b.count - a.count);
+}
+
+/** Totals for the dashboard; `daily` has an entry (possibly zero) for each of the last `days` days. */
+export function summarizeReplies(events: ReplyEvent[], days: number, now = new Date()): ReplySummary {
+  const daily = countBy(events, (event) => event.sentAt.slice(0, 10));
+  const byDay = new Map(daily.map((entry) => [entry.key, entry.count]));
+  const ratios = events.map((event) => event.editRatio).filter((value): value is number => value !== null);
+
+  return {
+    total: events.length,
+    medianResponseSeconds: median(
+      events.map((event) => event.responseSeconds).filter((value): value is number => value !== null),
+    ),
+    averageEditRatio: ratios.length
+      ? Math.round((ratios.reduce((sum, value) => sum + value, 0) / ratios.length) * 100) / 100
+      : null,
+    daily: Array.from({ length: days }, (_, index) => {
+      const day = new Date(now.getTime() - (days - 1 - index) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      return { key: day, count: byDay.get(day) ?? 0 };
+    }),
+    topSenders: countBy(events, (event) => event.sender).slice(0, TOP_ENTRIES),
+    templates: countBy(events, (event) => (event.origin === "template" ? event.templateName ?? event.templateId : null))
+      .slice(0, TOP_ENTRIES),
+    origins: countBy(events, (event) => event.origin),
+  };
+}
+
+const CSV_COLUMNS: (keyof ReplyEvent & string)[] = [
+  "sentAt",
+  "receivedAt",
+  "responseSeconds",
+  "account",
+  "sender",
+  "senderDomain",
+  "origin",
+  "templateName",
+  "provider",
+  "editRatio",
+  "messageId",
+  "threadId",
+];
+
+export function repliesToCsv(events: ReplyEvent[]) {
+  return toCsv(CSV_COLUMNS, events);
+}
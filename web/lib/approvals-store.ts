@@ -0,0 +1,333 @@
+import { randomUUID } from "node:crypto";
+
+import type { gmail_v1 } from "googleapis";
+import { NextResponse } from "next/server";
+
+import { listMailboxUsers } from "@/lib/accounts";
+import { recordReplies } from "@/lib/analytics-store";
+import {
+  APPROVAL_REQUIRED,
+  approvalMatch,
+  EMPTY_POLICY,
+  lineDiff,
+  normalizePolicyLists,
+  roleOf,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+  type ApprovalRole,
+  type AuditAction,
+  type AuditEntry,
+} from "@/lib/approvals";
+import { ValidationError } from "@/lib/errors";
+import { parseEmailAddress } from "@/lib/gmail-message";
+import { createReplyGuard } from "@/lib/reply-guard";
+import type { SafetyIssue } from "@/lib/reply-safety";
+import { resolveReplyEnvelope, sendReply } from "@/lib/reply";
+import type { QueuedPayload } from "@/lib/send-queue";
+import { readStore, updateStore } from "@/lib/store";
+
+type PolicyStore = Record<string, ApprovalPolicy>;
+type ApprovalStore = Record<string, ApprovalRequest>;
+// mailbox -> entries, oldest first; only ever appended to
+type AuditStore = Record<string, AuditEntry[]>;
+
+const POLICY_STORE = "approval-policies";
+const APPROVAL_STORE = "approvals";
+const AUDIT_STORE = "audit-log";
+// Decided requests drop out of the queue after this; the audit log keeps their history.
+const DECIDED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// A send takes seconds; a request still "sending" after this lost its process mid-send.
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+const INTERRUPTED = "Sending was interrupted; check the thread before approving again";
+const MAX_COMMENT_LENGTH = 1000;
+
+export type ApprovalDecision = {
+  action?: "approve" | "reject";
+  /** The approver's edited reply; sent instead of the drafter's text. */
+  body?: string | null;
+  comment?: string | null;
+  /** Approve even though the safety checks flagged the reply; set after the approver confirms. */
+  allowUnsafe?: boolean;
+};
+
+/** A decision that was made, or the safety issues that held an approval back. */
+export type DecisionResult = { approval: ApprovalRequest; issues?: never } | { approval?: never; issues: SafetyIssue[] };
+
+export async function getApprovalPolicy(mailbox: string) {
+  const store = await readStore<PolicyStore>(POLICY_STORE, {});
+  return store[mailbox.toLowerCase()] ?? EMPTY_POLICY;
+}
+
+export async function saveApprovalPolicy(
+  mailbox: string,
+  input: { roles?: unknown; senders?: unknown; domains?: unknown },
+  updatedBy: string,
+) {
+  const key = mailbox.toLowerCase();
+  const users = new Set((await listMailboxUsers(key)).map((user) => user.email));
+  const roles: Record<string, ApprovalRole> = {};
+
+  if (input.roles && typeof input.roles === "object") {
+    for (const [user, role] of Object.entries(input.roles)) {
+      const address = user.trim().toLowerCase();
+      if (!users.has(address)) {
+        throw new ValidationError(`${user} doesn't work in this inbox`);
+      }
+      if (role !== "drafter" && role !== "approver") {
+        throw new ValidationError(`Unknown role for ${user}`);
+      }
+      if (address !== key) roles[address] = role;
+    }
+  }
+
+  const policy: ApprovalPolicy = {
+    roles,
+    ...normalizePolicyLists(input),
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  };
+
+  await updateStore<PolicyStore>(POLICY_STORE, {}, (store) => ({ ...store, [key]: policy }));
+  return policy;
+}
+
+/**
+ * The recipient that makes this reply need sign-off when `user` sends it from
+ * `mailbox`, or null when it can go out directly. Recipients are worked out
+ * the same way the send does, so reply-all and a changed To are covered.
+ */
+export async function approvalRequiredFor(
+  gmail: gmail_v1.Gmail,
+  mailbox: string,
+  user: string | null | undefined,
+  payload: QueuedPayload,
+) {
+  const policy = await getApprovalPolicy(mailbox);
+  if (!policy.senders.length && !policy.domains.length) return null;
+  if (user && roleOf(policy, mailbox, user) === "approver") return null;
+
+  const envelope = await resolveReplyEnvelope(gmail, payload, mailbox);
+  const recipients = [...envelope.to, ...envelope.cc, ...envelope.bcc].flatMap(
+    (entry) => parseEmailAddress(entry).address?.toLowerCase() ?? [],
+  );
+  return approvalMatch(policy, recipients);
+}
+
+/** 409 for a direct reply that needs sign-off; the page offers to submit it for approval instead. */
+export function approvalRequired(recipient: string) {
+  return NextResponse.json(
+    { error: `Replies to ${recipient} need approval before they're sent`, code: APPROVAL_REQUIRED },
+    { status: 409 },
+  );
+}
+
+async function appendAudit(
+  request: ApprovalRequest,
+  action: AuditAction,
+  actor: string,
+  details: { comment?: string | null; diff?: string | null } = {},
+) {
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    mailbox: request.mailbox,
+    approvalId: request.id,
+    action,
+    actor,
+    at: new Date().toISOString(),
+    threadId: request.threadId,
+    messageId: request.messageId,
+    to: request.to,
+    subject: request.subject,
+    comment: details.comment ?? null,
+    diff: details.diff ?? null,
+  };
+
+  await updateStore<AuditStore>(AUDIT_STORE, {}, (store) => ({
+    ...store,
+    [request.mailbox]: [...(store[request.mailbox] ?? []), entry],
+  }));
+}
+
+/** The inbox's audit log, oldest first, optionally from `since` on. */
+export async function listAuditLog(mailbox: string, since?: Date) {
+  const store = await readStore<AuditStore>(AUDIT_STORE, {});
+  const entries = store[mailbox.toLowerCase()] ?? [];
+  return since ? entries.filter((entry) => new Date(entry.at).getTime() >= since.getTime()) : entries;
+}
+
+export async function submitForApproval(
+  mailbox: string,
+  drafter: { email: string; name: string | null },
+  payload: QueuedPayload,
+) {
+  const request: ApprovalRequest = {
+    id: randomUUID(),
+    mailbox: mailbox.toLowerCase(),
+    drafter: drafter.email,
+    drafterName: drafter.name,
+    messageId: payload.messageId,
+    threadId: payload.threadId,
+    to: payload.to ?? null,
+    subject: payload.subject ?? null,
+    body: payload.body ?? "",
+    status: "pending",
+    submittedAt: new Date().toISOString(),
+    decidedAt: null,
+    decidedBy: null,
+    comment: null,
+    payload,
+  };
+
+  await updateStore<ApprovalStore>(APPROVAL_STORE, {}, (store) => ({ ...store, [request.id]: request }));
+  await appendAudit(request, "drafted", drafter.email, { diff: lineDiff("", request.body) });
+  return request;
+}
+
+function isStaleClaim(request: ApprovalRequest, now = new Date()) {
+  return (
+    request.status === "sending" &&
+    (!request.claimedAt || now.getTime() - new Date(request.claimedAt).getTime() > CLAIM_TIMEOUT_MS)
+  );
+}
+
+/**
+ * Open requests plus those decided in the last week; drafters only see their
+ * own. An interrupted send shows as failed, so it can be approved again.
+ */
+export async function listApprovals(mailbox: string, user: string, role: ApprovalRole, now = new Date()) {
+  const store = await readStore<ApprovalStore>(APPROVAL_STORE, {});
+  const cutoff = now.getTime() - DECIDED_RETENTION_MS;
+
+  return Object.values(store)
+    .map((request): ApprovalRequest => (isStaleClaim(request, now) ? { ...request, status: "failed", error: INTERRUPTED } : request))
+    .filter(
+      (request) =>
+        request.mailbox === mailbox.toLowerCase() &&
+        (role === "approver" || request.drafter === user) &&
+        (!request.decidedAt || new Date(request.decidedAt).getTime() >= cutoff),
+    )
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+}
+
+async function updateRequest(id: string, changes: Partial<ApprovalRequest>) {
+  let updated: ApprovalRequest | null = null;
+  await updateStore<ApprovalStore>(APPROVAL_STORE, {}, (store) => {
+    if (!store[id]) return store;
+    updated = { ...store[id], ...changes };
+    return { ...store, [id]: updated };
+  });
+  return updated as ApprovalRequest | null;
+}
+
+/**
+ * Moves a pending, failed or interrupted request on to `status`; null when
+ * someone else got there first.
+ */
+async function claim(mailbox: string, id: string, changes: Partial<ApprovalRequest>) {
+  let claimed: ApprovalRequest | null = null;
+  await updateStore<ApprovalStore>(APPROVAL_STORE, {}, (store) => {
+    const request = store[id];
+    if (!request || request.mailbox !== mailbox.toLowerCase()) return store;
+    const stale = isStaleClaim(request);
+    if (request.status !== "pending" && request.status !== "failed" && !stale) return store;
+    claimed = { ...request, ...(stale ? { error: INTERRUPTED } : {}), ...changes };
+    return { ...store, [id]: claimed };
+  });
+  return claimed as ApprovalRequest | null;
+}
+
+/**
+ * Approves (sending the reply, with the approver's edits if any) or rejects
+ * a request. Returns null when it doesn't exist or was already handled.
+ * Approving runs the reply safety checks again, as things may have changed
+ * since the drafter submitted; any issues come back instead of a send unless
+ * the approver confirmed past them. Every step lands in the audit log; a
+ * failed send leaves the request open to approve again.
+ */
+export async function decideApproval(
+  gmail: gmail_v1.Gmail,
+  mailbox: string,
+  id: string,
+  approver: string,
+  decision: ApprovalDecision,
+): Promise<DecisionResult | null> {
+  const comment = decision.comment?.trim() || null;
+  if (comment && comment.length > MAX_COMMENT_LENGTH) {
+    throw new ValidationError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  if (decision.action === "reject") {
+    if (!comment) {
+      throw new ValidationError("Say why the reply was rejected");
+    }
+    const rejected = await claim(mailbox, id, {
+      status: "rejected",
+      decidedAt: new Date().toISOString(),
+      decidedBy: approver,
+      comment,
+    });
+    if (!rejected) return null;
+    await appendAudit(rejected, "rejected", approver, { comment });
+    return { approval: rejected };
+  }
+
+  if (decision.action !== "approve") {
+    throw new ValidationError("Action must be approve or reject");
+  }
+  if (decision.body !== undefined && decision.body !== null && !decision.body.trim()) {
+    throw new ValidationError("The reply can't be empty");
+  }
+
+  const claimed = await claim(mailbox, id, { status: "sending", claimedAt: new Date().toISOString() });
+  if (!claimed) return null;
+
+  if (!decision.allowUnsafe) {
+    // Nothing was sent, so the request goes back to how the approver found it.
+    const release = () => updateRequest(id, { status: claimed.error ? "failed" : "pending" });
+    let issues: SafetyIssue[];
+    try {
+      // The reply goes out as the drafter's, so their sends count towards the limits and their presence isn't a collision.
+      const check = await createReplyGuard(gmail, claimed.drafter, claimed.mailbox);
+      issues = await check({ messageId: claimed.messageId, threadId: claimed.threadId });
+    } catch (error) {
+      await release();
+      throw error;
+    }
+    if (issues.length) {
+      await release();
+      return { issues };
+    }
+  }
+
+  const body = decision.body ?? claimed.body;
+  const edited = body !== claimed.body;
+  // The drafter's HTML no longer matches once the text is edited, so the edited text is sent as is.
+  const payload: QueuedPayload = edited ? { ...claimed.payload, body, html: null } : claimed.payload;
+
+  if (edited) await appendAudit(claimed, "edited", approver, { diff: lineDiff(claimed.body, body) });
+
+  let warning: string | null;
+  try {
+    ({ warning } = await sendReply(gmail, payload, claimed.mailbox));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateRequest(id, { status: "failed", body, payload, error: message });
+    await appendAudit(claimed, "failed", approver, { comment: message });
+    throw error;
+  }
+
+  const sent = await updateRequest(id, {
+    status: "sent",
+    body,
+    payload,
+    error: undefined,
+    decidedAt: new Date().toISOString(),
+    decidedBy: approver,
+    comment,
+  });
+  // Only a reply that actually went out counts as approved.
+  await appendAudit(claimed, "approved", approver, { comment });
+  await appendAudit(claimed, "sent", approver, { comment: warning });
+  await recordReplies(gmail, claimed.drafter, claimed.mailbox, [payload]);
+  return sent ? { approval: sent } : null;
+}
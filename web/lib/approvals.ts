@@ -0,0 +1,186 @@
+import { toCsv } from "@/lib/csv";
+import type { QueuedPayload } from "@/lib/send-queue";
+
+export type ApprovalRole = "drafter" | "approver";
+
+/** Who may sign off on replies in an inbox, and which correspondents need it. */
+export type ApprovalPolicy = {
+  /** Roles for teammates; the inbox's own account is always an approver and anyone unlisted drafts. */
+  roles: Record<string, ApprovalRole>;
+  /** Sender addresses whose replies need approval. */
+  senders: string[];
+  /** Domains whose replies need approval, without the "@". */
+  domains: string[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+};
+
+export type ApprovalStatus = "pending" | "sending" | "sent" | "rejected" | "failed";
+
+export type ApprovalRequest = {
+  id: string;
+  mailbox: string;
+  drafter: string;
+  drafterName: string | null;
+  messageId: string;
+  threadId: string;
+  to: string | null;
+  subject: string | null;
+  /** The reply as it will go out; an approver's edits replace the drafter's text here. */
+  body: string;
+  status: ApprovalStatus;
+  submittedAt: string;
+  decidedAt: string | null;
+  decidedBy: string | null;
+  /** The approver's note, required when rejecting. */
+  comment: string | null;
+  error?: string;
+  /** When an approver's send started; a "sending" request older than the claim timeout was interrupted. */
+  claimedAt?: string;
+  payload: QueuedPayload;
+};
+
+/** What the browser sees: everything except the stored message payload. */
+export type ApprovalSummary = Omit<ApprovalRequest, "payload">;
+
+export type AuditAction = "drafted" | "edited" | "approved" | "rejected" | "sent" | "failed";
+
+/** One line of the append-only audit log; entries are never changed or removed. */
+export type AuditEntry = {
+  id: string;
+  mailbox: string;
+  approvalId: string;
+  action: AuditAction;
+  actor: string;
+  at: string;
+  threadId: string;
+  messageId: string;
+  to: string | null;
+  subject: string | null;
+  comment: string | null;
+  /** Line diff of the reply body for "drafted" and "edited"; see `lineDiff`. */
+  diff: string | null;
+};
+
+/** `code` on 409 responses for direct replies that have to go through approval. */
+export const APPROVAL_REQUIRED = "approval_required";
+
+export const EMPTY_POLICY: ApprovalPolicy = { roles: {}, senders: [], domains: [], updatedAt: null, updatedBy: null };
+
+const MAX_POLICY_ENTRIES = 200;
+// Past this many line comparisons the diff just shows the old text removed and the new text added.
+const MAX_DIFF_CELLS = 250_000;
+
+export function summarizeApproval(request: ApprovalRequest): ApprovalSummary {
+  return {
+    id: request.id,
+    mailbox: request.mailbox,
+    drafter: request.drafter,
+    drafterName: request.drafterName,
+    messageId: request.messageId,
+    threadId: request.threadId,
+    to: request.to,
+    subject: request.subject,
+    body: request.body,
+    status: request.status,
+    submittedAt: request.submittedAt,
+    decidedAt: request.decidedAt,
+    decidedBy: request.decidedBy,
+    comment: request.comment,
+    error: request.error,
+  };
+}
+
+export function roleOf(policy: ApprovalPolicy, mailbox: string, user: string): ApprovalRole {
+  const address = user.toLowerCase();
+  if (address === mailbox.toLowerCase()) return "approver";
+  return policy.roles[address] ?? "drafter";
+}
+
+/** The first recipient the policy covers, or null when a reply to `recipients` can go out directly. */
+export function approvalMatch(policy: ApprovalPolicy, recipients: string[]) {
+  return (
+    recipients.find((recipient) => {
+      const address = recipient.toLowerCase();
+      const domain = address.split("@")[1];
+      return policy.senders.includes(address) || Boolean(domain && policy.domains.includes(domain));
+    }) ?? null
+  );
+}
+
+function cleanList(value: unknown, clean: (entry: string) => string | null) {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\s,;]+/) : [];
+  const cleaned = list
+    .filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => clean(entry.trim().toLowerCase()))
+    .filter((entry): entry is string => Boolean(entry));
+  return [...new Set(cleaned)].slice(0, MAX_POLICY_ENTRIES);
+}
+
+/** Lowercases and dedupes the sender and domain lists; domains lose a leading "@". */
+export function normalizePolicyLists(input: { senders?: unknown; domains?: unknown }) {
+  return {
+    senders: cleanList(input.senders, (entry) => (/^[^@\s]+@[^@\s]+$/.test(entry) ? entry : null)),
+    domains: cleanList(input.domains, (entry) => {
+      const domain = entry.replace(/^@/, "");
+      return /^[a-z0-9-]+(?:\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+    }),
+  };
+}
+
+/**
+ * A line-by-line diff of two reply bodies: unchanged lines start with two
+ * spaces, removed lines with "- " and added lines with "+ ".
+ */
+export function lineDiff(before: string, after: string) {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map((line) => `- ${line}`), ...b.map((line) => `+ ${line}`)].join("\n");
+  }
+
+  // lengths[i][j] is the longest common run of lines in a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i += 1;
+      j += 1;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push(`- ${a[i]}`);
+      i += 1;
+    } else {
+      lines.push(`+ ${b[j]}`);
+      j += 1;
+    }
+  }
+  return lines.join("\n");
+}
+
+const CSV_COLUMNS: (keyof AuditEntry & string)[] = [
+  "at",
+  "action",
+  "actor",
+  "mailbox",
+  "to",
+  "subject",
+  "comment",
+  "diff",
+  "approvalId",
+  "messageId",
+  "threadId",
+];
+
+export function auditToCsv(entries: AuditEntry[]) {
+  return toCsv(CSV_COLUMNS, entries);
+}
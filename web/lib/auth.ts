@@ -0,0 +1,121 @@
+import type { NextAuthOptions } from "next-auth";
+import type { JWT } from "next-auth/jwt";
+import GoogleProvider from "next-auth/providers/google";
+
+import { REFRESH_ACCESS_TOKEN_ERROR } from "@/lib/reauth";
+
+export const GMAIL_SCOPES = [
+  "openid",
+  "email",
+  "profile",
+  "https://www.googleapis.com/auth/gmail.modify",
+  "https://www.googleapis.com/auth/gmail.compose",
+  "https://www.googleapis.com/auth/gmail.send",
+  // Out-of-office responder (users.settings.vacation).
+  "https://www.googleapis.com/auth/gmail.settings.basic",
+  // Sender sidebar contact details; everything else works if the user declines it.
+  "https://www.googleapis.com/auth/contacts.readonly",
+];
+
+// Refresh a little early so a token doesn't expire between the check and the Gmail call.
+const EXPIRY_MARGIN_SECONDS = 60;
+
+type RefreshedTokens = {
+  access_token?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  token_type?: string;
+  error?: string;
+  error_description?: string;
+};
+
+/**
+ * Exchanges the refresh token for a new access token. Failures are recorded on
+ * the token as `RefreshAccessTokenError` so API routes can ask for re-consent.
+ */
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    if (!token.refreshToken) {
+      throw new Error("No refresh token available");
+    }
+
+    const response = await fetch("https://oauth2.googleapis.com/token", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID ?? "",
+        client_secret: process.env.GOOGLE_CLIENT_SECRET ?? "",
+        grant_type: "refresh_token",
+        refresh_token: token.refreshToken,
+      }),
+    });
+    const refreshed = (await response.json()) as RefreshedTokens;
+
+    if (!response.ok || !refreshed.access_token) {
+      throw new Error(refreshed.error_description ?? refreshed.error ?? `Token endpoint returned ${response.status}`);
+    }
+
+    return {
+      ...token,
+      accessToken: refreshed.access_token,
+      expiresAt: Math.floor(Date.now() / 1000) + (refreshed.expires_in ?? 3600),
+      // Google only returns a new refresh token when it rotates the old one.
+      refreshToken: refreshed.refresh_token ?? token.refreshToken,
+      tokenType: refreshed.token_type ?? token.tokenType,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error("Failed to refresh access token", error);
+    return { ...token, error: REFRESH_ACCESS_TOKEN_ERROR };
+  }
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: [
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID ?? "",
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET ?? "",
+      authorization: {
+        params: {
+          scope: GMAIL_SCOPES.join(" "),
+          access_type: "offline",
+          include_granted_scopes: "true",
+        },
+      },
+    }),
+  ],
+  secret: process.env.NEXTAUTH_SECRET,
+  session: {
+    strategy: "jwt",
+  },
+  callbacks: {
+    async jwt({ token, account }) {
+      if (account) {
+        return {
+          ...token,
+          accessToken: account.access_token,
+          // Google omits the refresh token on repeat sign-ins unless consent is prompted.
+          refreshToken: account.refresh_token ?? token.refreshToken,
+          expiresAt: account.expires_at,
+          tokenType: account.token_type,
+          error: undefined,
+        };
+      }
+
+      if (!token.expiresAt || Date.now() < (token.expiresAt - EXPIRY_MARGIN_SECONDS) * 1000) {
+        return token;
+      }
+
+      return refreshAccessToken(token);
+    },
+    async session({ session, token }) {
+      session.accessToken = token.accessToken;
+      session.refreshToken = token.refreshToken;
+      session.expiresAt = token.expiresAt;
+      session.error = token.error;
+      return session;
+    },
+  },
+};
@@ -0,0 +1,206 @@
+import type { Assignment, CollabEvent, Presence } from "@/lib/collab";
+import { displayName, isFresh } from "@/lib/collab";
+import type { SafetyIssue } from "@/lib/reply-safety";
+import { readStore, updateStore } from "@/lib/store";
+
+// mailbox address -> thread id -> assignment
+type AssignmentStore = Record<string, Record<string, Assignment>>;
+// mailbox address -> queued send id -> who is sending in which thread
+type SendHoldStore = Record<string, Record<string, Presence>>;
+
+type Listener = (event: CollabEvent) => void;
+
+const STORE = "assignments";
+// Queued sends can wait for hours, across restarts, so their presence is kept on disk.
+const HOLD_STORE = "send-holds";
+
+// Presence is only interesting while someone is typing, so it lives in memory.
+const presence = new Map<string, Map<string, Presence>>();
+const listeners = new Map<string, Set<Listener>>();
+
+/** Registers for a mailbox's assignment and presence changes; returns the unsubscribe function. */
+export function subscribeCollab(mailbox: string, listener: Listener) {
+  const key = mailbox.toLowerCase();
+  const set = listeners.get(key) ?? new Set<Listener>();
+  set.add(listener);
+  listeners.set(key, set);
+
+  return () => {
+    set.delete(listener);
+    if (!set.size) listeners.delete(key);
+  };
+}
+
+function publish(mailbox: string, event: CollabEvent) {
+  for (const listener of listeners.get(mailbox) ?? []) listener(event);
+}
+
+export async function listAssignments(mailbox: string) {
+  const store = await readStore<AssignmentStore>(STORE, {});
+  return Object.values(store[mailbox.toLowerCase()] ?? {});
+}
+
+/** Assigns a thread to `assignee`, or releases it when null. */
+export async function assignThread(
+  mailbox: string,
+  threadId: string,
+  assignee: { email: string; name: string | null } | null,
+  assignedBy: string,
+) {
+  const key = mailbox.toLowerCase();
+  const assignment: Assignment | null = assignee
+    ? {
+        threadId,
+        assignee: assignee.email.toLowerCase(),
+        assigneeName: assignee.name,
+        assignedBy,
+        assignedAt: new Date().toISOString(),
+      }
+    : null;
+
+  await updateStore<AssignmentStore>(STORE, {}, (store) => {
+    const threads = { ...store[key] };
+    if (assignment) threads[threadId] = assignment;
+    else delete threads[threadId];
+    return { ...store, [key]: threads };
+  });
+
+  publish(key, { type: "assignment", account: key, threadId, assignment });
+  return assignment;
+}
+
+/** Who is drafting (and whose replies are queued) in a mailbox, optionally in one thread. */
+export async function listPresence(mailbox: string, threadId?: string) {
+  const key = mailbox.toLowerCase();
+  const now = Date.now();
+  const holds = (await readStore<SendHoldStore>(HOLD_STORE, {}))[key] ?? {};
+  return [...(presence.get(key)?.values() ?? []), ...Object.values(holds)].filter(
+    (entry) => (!threadId || entry.threadId === threadId) && isFresh(entry, now),
+  );
+}
+
+async function publishPresence(mailbox: string, threadId: string) {
+  publish(mailbox, { type: "presence", account: mailbox, threadId, presence: await listPresence(mailbox, threadId) });
+}
+
+/** Marks `user` as drafting in a thread, or clears them when `drafting` is false. */
+export function updatePresence(
+  mailbox: string,
+  threadId: string,
+  user: { email: string; name: string | null },
+  drafting: boolean,
+) {
+  const key = mailbox.toLowerCase();
+  const entries = presence.get(key) ?? new Map<string, Presence>();
+  const id = `${threadId}:${user.email}`;
+
+  // Drop anyone who stopped refreshing, so the map doesn't grow with old threads.
+  for (const [entryId, entry] of entries) {
+    if (!isFresh(entry)) entries.delete(entryId);
+  }
+  const existed = entries.has(id);
+
+  if (drafting) {
+    entries.set(id, { threadId, user: user.email, name: user.name, at: new Date().toISOString() });
+  } else {
+    entries.delete(id);
+  }
+
+  if (entries.size) presence.set(key, entries);
+  else presence.delete(key);
+
+  // Refreshes of an existing entry change nothing anyone can see.
+  if (drafting !== existed) {
+    publishPresence(key, threadId).catch((error) => console.error("Failed to publish presence", error));
+  }
+}
+
+/**
+ * Keeps `user` present in a thread while their reply `sendId` waits in the
+ * send queue, so teammates see it coming and the collision checks count it.
+ * Replaces their drafting presence there. The hold lapses at `until` even if
+ * nothing releases it.
+ */
+export async function holdForSend(
+  mailbox: string,
+  threadId: string,
+  user: { email: string; name: string | null },
+  sendId: string,
+  until: Date,
+) {
+  const key = mailbox.toLowerCase();
+  const now = new Date();
+  const hold: Presence = {
+    threadId,
+    user: user.email,
+    name: user.name,
+    at: now.toISOString(),
+    sending: true,
+    until: until.toISOString(),
+  };
+
+  presence.get(key)?.delete(`${threadId}:${user.email}`);
+  await updateStore<SendHoldStore>(HOLD_STORE, {}, (store) => {
+    // Lapsed holds are dropped here rather than left to pile up.
+    const live = Object.entries(store[key] ?? {}).filter(([, entry]) => isFresh(entry, now.getTime()));
+    return { ...store, [key]: { ...Object.fromEntries(live), [sendId]: hold } };
+  });
+  await publishPresence(key, threadId);
+}
+
+/** Drops the hold once the queued send has gone out, failed or been cancelled. */
+export async function releaseSend(mailbox: string, sendId: string) {
+  const key = mailbox.toLowerCase();
+  let released: Presence | null = null;
+
+  await updateStore<SendHoldStore>(HOLD_STORE, {}, (store) => {
+    if (!store[key]?.[sendId]) return store;
+    const { [sendId]: hold, ...rest } = store[key];
+    released = hold;
+    return { ...store, [key]: rest };
+  });
+
+  const threadId = (released as Presence | null)?.threadId;
+  if (threadId) await publishPresence(key, threadId);
+}
+
+/**
+ * Reasons a reply from `owner` might collide with a teammate's: the thread is
+ * assigned to someone else, someone else is drafting in it right now, or
+ * someone else's reply to it is waiting in the send queue.
+ */
+export async function collisionIssues(mailbox: string, threadId: string, owner: string | null | undefined) {
+  const key = mailbox.toLowerCase();
+  const issues: SafetyIssue[] = [];
+
+  const assignment = (await readStore<AssignmentStore>(STORE, {}))[key]?.[threadId];
+  if (assignment && assignment.assignee !== owner) {
+    issues.push({
+      code: "assigned",
+      reason: `Assigned to ${displayName(assignment.assigneeName, assignment.assignee)}`,
+    });
+  }
+
+  const others = (await listPresence(key, threadId)).filter((entry) => entry.user !== owner);
+  const names = (entries: Presence[]) =>
+    [...new Set(entries.map((entry) => displayName(entry.name, entry.user)))].join(", ");
+
+  const drafting = others.filter((entry) => !entry.sending);
+  if (drafting.length) {
+    issues.push({
+      code: "teammate-drafting",
+      reason: `${names(drafting)} ${drafting.length > 1 ? "are" : "is"} drafting a reply`,
+    });
+  }
+
+  const sending = others.filter((entry) => entry.sending);
+  if (sending.length) {
+    const several = new Set(sending.map((entry) => entry.user)).size > 1;
+    issues.push({
+      code: "teammate-sending",
+      reason: `${names(sending)} already ${several ? "have replies" : "has a reply"} queued to send`,
+    });
+  }
+
+  return issues;
+}
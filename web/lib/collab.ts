@@ -0,0 +1,45 @@
+/** Someone who can work in a shared mailbox. */
+export type Teammate = {
+  email: string;
+  name: string | null;
+};
+
+/** Who is answering a thread in a shared mailbox. */
+export type Assignment = {
+  threadId: string;
+  assignee: string;
+  assigneeName: string | null;
+  assignedBy: string;
+  assignedAt: string;
+};
+
+/** A teammate with a reply in progress on a thread; refreshed while they type. */
+export type Presence = {
+  threadId: string;
+  user: string;
+  name: string | null;
+  at: string;
+  /** Their reply is waiting in the send queue; this holds until it goes out or is cancelled. */
+  sending?: boolean;
+  /** When a send hold lapses anyway, in case the process sending it died. */
+  until?: string;
+};
+
+/** Collaboration changes, sent on the inbox events stream next to Gmail changes. */
+export type CollabEvent =
+  | { type: "assignment"; account: string; threadId: string; assignment: Assignment | null }
+  | { type: "presence"; account: string; threadId: string; presence: Presence[] };
+
+/** Presence older than this is treated as gone; clients refresh well within it. */
+export const PRESENCE_TTL_MS = 45_000;
+export const PRESENCE_REFRESH_MS = 20_000;
+
+/** First name when known, else the address: "Dana is drafting…". */
+export function displayName(name: string | null, email: string) {
+  return name?.trim().split(/\s+/)[0] || email;
+}
+
+export function isFresh(presence: Presence, now = Date.now()) {
+  if (presence.sending) return presence.until ? now < new Date(presence.until).getTime() : false;
+  return now - new Date(presence.at).getTime() < PRESENCE_TTL_MS;
+}
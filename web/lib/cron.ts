@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+/**
+ * True when the request carries `Authorization: Bearer $CRON_SECRET`, the
+ * header Vercel Cron (and our README's curl examples) send.
+ */
+export function isCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  return Boolean(secret) && request.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+/**
+ * The GET side of a job route, for schedulers that can only GET. It takes the
+ * cron secret alone: browsers send SameSite=Lax cookies on cross-site
+ * top-level GETs, so signed-in callers have to POST.
+ */
+export function cronOnly(handler: (request: Request) => Promise<Response>) {
+  return async function GET(request: Request) {
+    if (!isCronRequest(request)) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+    return handler(request);
+  };
+}
@@ -0,0 +1,16 @@
+// Spreadsheets run a cell starting with one of these as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown) {
+  const raw = value === null || value === undefined ? "" : String(value);
+  // Numbers go out as they are; text that would run as a formula is kept as text with a leading quote.
+  const text = typeof value === "string" && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** A header row of `columns` followed by one row per record, with CRLF line endings. */
+export function toCsv<T>(columns: (keyof T & string)[], records: T[]) {
+  return [columns, ...records.map((record) => columns.map((column) => record[column]))]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+}
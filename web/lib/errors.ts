@@ -0,0 +1,5 @@
+/**
+ * Raised for user input a route should reject with a 400 rather than log as
+ * a server failure.
+ */
+export class ValidationError extends Error {}
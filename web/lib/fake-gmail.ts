@@ -0,0 +1,661 @@
+import { randomUUID } from "node:crypto";
+
+import type { gmail_v1 } from "googleapis";
+
+import { composeMessage, type MimeAttachment } from "@/lib/mime";
+
+/**
+ * In-memory stand-in for the slice of the Gmail API this app uses: messages,
+ * threads, labels, drafts, send, modify and history. Hand `backend.client()` to
+ * `setGmailClientFactory` to run routes and jobs without a Google account.
+ */
+
+export type FakeMessageSeed = {
+  id?: string;
+  threadId?: string;
+  from: string;
+  to?: string[];
+  cc?: string[];
+  subject?: string;
+  text?: string;
+  html?: string | null;
+  date?: string | Date;
+  messageIdHeader?: string;
+  inReplyTo?: string;
+  references?: string[];
+  labelIds?: string[];
+  attachments?: MimeAttachment[];
+  /** Extra raw headers, e.g. `List-Unsubscribe` for a newsletter. */
+  headers?: Record<string, string>;
+};
+
+export type FakeGmailSeed = {
+  /** The mailbox owner; used as the default `To` of seeded mail. */
+  address?: string;
+  /** Send-as identities besides the owner's primary address. */
+  sendAs?: gmail_v1.Schema$SendAs[];
+  labels?: string[];
+  messages?: FakeMessageSeed[];
+};
+
+type StoredMessage = {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  internalDate: number;
+  raw: string;
+  payload: gmail_v1.Schema$MessagePart;
+  snippet: string;
+  text: string;
+};
+
+type Format = "full" | "metadata" | "minimal" | "raw";
+
+export class FakeGmailError extends Error {
+  readonly code: number;
+  readonly response: { status: number; data: { error: { code: number; message: string } } };
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "FakeGmailError";
+    this.code = status;
+    this.response = { status, data: { error: { code: status, message } } };
+  }
+}
+
+const SYSTEM_LABELS = ["INBOX", "UNREAD", "STARRED", "IMPORTANT", "SENT", "DRAFT", "SPAM", "TRASH"];
+
+export const SAMPLE_INBOX: FakeGmailSeed = {
+  address: "me@example.com",
+  sendAs: [
+    {
+      sendAsEmail: "support@example.com",
+      displayName: "Example Support",
+      signature: "<div>Example Support<br>support@example.com</div>",
+      verificationStatus: "accepted",
+    },
+  ],
+  labels: ["Customers", "Follow up"],
+  messages: [
+    {
+      from: "Alex Rivera <alex@example.org>",
+      subject: "Project update",
+      text: "Hi,\n\nCould you send over the latest timeline? Are we still on track for Friday?\n\nThanks,\nAlex",
+      date: "2026-01-05T09:30:00Z",
+    },
+    {
+      from: "Jamie Chen <jamie@example.net>",
+      to: ["support@example.com"],
+      cc: ["sam@example.net"],
+      subject: "Quick call next week?",
+      text: "Hello! Would you be free for a 30 minute call on Tuesday or Wednesday?",
+      html: "<p>Hello! Would you be free for a <b>30 minute call</b> on Tuesday or Wednesday?</p>",
+      date: "2026-01-06T14:00:00Z",
+    },
+    {
+      from: "billing@vendor.example",
+      subject: "Invoice #4821",
+      text: "Your invoice is attached.",
+      date: "2026-01-07T08:15:00Z",
+      attachments: [{ filename: "invoice.pdf", mimeType: "application/pdf", data: Buffer.from("%PDF-1.4 fake").toString("base64") }],
+    },
+    {
+      from: "Weekly Digest <no-reply@news.example>",
+      subject: "This week in product",
+      text: "Five stories you might have missed.",
+      date: "2026-01-07T11:00:00Z",
+      headers: { "List-Unsubscribe": "<mailto:unsubscribe@news.example>", Precedence: "bulk" },
+    },
+  ],
+};
+
+function decodeEncodedWords(value: string) {
+  return value.replace(
+    /=\?([^?]+)\?([BbQq])\?([^?]*)\?=(?:\s+(?==\?))?/g,
+    (_, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toUpperCase() === "B"
+          ? Buffer.from(text, "base64")
+          : Buffer.from(
+              text.replace(/_/g, " ").replace(/=([0-9A-F]{2})/gi, (__, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+              "latin1",
+            );
+      try {
+        return new TextDecoder(charset).decode(bytes);
+      } catch {
+        return bytes.toString("utf8");
+      }
+    },
+  );
+}
+
+function splitEntity(source: string) {
+  const separator = source.match(/\r?\n\r?\n/);
+  const headerText = separator?.index === undefined ? source : source.slice(0, separator.index);
+  const body = separator?.index === undefined ? "" : source.slice(separator.index + separator[0].length);
+
+  const headers = headerText
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)
+    .filter(Boolean)
+    .map((line) => {
+      const colon = line.indexOf(":");
+      return { name: line.slice(0, colon).trim(), value: decodeEncodedWords(line.slice(colon + 1).trim()) };
+    });
+
+  return { headers, body };
+}
+
+function header(headers: gmail_v1.Schema$MessagePartHeader[] | undefined, name: string) {
+  return headers?.find((entry) => entry.name?.toLowerCase() === name.toLowerCase())?.value ?? null;
+}
+
+function parameter(value: string | null, name: string) {
+  return value?.match(new RegExp(`${name}\\*?="?([^";]+)"?`, "i"))?.[1] ?? null;
+}
+
+function decodeBody(body: string, encoding: string | null) {
+  switch (encoding?.toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64");
+    case "quoted-printable":
+      return Buffer.from(
+        body.replace(/=\r?\n/g, "").replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        "latin1",
+      );
+    default:
+      return Buffer.from(body.replace(/\r?\n$/, ""), "utf8");
+  }
+}
+
+export class FakeGmailBackend {
+  readonly address: string;
+  private messages = new Map<string, StoredMessage>();
+  private drafts = new Map<string, string>();
+  private labels = new Map<string, gmail_v1.Schema$Label>();
+  private attachments = new Map<string, Buffer>();
+  private sequence = 0;
+  private historyId = 1;
+  private historyFloor = 0;
+  private history: gmail_v1.Schema$History[] = [];
+  private vacation: gmail_v1.Schema$VacationSettings = { enableAutoReply: false };
+  private sendAs: gmail_v1.Schema$SendAs[];
+
+  constructor(seed: FakeGmailSeed = {}) {
+    this.address = seed.address ?? "me@example.com";
+    this.sendAs = [
+      { sendAsEmail: this.address, isPrimary: true, isDefault: true, verificationStatus: "accepted" },
+      ...(seed.sendAs ?? []),
+    ];
+    for (const id of SYSTEM_LABELS) {
+      this.labels.set(id, { id, name: id, type: "system" });
+    }
+    seed.labels?.forEach((name) => this.createLabel(name));
+    seed.messages?.forEach((message) => this.seedMessage(message));
+  }
+
+  /** Adds a received message; unread and in the inbox unless `labelIds` says otherwise. */
+  seedMessage(seed: FakeMessageSeed) {
+    const date = seed.date ? new Date(seed.date) : new Date();
+    const messageIdHeader = seed.messageIdHeader ?? `<${randomUUID()}@fake.gmail>`;
+    const source = [
+      `Date: ${date.toUTCString()}`,
+      `Message-ID: ${messageIdHeader}`,
+      ...Object.entries(seed.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+      composeMessage({
+        from: seed.from,
+        to: seed.to ?? [this.address],
+        cc: seed.cc,
+        subject: seed.subject ?? "",
+        text: seed.text ?? "",
+        html: seed.html,
+        inReplyTo: seed.inReplyTo,
+        references: seed.references,
+        attachments: seed.attachments,
+      }),
+    ].join("\r\n");
+
+    return this.store(Buffer.from(source, "utf8").toString("base64url"), {
+      id: seed.id,
+      threadId: seed.threadId,
+      labelIds: seed.labelIds ?? ["INBOX", "UNREAD"],
+      internalDate: date.getTime(),
+    });
+  }
+
+  /** Messages the app has sent, oldest first, with their decoded RFC 822 source. */
+  sentMessages() {
+    return [...this.messages.values()]
+      .filter((message) => message.labelIds.includes("SENT"))
+      .sort((a, b) => a.internalDate - b.internalDate)
+      .map((message) => ({
+        id: message.id,
+        threadId: message.threadId,
+        headers: message.payload.headers ?? [],
+        header: (name: string) => header(message.payload.headers, name),
+        text: message.text,
+        source: Buffer.from(message.raw, "base64url").toString("utf8"),
+      }));
+  }
+
+  labelsOf(messageId: string) {
+    return [...this.find(messageId).labelIds];
+  }
+
+  draftIds() {
+    return [...this.drafts.keys()];
+  }
+
+  /** Changes labels as another client would, recording history for sync. */
+  modifyLabels(messageId: string, changes: { addLabelIds?: string[]; removeLabelIds?: string[] }) {
+    this.modify(messageId, changes);
+  }
+
+  /** Makes history before now unavailable, as Gmail does after about a week. */
+  expireHistory() {
+    this.historyFloor = this.historyId + 1;
+  }
+
+  client(): gmail_v1.Gmail {
+    const respond =
+      <P, R>(handler: (params: P) => R) =>
+      async (params: P) => ({ data: handler(params) });
+
+    return {
+      users: {
+        messages: {
+          list: respond((params: gmail_v1.Params$Resource$Users$Messages$List) => this.list(params)),
+          get: respond((params: gmail_v1.Params$Resource$Users$Messages$Get) =>
+            this.format(this.find(params.id ?? ""), (params.format as Format) ?? "full", params.metadataHeaders),
+          ),
+          send: respond((params: gmail_v1.Params$Resource$Users$Messages$Send) => this.send(params.requestBody)),
+          modify: respond((params: gmail_v1.Params$Resource$Users$Messages$Modify) =>
+            this.format(this.modify(params.id ?? "", params.requestBody ?? {}), "minimal"),
+          ),
+          trash: respond((params: gmail_v1.Params$Resource$Users$Messages$Trash) =>
+            this.format(this.modify(params.id ?? "", { addLabelIds: ["TRASH"], removeLabelIds: ["INBOX"] }), "minimal"),
+          ),
+          batchModify: respond((params: gmail_v1.Params$Resource$Users$Messages$Batchmodify) => {
+            const { ids = [], ...changes } = params.requestBody ?? {};
+            ids?.forEach((id) => this.modify(id, changes));
+            return "";
+          }),
+          attachments: {
+            get: respond((params: gmail_v1.Params$Resource$Users$Messages$Attachments$Get) => {
+              const data = this.attachments.get(params.id ?? "");
+              if (!data) throw new FakeGmailError(404, "Attachment not found");
+              return { attachmentId: params.id, size: data.length, data: data.toString("base64url") };
+            }),
+          },
+        },
+        threads: {
+          get: respond((params: gmail_v1.Params$Resource$Users$Threads$Get) => {
+            const messages = this.thread(params.id ?? "");
+            if (!messages.length) throw new FakeGmailError(404, "Thread not found");
+            return {
+              id: params.id,
+              messages: messages.map((message) =>
+                this.format(message, (params.format as Format) ?? "full", params.metadataHeaders),
+              ),
+            };
+          }),
+        },
+        history: {
+          list: respond((params: gmail_v1.Params$Resource$Users$History$List) => this.listHistory(params)),
+        },
+        settings: {
+          getVacation: respond(() => ({ ...this.vacation })),
+          updateVacation: respond((params: gmail_v1.Params$Resource$Users$Settings$Updatevacation) => {
+            this.vacation = { ...params.requestBody };
+            return { ...this.vacation };
+          }),
+          sendAs: {
+            list: respond(() => ({ sendAs: this.sendAs.map((entry) => ({ ...entry })) })),
+          },
+        },
+        getProfile: respond(() => ({
+          emailAddress: this.address,
+          historyId: String(this.historyId),
+          messagesTotal: this.messages.size,
+        })),
+        watch: respond(() => ({
+          historyId: String(this.historyId),
+          expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        })),
+        labels: {
+          list: respond(() => ({ labels: [...this.labels.values()] })),
+          create: respond((params: gmail_v1.Params$Resource$Users$Labels$Create) =>
+            this.createLabel(params.requestBody?.name ?? ""),
+          ),
+        },
+        drafts: {
+          list: respond(() => ({
+            drafts: [...this.drafts].map(([id, messageId]) => ({
+              id,
+              message: { id: messageId, threadId: this.find(messageId).threadId },
+            })),
+          })),
+          get: respond((params: gmail_v1.Params$Resource$Users$Drafts$Get) => ({
+            id: params.id,
+            message: this.format(this.find(this.draftMessageId(params.id)), (params.format as Format) ?? "full"),
+          })),
+          create: respond((params: gmail_v1.Params$Resource$Users$Drafts$Create) =>
+            this.saveDraft(randomUUID(), params.requestBody?.message),
+          ),
+          update: respond((params: gmail_v1.Params$Resource$Users$Drafts$Update) => {
+            const previous = this.find(this.draftMessageId(params.id));
+            this.removeMessage(previous.id);
+            return this.saveDraft(params.id ?? "", params.requestBody?.message);
+          }),
+          delete: respond((params: gmail_v1.Params$Resource$Users$Drafts$Delete) => {
+            this.removeMessage(this.draftMessageId(params.id));
+            this.drafts.delete(params.id ?? "");
+            return "";
+          }),
+          send: respond((params: gmail_v1.Params$Resource$Users$Drafts$Send) => {
+            const id = params.requestBody?.id ?? "";
+            const message = this.find(this.draftMessageId(id));
+            this.drafts.delete(id);
+            message.internalDate = this.now();
+            this.modify(message.id, { addLabelIds: ["SENT"], removeLabelIds: ["DRAFT"] });
+            return this.format(message, "minimal");
+          }),
+        },
+      },
+    } as unknown as gmail_v1.Gmail;
+  }
+
+  private now() {
+    // Strictly increasing so "latest" ordering is deterministic within a test.
+    this.sequence += 1;
+    return Date.now() + this.sequence;
+  }
+
+  private find(id: string) {
+    const message = this.messages.get(id);
+    if (!message) throw new FakeGmailError(404, `Message ${id} not found`);
+    return message;
+  }
+
+  private draftMessageId(draftId: string | undefined) {
+    const messageId = this.drafts.get(draftId ?? "");
+    if (!messageId) throw new FakeGmailError(404, `Draft ${draftId} not found`);
+    return messageId;
+  }
+
+  private thread(threadId: string) {
+    return [...this.messages.values()]
+      .filter((message) => message.threadId === threadId)
+      .sort((a, b) => a.internalDate - b.internalDate);
+  }
+
+  private createLabel(name: string) {
+    if (!name.trim()) throw new FakeGmailError(400, "Invalid label name");
+    if ([...this.labels.values()].some((label) => label.name?.toLowerCase() === name.toLowerCase())) {
+      throw new FakeGmailError(409, "Label name exists or conflicts");
+    }
+    const label = { id: `Label_${this.labels.size + 1}`, name, type: "user" };
+    this.labels.set(label.id, label);
+    return label;
+  }
+
+  private store(
+    raw: string,
+    options: { id?: string; threadId?: string | null; labelIds: string[]; internalDate: number },
+  ) {
+    const attachments = new Map<string, Buffer>();
+    const payload = this.parsePart(Buffer.from(raw, "base64url").toString("utf8"), "", attachments);
+    attachments.forEach((data, id) => this.attachments.set(id, data));
+
+    // Gmail threads a message with the conversation it replies to.
+    const inReplyTo = header(payload.headers, "In-Reply-To");
+    const parent = inReplyTo
+      ? [...this.messages.values()].find((message) => header(message.payload.headers, "Message-ID") === inReplyTo)
+      : undefined;
+
+    const id = options.id ?? randomUUID().replace(/-/g, "").slice(0, 16);
+    const text = this.textOf(payload);
+    const message: StoredMessage = {
+      id,
+      threadId: options.threadId ?? parent?.threadId ?? id,
+      labelIds: options.labelIds,
+      internalDate: options.internalDate,
+      raw,
+      payload,
+      text,
+      snippet: text.replace(/\s+/g, " ").trim().slice(0, 100),
+    };
+    this.messages.set(id, message);
+    this.record({ messagesAdded: [{ message: this.reference(message) }] });
+    return message;
+  }
+
+  private parsePart(source: string, partId: string, attachments: Map<string, Buffer>): gmail_v1.Schema$MessagePart {
+    const { headers, body } = splitEntity(source);
+    const contentType = header(headers, "Content-Type") ?? "text/plain";
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+
+    if (mimeType.startsWith("multipart/")) {
+      const boundary = parameter(contentType, "boundary");
+      const sections = boundary ? body.split(`--${boundary}`).slice(1) : [];
+      const parts = sections
+        .filter((section) => !section.startsWith("--"))
+        .map((section, index) =>
+          this.parsePart(section.replace(/^\r?\n/, ""), partId ? `${partId}.${index}` : `${index}`, attachments),
+        );
+      return { partId, mimeType, filename: "", headers, body: { size: 0 }, parts };
+    }
+
+    const data = decodeBody(body, header(headers, "Content-Transfer-Encoding"));
+    const filename = parameter(header(headers, "Content-Disposition"), "filename") ?? parameter(contentType, "name") ?? "";
+
+    if (filename) {
+      const attachmentId = randomUUID();
+      attachments.set(attachmentId, data);
+      return { partId, mimeType, filename, headers, body: { attachmentId, size: data.length } };
+    }
+
+    return { partId, mimeType, filename: "", headers, body: { size: data.length, data: data.toString("base64url") } };
+  }
+
+  private textOf(part: gmail_v1.Schema$MessagePart): string {
+    if (part.mimeType === "text/plain" && part.body?.data) {
+      return Buffer.from(part.body.data, "base64url").toString("utf8");
+    }
+    for (const child of part.parts ?? []) {
+      const text = this.textOf(child);
+      if (text) return text;
+    }
+    return "";
+  }
+
+  private format(message: StoredMessage, format: Format, metadataHeaders?: string[]): gmail_v1.Schema$Message {
+    const base = {
+      id: message.id,
+      threadId: message.threadId,
+      labelIds: [...message.labelIds],
+      snippet: message.snippet,
+      internalDate: String(message.internalDate),
+      sizeEstimate: Buffer.from(message.raw, "base64url").length,
+    };
+
+    switch (format) {
+      case "raw":
+        return { ...base, raw: message.raw };
+      case "minimal":
+        return base;
+      case "metadata": {
+        const wanted = metadataHeaders?.map((name) => name.toLowerCase());
+        return {
+          ...base,
+          payload: {
+            mimeType: message.payload.mimeType,
+            headers: (message.payload.headers ?? []).filter(
+              (entry) => !wanted || wanted.includes(entry.name?.toLowerCase() ?? ""),
+            ),
+          },
+        };
+      }
+      default:
+        return { ...base, payload: structuredClone(message.payload) };
+    }
+  }
+
+  private list(params: gmail_v1.Params$Resource$Users$Messages$List) {
+    const labelIds = params.labelIds ?? [];
+    const matches = [...this.messages.values()]
+      .filter((message) => labelIds.every((label) => message.labelIds.includes(label)))
+      .filter((message) => this.matchesQuery(message, params.q ?? ""))
+      .sort((a, b) => b.internalDate - a.internalDate);
+
+    const offset = Number(params.pageToken ?? 0) || 0;
+    const pageSize = params.maxResults ?? 100;
+    const page = matches.slice(offset, offset + pageSize);
+
+    return {
+      messages: page.map((message) => ({ id: message.id, threadId: message.threadId })),
+      nextPageToken: offset + pageSize < matches.length ? String(offset + pageSize) : undefined,
+      resultSizeEstimate: matches.length,
+    };
+  }
+
+  /** Supports the search operators the app uses; any other term is a plain-text match. */
+  private matchesQuery(message: StoredMessage, query: string) {
+    const headers = message.payload.headers ?? [];
+    const terms = query.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+
+    return terms.every((term) => {
+      const [operator, ...rest] = term.toLowerCase().split(":");
+      const value = rest.join(":").replace(/"/g, "");
+      const contains = (field: string | null) => (field ?? "").toLowerCase().includes(value);
+      const labelNamed = (name: string) =>
+        [...this.labels.values()].find((label) => label.name?.toLowerCase().replace(/\s+/g, "-") === name)?.id ?? name.toUpperCase();
+
+      switch (rest.length ? operator : "") {
+        case "is":
+          if (value === "read") return !message.labelIds.includes("UNREAD");
+          return message.labelIds.includes(value.toUpperCase());
+        case "in":
+          return message.labelIds.includes(value.toUpperCase());
+        case "label":
+          return message.labelIds.includes(labelNamed(value));
+        case "from":
+        case "to":
+        case "cc":
+        case "subject":
+          return contains(header(headers, operator));
+        case "has":
+          return value === "attachment" ? JSON.stringify(message.payload).includes('"attachmentId"') : true;
+        case "after":
+        case "before": {
+          // Epoch seconds or yyyy/mm/dd, as Gmail accepts.
+          const bound = /^\d+$/.test(value) ? Number(value) * 1000 : new Date(value.replace(/\//g, "-")).getTime();
+          return operator === "after" ? message.internalDate > bound : message.internalDate < bound;
+        }
+        case "newer_than": {
+          const [, amount, unit] = value.match(/^(\d+)([dmy])$/) ?? [];
+          const days = Number(amount) * (unit === "y" ? 365 : unit === "m" ? 30 : 1);
+          return Boolean(amount) && message.internalDate > Date.now() - days * 24 * 60 * 60 * 1000;
+        }
+        default: {
+          const needle = term.toLowerCase().replace(/"/g, "");
+          return [header(headers, "Subject"), header(headers, "From"), message.text].some((field) =>
+            (field ?? "").toLowerCase().includes(needle),
+          );
+        }
+      }
+    });
+  }
+
+  private modify(id: string, changes: { addLabelIds?: string[] | null; removeLabelIds?: string[] | null }) {
+    const message = this.find(id);
+    // Like Gmail, label IDs from another account (or made up) are rejected.
+    const unknown = [...(changes.addLabelIds ?? []), ...(changes.removeLabelIds ?? [])].find(
+      (label) => !this.labels.has(label) && !label.startsWith("CATEGORY_"),
+    );
+    if (unknown) throw new FakeGmailError(400, `Invalid label: ${unknown}`);
+    const before = new Set(message.labelIds);
+    const remove = new Set(changes.removeLabelIds ?? []);
+    message.labelIds = [...new Set([...message.labelIds.filter((label) => !remove.has(label)), ...(changes.addLabelIds ?? [])])];
+
+    const added = message.labelIds.filter((label) => !before.has(label));
+    const removed = [...before].filter((label) => !message.labelIds.includes(label));
+    if (added.length) this.record({ labelsAdded: [{ message: this.reference(message), labelIds: added }] });
+    if (removed.length) this.record({ labelsRemoved: [{ message: this.reference(message), labelIds: removed }] });
+    return message;
+  }
+
+  private removeMessage(id: string) {
+    const message = this.find(id);
+    this.messages.delete(id);
+    this.record({ messagesDeleted: [{ message: this.reference(message) }] });
+  }
+
+  private reference(message: StoredMessage) {
+    return { id: message.id, threadId: message.threadId, labelIds: [...message.labelIds] };
+  }
+
+  private record(change: Omit<gmail_v1.Schema$History, "id">) {
+    this.historyId += 1;
+    this.history.push({ id: String(this.historyId), ...change });
+  }
+
+  private listHistory(params: gmail_v1.Params$Resource$Users$History$List) {
+    const start = Number(params.startHistoryId);
+    if (!Number.isFinite(start) || start < this.historyFloor) {
+      throw new FakeGmailError(404, "Requested entity was not found.");
+    }
+
+    const fields: Record<string, keyof gmail_v1.Schema$History> = {
+      messageAdded: "messagesAdded",
+      messageDeleted: "messagesDeleted",
+      labelAdded: "labelsAdded",
+      labelRemoved: "labelsRemoved",
+    };
+    const wanted = params.historyTypes?.map((type) => fields[type]);
+    const matches = this.history.filter(
+      (record) => Number(record.id) > start && (!wanted || wanted.some((field) => record[field])),
+    );
+
+    const offset = Number(params.pageToken ?? 0) || 0;
+    const pageSize = params.maxResults ?? 100;
+
+    return {
+      history: matches.slice(offset, offset + pageSize),
+      historyId: String(this.historyId),
+      nextPageToken: offset + pageSize < matches.length ? String(offset + pageSize) : undefined,
+    };
+  }
+
+  private withSendHeaders(raw: string) {
+    const source = Buffer.from(raw, "base64url").toString("utf8");
+    const { headers } = splitEntity(source);
+    const extra = [
+      header(headers, "Date") ? null : `Date: ${new Date().toUTCString()}`,
+      header(headers, "Message-ID") ? null : `Message-ID: <${randomUUID()}@fake.gmail>`,
+      header(headers, "From") ? null : `From: ${this.address}`,
+    ].filter(Boolean);
+    return Buffer.from([...extra, source].join("\r\n"), "utf8").toString("base64url");
+  }
+
+  private send(message: gmail_v1.Schema$Message | undefined) {
+    if (!message?.raw) throw new FakeGmailError(400, "Missing raw message");
+    const stored = this.store(this.withSendHeaders(message.raw), {
+      threadId: message.threadId,
+      labelIds: ["SENT"],
+      internalDate: this.now(),
+    });
+    return this.format(stored, "minimal");
+  }
+
+  private saveDraft(id: string, message: gmail_v1.Schema$Message | undefined) {
+    if (!message?.raw) throw new FakeGmailError(400, "Missing raw message");
+    const stored = this.store(this.withSendHeaders(message.raw), {
+      threadId: message.threadId,
+      labelIds: ["DRAFT"],
+      internalDate: this.now(),
+    });
+    this.drafts.set(id, stored.id);
+    return { id, message: { id: stored.id, threadId: stored.threadId, labelIds: stored.labelIds } };
+  }
+}
@@ -0,0 +1,21 @@
+/** Without a locale, uses the browser's; reply text passes the reply's language. */
+export function formatDate(date: string | null, locale?: string) {
+  if (!date) return "Unknown date";
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return locale ? parsed.toLocaleString(locale, { dateStyle: "long", timeStyle: "short" }) : parsed.toLocaleString();
+}
+
+export function formatBytes(size: number) {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatDuration(seconds: number | null) {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 60 * 60) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 24 * 60 * 60) return `${(seconds / (60 * 60)).toFixed(1)}h`;
+  return `${(seconds / (24 * 60 * 60)).toFixed(1)}d`;
+}
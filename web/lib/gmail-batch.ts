@@ -0,0 +1,121 @@
+import type { gmail_v1 } from "googleapis";
+
+import { ValidationError } from "@/lib/errors";
+import { mapWithConcurrency, withRetry } from "@/lib/pool";
+import { isReauthError } from "@/lib/reauth";
+import { deliverReply, type DraftPayload } from "@/lib/reply";
+import { normalizePostSend, postSendLabelChanges } from "@/lib/settings";
+
+export type LabelChanges = {
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+};
+
+export type BatchReply = DraftPayload & { messageId: string; threadId: string };
+
+export type BatchItemResult = {
+  messageId: string;
+  ok: boolean;
+  error?: string;
+};
+
+// Gmail's limit for a single batchModify call.
+const MAX_BATCH_MODIFY_IDS = 1000;
+// messages.send costs 100 quota units, so keep sends well under the per-user rate.
+const SEND_CONCURRENCY = 3;
+// There is no batch trash call; each message is trashed on its own.
+const TRASH_CONCURRENCY = 5;
+
+/**
+ * Applies the same label changes to any number of messages with as few
+ * `batchModify` calls as Gmail allows.
+ */
+export async function batchModifyMessages(gmail: gmail_v1.Gmail, ids: string[], changes: LabelChanges) {
+  const unique = [...new Set(ids)];
+
+  for (let start = 0; start < unique.length; start += MAX_BATCH_MODIFY_IDS) {
+    const chunk = unique.slice(start, start + MAX_BATCH_MODIFY_IDS);
+    await withRetry(() =>
+      gmail.users.messages.batchModify({
+        userId: "me",
+        requestBody: { ids: chunk, ...changes },
+      }),
+    );
+  }
+}
+
+/**
+ * Moves messages to the trash. Each id reports its own outcome; only dead
+ * credentials fail the whole call.
+ */
+export async function trashMessages(gmail: gmail_v1.Gmail, ids: string[]): Promise<BatchItemResult[]> {
+  const unique = [...new Set(ids)];
+  const outcomes = await mapWithConcurrency(
+    unique,
+    (id) => gmail.users.messages.trash({ userId: "me", id }),
+    { concurrency: TRASH_CONCURRENCY },
+  );
+
+  return outcomes.map((outcome, index) => {
+    if (outcome.ok) return { messageId: unique[index], ok: true };
+    if (isReauthError(outcome.error)) throw outcome.error;
+    console.error(`Failed to trash message ${unique[index]}`, outcome.error);
+    return { messageId: unique[index], ok: false, error: "Failed to move to trash" };
+  });
+}
+
+/**
+ * Sends every reply through a small pool, then applies the post-send actions
+ * with one batch per distinct label change. Each item reports its own outcome.
+ */
+export async function sendReplies(
+  gmail: gmail_v1.Gmail,
+  replies: BatchReply[],
+  selfAddress: string | null | undefined,
+): Promise<BatchItemResult[]> {
+  const outcomes = await mapWithConcurrency(
+    replies,
+    (reply) => deliverReply(gmail, reply, selfAddress),
+    { concurrency: SEND_CONCURRENCY, retryServerErrors: false },
+  );
+
+  // With dead credentials nothing went out; let the caller ask for re-consent.
+  const authFailure = outcomes.find((outcome) => !outcome.ok && isReauthError(outcome.error));
+  if (authFailure && !outcomes.some((outcome) => outcome.ok)) {
+    throw (authFailure as { error: unknown }).error;
+  }
+
+  const results = outcomes.map((outcome, index): BatchItemResult => {
+    const { messageId } = replies[index];
+    if (outcome.ok) return { messageId, ok: true };
+
+    console.error(`Failed to send reply to ${messageId}`, outcome.error);
+    return {
+      messageId,
+      ok: false,
+      error: outcome.error instanceof ValidationError ? outcome.error.message : "Failed to send reply",
+    };
+  });
+
+  const groups = new Map<string, { changes: LabelChanges; ids: string[] }>();
+  results.forEach((result, index) => {
+    if (!result.ok) return;
+    const changes = postSendLabelChanges(normalizePostSend(replies[index].postSend));
+    if (!changes.addLabelIds.length && !changes.removeLabelIds.length) return;
+    const key = JSON.stringify(changes);
+    const group = groups.get(key) ?? { changes, ids: [] };
+    group.ids.push(result.messageId);
+    groups.set(key, group);
+  });
+
+  for (const { changes, ids } of groups.values()) {
+    try {
+      await batchModifyMessages(gmail, ids, changes);
+    } catch (error) {
+      // The replies are out; failing to relabel shouldn't report them as unsent.
+      console.error("Failed to apply post-send actions", error);
+    }
+  }
+
+  return results;
+}
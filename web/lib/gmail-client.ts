@@ -0,0 +1,30 @@
+import { google, type gmail_v1 } from "googleapis";
+
+import { createGmailClient } from "@/lib/google";
+
+export type GmailClientFactory = (accessToken: string, refreshToken?: string) => gmail_v1.Gmail;
+
+let override: GmailClientFactory | null = null;
+
+/**
+ * Swaps the Gmail client every route and background job uses, e.g. for
+ * `FakeGmailBackend` in tests. Pass null to go back to the real API.
+ */
+export function setGmailClientFactory(factory: GmailClientFactory | null) {
+  override = factory;
+}
+
+export function gmailClient(accessToken: string, refreshToken?: string) {
+  return (override ?? createGmailClient)(accessToken, refreshToken);
+}
+
+/**
+ * A Google People (Contacts) client on the same tokens as `gmailClient`.
+ * Null while a fake Gmail client is swapped in, since nothing answers for it.
+ */
+export function peopleClient(accessToken: string, refreshToken?: string) {
+  if (override) return null;
+  const auth = new google.auth.OAuth2(process.env.GOOGLE_CLIENT_ID, process.env.GOOGLE_CLIENT_SECRET);
+  auth.setCredentials({ access_token: accessToken, refresh_token: refreshToken });
+  return google.people({ version: "v1", auth });
+}
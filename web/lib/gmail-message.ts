@@ -0,0 +1,155 @@
+import type { gmail_v1 } from "googleapis";
+
+export type MessageHeader = {
+  name?: string | null;
+  value?: string | null;
+};
+
+export type MessageAttachment = {
+  attachmentId: string | null;
+  partId: string | null;
+  filename: string;
+  mimeType: string;
+  size: number;
+};
+
+export type MessageContent = {
+  text: string | null;
+  html: string | null;
+  attachments: MessageAttachment[];
+};
+
+const BLOCKED_HTML_ELEMENTS = ["script", "iframe", "object", "embed", "form", "base", "meta", "link"];
+
+export function parseEmailAddress(headerValue: string | null | undefined) {
+  if (!headerValue) {
+    return { name: null, address: null };
+  }
+
+  const match = headerValue.match(/^(.*?)(?:\s*<(.+?)>)?$/);
+  if (!match) {
+    return { name: null, address: headerValue };
+  }
+
+  const name = match[2] ? match[1].replace(/"/g, "").trim() : null;
+  const address = match[2] ?? match[1];
+  return {
+    name: name?.length ? name : null,
+    address: address?.trim() ?? null,
+  };
+}
+
+export function headerValue(headers: MessageHeader[] | null | undefined, key: string) {
+  const lowerKey = key.toLowerCase();
+  return headers?.find((header) => header.name?.toLowerCase() === lowerKey)?.value ?? null;
+}
+
+function charsetOf(part: gmail_v1.Schema$MessagePart) {
+  const contentType = headerValue(part.headers, "Content-Type") ?? "";
+  return contentType.match(/charset="?([^";\s]+)"?/i)?.[1] ?? "utf-8";
+}
+
+export function decodeBase64Url(data: string, charset = "utf-8") {
+  const bytes = Buffer.from(data, "base64url");
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+/**
+ * Strips active content from an HTML body. The client still renders the
+ * result inside a sandboxed iframe, so this is a first line of defence rather
+ * than the only one.
+ */
+export function sanitizeHtml(html: string) {
+  let sanitized = html.replace(/<!--[\s\S]*?-->/g, "");
+
+  for (const element of BLOCKED_HTML_ELEMENTS) {
+    sanitized = sanitized
+      .replace(new RegExp(`<${element}\\b[^>]*>[\\s\\S]*?<\\/${element}\\s*>`, "gi"), "")
+      .replace(new RegExp(`<\\/?${element}\\b[^>]*>`, "gi"), "");
+  }
+
+  return sanitized
+    .replace(/\son[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, "")
+    .replace(/\s(href|src|action|formaction)\s*=\s*("|')?\s*(javascript|vbscript|data:text\/html)[^"'\s>]*("|')?/gi, "");
+}
+
+/**
+ * Walks a Gmail MIME tree (as returned by `format: "full"`) and collects the
+ * readable bodies and attachment metadata.
+ */
+export function extractMessageContent(payload: gmail_v1.Schema$MessagePart | null | undefined): MessageContent {
+  const textParts: string[] = [];
+  const htmlParts: string[] = [];
+  const attachments: MessageAttachment[] = [];
+
+  function walk(part: gmail_v1.Schema$MessagePart) {
+    const mimeType = part.mimeType?.toLowerCase() ?? "";
+
+    if (part.filename) {
+      attachments.push({
+        attachmentId: part.body?.attachmentId ?? null,
+        partId: part.partId ?? null,
+        filename: part.filename,
+        mimeType: mimeType || "application/octet-stream",
+        size: part.body?.size ?? 0,
+      });
+      return;
+    }
+
+    if (mimeType.startsWith("multipart/")) {
+      part.parts?.forEach(walk);
+      return;
+    }
+
+    const data = part.body?.data;
+    if (!data) return;
+
+    if (mimeType === "text/plain") {
+      textParts.push(decodeBase64Url(data, charsetOf(part)));
+    } else if (mimeType === "text/html") {
+      htmlParts.push(decodeBase64Url(data, charsetOf(part)));
+    }
+  }
+
+  if (payload) {
+    walk(payload);
+  }
+
+  return {
+    text: textParts.length ? textParts.join("\n") : null,
+    html: htmlParts.length ? sanitizeHtml(htmlParts.join("\n")) : null,
+    attachments,
+  };
+}
+
+/**
+ * Flattens a full-format Gmail message into the shape the UI renders.
+ */
+export function toFullMessage(message: gmail_v1.Schema$Message) {
+  const headers = message.payload?.headers ?? [];
+  const fromHeader = headerValue(headers, "From");
+  const { name, address } = parseEmailAddress(fromHeader);
+
+  return {
+    id: message.id ?? null,
+    threadId: message.threadId ?? null,
+    subject: headerValue(headers, "Subject") ?? "(no subject)",
+    from: fromHeader,
+    fromName: name,
+    fromAddress: address,
+    to: headerValue(headers, "To"),
+    cc: headerValue(headers, "Cc"),
+    date: headerValue(headers, "Date"),
+    internalDate: message.internalDate ?? null,
+    messageIdHeader: headerValue(headers, "Message-ID"),
+    labelIds: message.labelIds ?? [],
+    snippet: message.snippet ?? "",
+    ...extractMessageContent(message.payload),
+  };
+}
+
+export type FullMessage = ReturnType<typeof toFullMessage>;
@@ -0,0 +1,252 @@
+import type { gmail_v1 } from "googleapis";
+
+import type { CollabEvent } from "@/lib/collab";
+import { fetchInboxMessage, type InboxMessage } from "@/lib/inbox-message";
+import { errorStatus, mapWithConcurrency } from "@/lib/pool";
+import { readStore, updateStore } from "@/lib/store";
+
+/**
+ * Changes to a mailbox since the last sync. `labels` carries the message's
+ * current labels; `reset` means the history was too long (or too old) to
+ * replay and the inbox should be listed again.
+ */
+export type InboxEvent =
+  | { type: "added"; account: string; message: InboxMessage }
+  | { type: "labels"; account: string; message: InboxMessage }
+  | { type: "removed"; account: string; id: string }
+  | { type: "reset"; account: string };
+
+/** What the events stream sends: inbox and teammate changes, or a failure that ends it. */
+export type InboxStreamEvent = InboxEvent | CollabEvent | { type: "error"; code: string; account?: string };
+
+type Listener = (event: InboxEvent) => void;
+
+type HistoryCursor = {
+  historyId: string;
+  /** When the Pub/Sub watch on this mailbox lapses, if one was started. */
+  watchExpiresAt: number | null;
+  updatedAt: string;
+};
+
+type CursorStore = Record<string, HistoryCursor>;
+
+const STORE = "history-cursors";
+const HISTORY_TYPES = ["messageAdded", "messageDeleted", "labelAdded", "labelRemoved"];
+// Past this many changed messages a fresh listing is cheaper than fetching each one.
+const MAX_CHANGED_MESSAGES = 50;
+const FETCH_CONCURRENCY = 5;
+// Gmail watches last 7 days; renewing a day early keeps pushes flowing without a gap.
+const WATCH_RENEW_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+type Subscription = {
+  listeners: Set<Listener>;
+  /** The most recently subscribed client, used to sync on push notifications. */
+  gmail: gmail_v1.Gmail;
+};
+
+const subscriptions = new Map<string, Subscription>();
+const syncs = new Map<string, Promise<unknown>>();
+
+export function pushConfigured() {
+  return Boolean(process.env.GMAIL_PUBSUB_TOPIC);
+}
+
+/** Registers for a mailbox's events; returns the unsubscribe function. */
+export function subscribe(mailbox: { email: string; gmail: gmail_v1.Gmail }, listener: Listener) {
+  const key = mailbox.email.toLowerCase();
+  const subscription = subscriptions.get(key) ?? { listeners: new Set<Listener>(), gmail: mailbox.gmail };
+  subscription.listeners.add(listener);
+  subscription.gmail = mailbox.gmail;
+  subscriptions.set(key, subscription);
+
+  return () => {
+    subscription.listeners.delete(listener);
+    if (!subscription.listeners.size) subscriptions.delete(key);
+  };
+}
+
+function publish(email: string, events: InboxEvent[]) {
+  for (const listener of subscriptions.get(email)?.listeners ?? []) {
+    events.forEach((event) => listener(event));
+  }
+}
+
+async function saveCursor(email: string, changes: Partial<HistoryCursor> & { historyId: string }) {
+  await updateStore<CursorStore>(STORE, {}, (cursors) => ({
+    ...cursors,
+    [email]: {
+      watchExpiresAt: cursors[email]?.watchExpiresAt ?? null,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    },
+  }));
+}
+
+async function profileHistoryId(gmail: gmail_v1.Gmail) {
+  const { data } = await gmail.users.getProfile({ userId: "me" });
+  return data.historyId ?? null;
+}
+
+async function readHistory(gmail: gmail_v1.Gmail, startHistoryId: string) {
+  const records: gmail_v1.Schema$History[] = [];
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    const { data } = await gmail.users.history.list({
+      userId: "me",
+      startHistoryId,
+      historyTypes: HISTORY_TYPES,
+      maxResults: 500,
+      pageToken,
+    });
+    records.push(...(data.history ?? []));
+    historyId = data.historyId ?? historyId;
+    pageToken = data.nextPageToken ?? undefined;
+  } while (pageToken);
+
+  return { records, historyId };
+}
+
+/** Collapses history records into the final state per message. */
+function changedMessages(records: gmail_v1.Schema$History[]) {
+  const added = new Set<string>();
+  const deleted = new Set<string>();
+  const changed = new Map<string, string | null>();
+
+  for (const record of records) {
+    for (const { message } of record.messagesAdded ?? []) {
+      if (!message?.id) continue;
+      added.add(message.id);
+      changed.set(message.id, message.threadId ?? null);
+    }
+    for (const { message } of [...(record.labelsAdded ?? []), ...(record.labelsRemoved ?? [])]) {
+      if (message?.id) changed.set(message.id, message.threadId ?? null);
+    }
+    for (const { message } of record.messagesDeleted ?? []) {
+      if (message?.id) deleted.add(message.id);
+    }
+  }
+
+  deleted.forEach((id) => changed.delete(id));
+  return { added, deleted, changed };
+}
+
+async function runSync(email: string, gmail: gmail_v1.Gmail): Promise<InboxEvent[]> {
+  const cursor = (await readStore<CursorStore>(STORE, {}))[email];
+
+  // The first sync only records where we are; the page has just listed the inbox.
+  if (!cursor) {
+    const historyId = await profileHistoryId(gmail);
+    if (historyId) await saveCursor(email, { historyId });
+    return [];
+  }
+
+  let history: Awaited<ReturnType<typeof readHistory>>;
+  try {
+    history = await readHistory(gmail, cursor.historyId);
+  } catch (error) {
+    // Gmail answers 404 once a history id is older than it keeps (about a week).
+    if (errorStatus(error) !== 404) throw error;
+    const historyId = await profileHistoryId(gmail);
+    if (historyId) await saveCursor(email, { historyId });
+    return [{ type: "reset", account: email }];
+  }
+
+  const { added, deleted, changed } = changedMessages(history.records);
+  const events: InboxEvent[] = [];
+
+  if (changed.size + deleted.size > MAX_CHANGED_MESSAGES) {
+    events.push({ type: "reset", account: email });
+  } else {
+    deleted.forEach((id) => events.push({ type: "removed", account: email, id }));
+
+    const entries = [...changed];
+    const fetched = await mapWithConcurrency(
+      entries,
+      ([id, threadId]) => fetchInboxMessage(gmail, email, id, threadId),
+      { concurrency: FETCH_CONCURRENCY },
+    );
+
+    fetched.forEach((result, index) => {
+      const [id] = entries[index];
+      if (result.ok) {
+        events.push({ type: added.has(id) ? "added" : "labels", account: email, message: result.value });
+      } else if (errorStatus(result.error) === 404) {
+        // Deleted after the history was read.
+        events.push({ type: "removed", account: email, id });
+      } else {
+        console.error("Failed to load changed Gmail message", result.error);
+      }
+    });
+  }
+
+  await saveCursor(email, { historyId: history.historyId });
+  return events;
+}
+
+/**
+ * Reads the mailbox's Gmail history since the stored `historyId`, advances
+ * it, and publishes the resulting events to subscribers. Syncs of the same
+ * mailbox run one at a time so two triggers can't replay the same records.
+ */
+export function syncMailbox(email: string, gmail: gmail_v1.Gmail) {
+  const key = email.toLowerCase();
+  const previous = syncs.get(key) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const events = await runSync(key, gmail);
+      publish(key, events);
+      return events;
+    });
+
+  syncs.set(key, next);
+  return next;
+}
+
+/**
+ * Syncs a mailbox someone is streaming, e.g. on a push notification. Returns
+ * null when nobody is: the next stream to open replays from the stored cursor.
+ */
+export function syncSubscribed(email: string) {
+  const subscription = subscriptions.get(email.toLowerCase());
+  return subscription ? syncMailbox(email, subscription.gmail) : null;
+}
+
+/**
+ * Starts (or renews) Gmail push notifications to `GMAIL_PUBSUB_TOPIC` for a
+ * mailbox. A no-op without a topic, or while the current watch has time left.
+ */
+export async function ensureWatch(email: string, gmail: gmail_v1.Gmail) {
+  const topicName = process.env.GMAIL_PUBSUB_TOPIC;
+  if (!topicName) return false;
+
+  const key = email.toLowerCase();
+  const cursor = (await readStore<CursorStore>(STORE, {}))[key];
+  if (cursor?.watchExpiresAt && cursor.watchExpiresAt - Date.now() > WATCH_RENEW_MARGIN_MS) {
+    return true;
+  }
+
+  const { data } = await gmail.users.watch({ userId: "me", requestBody: { topicName } });
+  const historyId = cursor?.historyId ?? data.historyId;
+  if (historyId) {
+    await saveCursor(key, { historyId, watchExpiresAt: data.expiration ? Number(data.expiration) : null });
+  }
+  return true;
+}
+
+/** The mailbox a Pub/Sub push is about, or null for anything else. */
+export function parsePushNotification(body: unknown) {
+  const data = (body as { message?: { data?: unknown } } | null)?.message?.data;
+  if (typeof data !== "string") return null;
+
+  try {
+    const { emailAddress } = JSON.parse(Buffer.from(data, "base64").toString("utf8")) as {
+      emailAddress?: unknown;
+    };
+    return typeof emailAddress === "string" ? emailAddress.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
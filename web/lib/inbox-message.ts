@@ -0,0 +1,71 @@
+import type { gmail_v1 } from "googleapis";
+
+import { headerValue, parseEmailAddress } from "@/lib/gmail-message";
+import { splitAddressList } from "@/lib/mime";
+import { messageSignals, SIGNAL_HEADERS, type MessagePriority, type MessageSignals } from "@/lib/priority";
+
+const METADATA_HEADERS = ["Subject", "From", "To", "Cc", "Delivered-To", "Date", "Message-ID", ...SIGNAL_HEADERS];
+
+/** The inbox-card view of a message, as listed and streamed to the page. */
+export type InboxMessage = {
+  id: string;
+  account: string | null;
+  threadId: string | null;
+  subject: string;
+  from: string | null;
+  fromName: string | null;
+  fromAddress: string | null;
+  /** Lowercased To, Cc and Delivered-To addresses, for picking the send-as alias. */
+  recipients: string[];
+  snippet: string;
+  internalDate: string | null;
+  date: string | null;
+  messageIdHeader: string | null;
+  labelIds: string[];
+  signals: MessageSignals;
+  /** Added by the list route and events stream for the signed-in user; see `withPriority`. */
+  priority?: MessagePriority;
+};
+
+export async function fetchInboxMessage(
+  gmail: gmail_v1.Gmail,
+  account: string | null,
+  id: string,
+  threadId?: string | null,
+): Promise<InboxMessage> {
+  const detail = await gmail.users.messages.get({
+    userId: "me",
+    id,
+    format: "metadata",
+    metadataHeaders: METADATA_HEADERS,
+  });
+
+  const headers = detail.data.payload?.headers ?? [];
+  const fromHeader = headerValue(headers, "From");
+  const { name, address } = parseEmailAddress(fromHeader);
+
+  return {
+    id,
+    account,
+    threadId: threadId ?? detail.data.threadId ?? null,
+    subject: headerValue(headers, "Subject") ?? "(no subject)",
+    from: fromHeader,
+    fromName: name,
+    fromAddress: address,
+    recipients: [
+      ...new Set(
+        ["To", "Cc", "Delivered-To"].flatMap((name) =>
+          splitAddressList(headerValue(headers, name)).flatMap(
+            (entry) => parseEmailAddress(entry).address?.toLowerCase() ?? [],
+          ),
+        ),
+      ),
+    ],
+    snippet: detail.data.snippet ?? "",
+    internalDate: detail.data.internalDate ?? null,
+    date: headerValue(headers, "Date"),
+    messageIdHeader: headerValue(headers, "Message-ID"),
+    labelIds: detail.data.labelIds ?? [],
+    signals: messageSignals(headers),
+  };
+}
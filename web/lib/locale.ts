@@ -0,0 +1,88 @@
+export type ReplyLocale = "en" | "de" | "es" | "fr";
+
+export const DEFAULT_LOCALE: ReplyLocale = "en";
+
+export const REPLY_LOCALES: { id: ReplyLocale; label: string }[] = [
+  { id: "en", label: "English" },
+  { id: "de", label: "Deutsch" },
+  { id: "es", label: "Español" },
+  { id: "fr", label: "Français" },
+];
+
+// Short, frequent words. One listed under several languages counts for each of them in equal shares.
+const STOPWORDS: Record<ReplyLocale, string[]> = {
+  en: ["the", "and", "you", "your", "for", "with", "this", "that", "have", "are", "please", "thanks", "hi", "would", "could", "will", "about", "what", "when", "can"],
+  de: ["und", "der", "die", "das", "ich", "sie", "nicht", "mit", "für", "ist", "auf", "eine", "ein", "es", "wir", "ihnen", "bitte", "danke", "hallo", "können", "gerne", "vielen", "grüße", "noch", "auch"],
+  es: ["el", "la", "los", "las", "que", "de", "del", "por", "para", "con", "una", "es", "usted", "gracias", "hola", "saludos", "podría", "puede", "pero", "muy", "está", "como", "su", "nos", "sobre", "pregunta", "factura"],
+  fr: ["le", "la", "les", "des", "est", "et", "vous", "nous", "pour", "avec", "une", "pas", "que", "merci", "bonjour", "cordialement", "pourriez", "votre", "vos", "nos", "sur", "dans", "je", "au", "aux", "de", "du", "pouvez", "facture", "demain"],
+};
+
+const LETTER_HINTS: Partial<Record<ReplyLocale, RegExp>> = {
+  de: /[äöüß]/g,
+  es: /[ñ¿¡]/g,
+  fr: /[çœàéèêëîïûù]/g,
+};
+
+// Below this many matched words the text is too short to call, so English is assumed.
+const MIN_SCORE = 2;
+
+const STOPWORD_WEIGHTS = new Map<string, Map<ReplyLocale, number>>();
+for (const [locale, words] of Object.entries(STOPWORDS) as [ReplyLocale, string[]][]) {
+  for (const word of words) {
+    const weights = STOPWORD_WEIGHTS.get(word) ?? new Map<ReplyLocale, number>();
+    weights.set(locale, 1);
+    STOPWORD_WEIGHTS.set(word, weights);
+  }
+}
+for (const weights of STOPWORD_WEIGHTS.values()) {
+  for (const locale of weights.keys()) weights.set(locale, 1 / weights.size);
+}
+
+export function isReplyLocale(value: unknown): value is ReplyLocale {
+  return REPLY_LOCALES.some((locale) => locale.id === value);
+}
+
+export function localeLabel(locale: ReplyLocale) {
+  return REPLY_LOCALES.find((entry) => entry.id === locale)?.label ?? locale;
+}
+
+/**
+ * Guesses the language of a short text (subject and snippet) by counting
+ * common words and language-specific letters. Offline and cheap enough to run
+ * on every card; falls back to English when nothing stands out or two
+ * languages score the same.
+ */
+export function detectLanguage(text: string | null | undefined): ReplyLocale {
+  const lower = (text ?? "").toLowerCase();
+  const scores = new Map<ReplyLocale, number>();
+
+  for (const word of lower.match(/[\p{L}]+/gu) ?? []) {
+    for (const [locale, weight] of STOPWORD_WEIGHTS.get(word) ?? []) {
+      scores.set(locale, (scores.get(locale) ?? 0) + weight);
+    }
+  }
+  for (const [locale, hints] of Object.entries(LETTER_HINTS) as [ReplyLocale, RegExp][]) {
+    scores.set(locale, (scores.get(locale) ?? 0) + (lower.match(hints)?.length ?? 0));
+  }
+
+  const [best, runnerUp] = [...scores].sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] < MIN_SCORE || (runnerUp && runnerUp[1] === best[1])) return DEFAULT_LOCALE;
+  return best[0];
+}
+
+/**
+ * The name to greet someone by: the given name from "Jane Doe", "Doe, Jane"
+ * or the French-style "DUPONT Marie" with the surname in capitals.
+ */
+export function givenName(name: string | null | undefined) {
+  const trimmed = name?.trim().replace(/^"|"$/g, "");
+  if (!trimmed) return null;
+  if (trimmed.includes(",")) return trimmed.split(",")[1]?.trim().split(/\s+/)[0] || trimmed;
+
+  const parts = trimmed.split(/\s+/);
+  const capitalised = parts.filter((part) => /^\p{Lu}[\p{Lu}'-]+$/u.test(part));
+  if (capitalised.length && capitalised.length < parts.length) {
+    return parts.find((part) => !capitalised.includes(part)) ?? parts[0];
+  }
+  return parts[0];
+}
@@ -0,0 +1,65 @@
+import type { gmail_v1, people_v1 } from "googleapis";
+import type { Session } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { getAccount, gmailForAccount, isLinked } from "@/lib/accounts";
+import { gmailClient, peopleClient } from "@/lib/gmail-client";
+
+/** The Gmail inbox a request acts on, with a client authorised for it. */
+export type Mailbox = {
+  email: string | null;
+  name: string | null;
+  primary: boolean;
+  gmail: gmail_v1.Gmail;
+  /** Google Contacts for the same account; null when it can't be reached (the offline fake). */
+  people: people_v1.People | null;
+};
+
+/** The `?account=` selector every `/api/gmail/*` route accepts. */
+export function requestedAccount(request: Request) {
+  return new URL(request.url).searchParams.get("account")?.trim().toLowerCase() || null;
+}
+
+/**
+ * Resolves `account` for the signed-in user: no selector (or their own
+ * address) uses the session's tokens, a linked inbox uses its stored tokens,
+ * and anything else resolves to null.
+ */
+export async function mailboxFor(session: Session, account: string | null | undefined): Promise<Mailbox | null> {
+  const owner = session.user?.email?.toLowerCase() ?? null;
+
+  if (!account || account === owner) {
+    if (!session.accessToken) return null;
+    return {
+      email: owner,
+      name: session.user?.name ?? null,
+      primary: true,
+      gmail: gmailClient(session.accessToken, session.refreshToken),
+      people: peopleClient(session.accessToken, session.refreshToken),
+    };
+  }
+
+  if (!owner || !(await isLinked(owner, account))) return null;
+
+  const stored = await getAccount(account);
+  if (!stored) return null;
+
+  return {
+    email: stored.email,
+    name: stored.name,
+    primary: false,
+    gmail: gmailForAccount(stored),
+    people: peopleClient(stored.accessToken, stored.refreshToken ?? undefined),
+  };
+}
+
+export function mailboxForRequest(session: Session, request: Request) {
+  return mailboxFor(session, requestedAccount(request));
+}
+
+export function unknownAccount() {
+  return NextResponse.json(
+    { error: "That account isn't linked to you" },
+    { status: 403 },
+  );
+}
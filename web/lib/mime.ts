@@ -0,0 +1,260 @@
+import { randomUUID } from "node:crypto";
+
+import { parseEmailAddress } from "@/lib/gmail-message";
+
+export type MimeAttachment = {
+  filename: string;
+  mimeType?: string | null;
+  /** Base64 (standard or url-safe) encoded file contents. */
+  data: string;
+};
+
+export type ComposeMessageInput = {
+  from?: string | null;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  text: string;
+  html?: string | null;
+  inReplyTo?: string | null;
+  references?: string[];
+  attachments?: MimeAttachment[];
+};
+
+const CRLF = "\r\n";
+const MAX_LINE_LENGTH = 76;
+const MAX_ENCODED_WORD_BYTES = 39;
+
+function isAscii(value: string) {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+function wrap(value: string, width = MAX_LINE_LENGTH) {
+  const lines: string[] = [];
+  for (let index = 0; index < value.length; index += width) {
+    lines.push(value.slice(index, index + width));
+  }
+  return lines.join(CRLF);
+}
+
+function normalizeNewlines(value: string) {
+  return value.replace(/\r?\n/g, CRLF);
+}
+
+/**
+ * Collapses line breaks in a value bound for a header. Subjects and
+ * recipients come from request payloads, and a bare CR/LF would let them
+ * start headers of their own.
+ */
+function singleLine(value: string) {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+function quoteParameter(value: string) {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+/**
+ * Encodes a header value as RFC 2047 encoded-words when it contains
+ * non-ASCII characters, splitting on code points so no word exceeds the
+ * 75 character limit.
+ */
+export function encodeHeaderValue(input: string) {
+  const value = singleLine(input);
+  if (isAscii(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = "";
+
+  for (const character of value) {
+    if (Buffer.byteLength(chunk + character, "utf8") > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += character;
+  }
+
+  if (chunk) {
+    words.push(chunk);
+  }
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`)
+    .join(`${CRLF} `);
+}
+
+export function formatAddress(displayName: string | null | undefined, emailAddress: string) {
+  const address = singleLine(emailAddress);
+  const name = displayName ? singleLine(displayName) : null;
+  if (!name) {
+    return address;
+  }
+
+  if (!isAscii(name)) {
+    return `${encodeHeaderValue(name)} <${address}>`;
+  }
+
+  const quoted = /[()<>\[\]:;@\\,."]/.test(name) ? quoteParameter(name) : name;
+  return `${quoted} <${address}>`;
+}
+
+/**
+ * Splits an address list header ("A <a@x>, \"B, Jr\" <b@y>") on the commas
+ * that separate mailboxes, ignoring commas inside quotes or angle brackets.
+ */
+export function splitAddressList(value: string | null | undefined) {
+  if (!value) {
+    return [];
+  }
+
+  const entries: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (const character of value) {
+    if (character === "\"") inQuotes = !inQuotes;
+    if (!inQuotes && character === "<") inAngle = true;
+    if (!inQuotes && character === ">") inAngle = false;
+
+    if (character === "," && !inQuotes && !inAngle) {
+      entries.push(current);
+      current = "";
+    } else {
+      current += character;
+    }
+  }
+
+  entries.push(current);
+  return entries.map((entry) => entry.trim()).filter(Boolean);
+}
+
+function encodeAddressList(addresses: string[]) {
+  return addresses
+    .map((entry) => {
+      const { name, address } = parseEmailAddress(entry);
+      return address ? formatAddress(name, address) : singleLine(entry);
+    })
+    .join(", ");
+}
+
+export function replySubject(subject: string) {
+  return /^re:/i.test(subject.trim()) ? subject.trim() : `Re: ${subject.trim()}`;
+}
+
+/**
+ * Builds the References chain for a reply: the parent's own References
+ * followed by the parent Message-ID, de-duplicated and in order.
+ */
+export function buildReferences(parentReferences: string | null | undefined, parentMessageId: string | null | undefined) {
+  const ids = [
+    ...(parentReferences?.match(/<[^>]+>/g) ?? []),
+    ...(parentMessageId ? [parentMessageId.trim()] : []),
+  ];
+  return Array.from(new Set(ids));
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function textToHtml(text: string) {
+  const paragraphs = text
+    .trim()
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, "<br>")}</p>`);
+  return `<div dir="auto">${paragraphs.join("")}</div>`;
+}
+
+function textPart(mimeType: string, content: string) {
+  const normalized = normalizeNewlines(content);
+  const needsBase64 = !isAscii(normalized) || normalized.split(CRLF).some((line) => line.length > 998);
+
+  return [
+    `Content-Type: ${mimeType}; charset="UTF-8"`,
+    `Content-Transfer-Encoding: ${needsBase64 ? "base64" : "7bit"}`,
+    "",
+    needsBase64 ? wrap(Buffer.from(normalized, "utf8").toString("base64")) : normalized,
+  ].join(CRLF);
+}
+
+/** RFC 2231 for non-ASCII names, so the quoted form only ever holds ASCII. */
+function encodeFilenameParameter(parameter: "name" | "filename", filename: string) {
+  if (isAscii(filename)) {
+    return `${parameter}=${quoteParameter(filename)}`;
+  }
+  return `${parameter}*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function attachmentPart(attachment: MimeAttachment) {
+  const data = Buffer.from(attachment.data, "base64").toString("base64");
+  const filename = singleLine(attachment.filename);
+  const mimeType = attachment.mimeType && /^[\w.+-]+\/[\w.+-]+$/.test(attachment.mimeType)
+    ? attachment.mimeType
+    : "application/octet-stream";
+
+  return [
+    `Content-Type: ${mimeType}; ${encodeFilenameParameter("name", filename)}`,
+    `Content-Disposition: attachment; ${encodeFilenameParameter("filename", filename)}`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrap(data),
+  ].join(CRLF);
+}
+
+function multipart(subtype: string, parts: string[]) {
+  const boundary = `=_${subtype}_${randomUUID()}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+/**
+ * Composes an RFC 5322 message with a text/plain + text/html alternative
+ * body and optional attachments.
+ */
+export function composeMessage(input: ComposeMessageInput) {
+  const headers = ["MIME-Version: 1.0"];
+
+  if (input.from) headers.push(`From: ${encodeAddressList([input.from])}`);
+  headers.push(`To: ${encodeAddressList(input.to)}`);
+  if (input.cc?.length) headers.push(`Cc: ${encodeAddressList(input.cc)}`);
+  if (input.bcc?.length) headers.push(`Bcc: ${encodeAddressList(input.bcc)}`);
+  headers.push(`Subject: ${encodeHeaderValue(input.subject)}`);
+
+  if (input.inReplyTo) {
+    headers.push(`In-Reply-To: ${singleLine(input.inReplyTo)}`);
+  }
+  if (input.references?.length) {
+    headers.push(`References: ${input.references.map(singleLine).join(`${CRLF} `)}`);
+  }
+
+  const alternative = multipart("alternative", [
+    textPart("text/plain", input.text),
+    textPart("text/html", input.html ?? textToHtml(input.text)),
+  ]);
+
+  const body = input.attachments?.length
+    ? multipart("mixed", [alternative, ...input.attachments.map(attachmentPart)])
+    : alternative;
+
+  return [...headers, body].join(CRLF);
+}
+
+/**
+ * Composes a message and encodes it as the base64url `raw` string the Gmail
+ * API expects.
+ */
+export function encodeRawMessage(input: ComposeMessageInput) {
+  return Buffer.from(composeMessage(input), "utf8").toString("base64url");
+}
@@ -0,0 +1,93 @@
+export type PoolResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: unknown };
+
+export type RetryOptions = {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /**
+   * Retry 5xx responses as well as 429s. Turn this off for non-idempotent
+   * calls such as sending mail, where a 5xx may still have gone through.
+   */
+  retryServerErrors?: boolean;
+};
+
+export type PoolOptions = RetryOptions & {
+  concurrency?: number;
+};
+
+type HttpError = {
+  code?: number | string;
+  status?: number;
+  response?: { status?: number; headers?: Record<string, string | undefined> };
+};
+
+export function errorStatus(error: unknown) {
+  if (!error || typeof error !== "object") return null;
+  const { code, status, response } = error as HttpError;
+  const value = response?.status ?? status ?? (typeof code === "number" ? code : Number(code));
+  return Number.isFinite(value) ? Number(value) : null;
+}
+
+function retryAfterMs(error: unknown) {
+  const header = (error as HttpError | null)?.response?.headers?.["retry-after"];
+  const seconds = header ? Number(header) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+export function isRetryableError(error: unknown, retryServerErrors = true) {
+  const status = errorStatus(error);
+  if (status === 429) return true;
+  return retryServerErrors && status !== null && status >= 500 && status < 600;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `operation`, retrying rate-limit (and optionally server) errors with
+ * exponential backoff and full jitter. Honours `Retry-After` when Gmail sends it.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 4, baseDelayMs = 500, maxDelayMs = 8000, retryServerErrors = true } = options;
+
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error, retryServerErrors)) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(retryAfterMs(error) ?? Math.random() * backoff);
+    }
+  }
+}
+
+/**
+ * Maps `items` through `worker` with at most `concurrency` calls in flight,
+ * retrying each call per `withRetry`. Results keep input order, and one item
+ * failing never stops the rest.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: PoolOptions = {},
+): Promise<PoolResult<R>[]> {
+  const { concurrency = 5, ...retry } = options;
+  const results = new Array<PoolResult<R>>(items.length);
+  let next = 0;
+
+  async function drain() {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = { ok: true, value: await withRetry(() => worker(items[index], index), retry) };
+      } catch (error) {
+        results[index] = { ok: false, error };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, drain));
+  return results;
+}
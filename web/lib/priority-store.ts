@@ -0,0 +1,50 @@
+import { listReplyEvents } from "@/lib/analytics-store";
+import {
+  EMPTY_MODEL,
+  learnCategory,
+  scoreMessage,
+  type MessageCategory,
+  type PriorityContext,
+  type PriorityModel,
+  type ScorableMessage,
+} from "@/lib/priority";
+import { readStore, updateStore } from "@/lib/store";
+
+// owner -> what they've taught the classifier
+type PriorityModelStore = Record<string, PriorityModel>;
+
+const STORE = "priority-models";
+
+/** The owner's corrections and reply counts, loaded once per request and shared by every message scored. */
+export async function loadPriorityContext(owner: string | null | undefined): Promise<PriorityContext> {
+  if (!owner) return { model: EMPTY_MODEL, repliesBySender: {} };
+
+  const [store, events] = await Promise.all([
+    readStore<PriorityModelStore>(STORE, {}),
+    listReplyEvents(owner),
+  ]);
+
+  const repliesBySender: Record<string, number> = {};
+  for (const event of events) {
+    if (event.sender) repliesBySender[event.sender] = (repliesBySender[event.sender] ?? 0) + 1;
+  }
+
+  return { model: store[owner] ?? EMPTY_MODEL, repliesBySender };
+}
+
+export async function withPriority<T extends ScorableMessage>(owner: string | null | undefined, messages: T[]) {
+  const context = await loadPriorityContext(owner);
+  const now = new Date();
+  return messages.map((message) => ({ ...message, priority: scoreMessage(message, context, now) }));
+}
+
+/** Files `message` under `category` for `owner` and returns its new score. */
+export async function correctCategory(owner: string, message: ScorableMessage, category: MessageCategory) {
+  await updateStore<PriorityModelStore>(STORE, {}, (store) => ({
+    ...store,
+    [owner]: learnCategory(store[owner] ?? EMPTY_MODEL, message, category),
+  }));
+
+  const [scored] = await withPriority(owner, [message]);
+  return scored.priority;
+}
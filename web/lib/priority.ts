@@ -0,0 +1,428 @@
+import { headerValue, type MessageHeader } from "@/lib/gmail-message";
+import { splitAddressList } from "@/lib/mime";
+import { headerIssues, SAFETY_HEADERS, type SafetyIssueCode } from "@/lib/reply-safety";
+
+export type MessageCategory = "support" | "meeting" | "invoice" | "newsletter" | "automated" | "other";
+
+export const MESSAGE_CATEGORIES: { id: MessageCategory; label: string }[] = [
+  { id: "support", label: "Support request" },
+  { id: "meeting", label: "Meeting" },
+  { id: "invoice", label: "Invoice" },
+  { id: "newsletter", label: "Newsletter" },
+  { id: "automated", label: "Automated" },
+  { id: "other", label: "Other" },
+];
+
+/** What the headers say about a message, collected when it is listed so scoring needs no extra calls. */
+export type MessageSignals = {
+  /** Codes from the reply safety checks: mailing-list, auto-submitted, bulk and no-reply. */
+  automated: SafetyIssueCode[];
+  highImportance: boolean;
+  /** Addresses in To and Cc together. */
+  recipientCount: number;
+};
+
+export type PriorityReason = {
+  label: string;
+  /** Points added to (or taken off) the score. */
+  weight: number;
+};
+
+export type MessagePriority = {
+  /** 0 (can wait) to 100 (answer now). */
+  score: number;
+  category: MessageCategory;
+  /** Biggest effect first. */
+  reasons: PriorityReason[];
+  /** True when the category comes from the user's own corrections. */
+  learned: boolean;
+};
+
+/** What a user has taught the classifier by correcting categories. */
+export type PriorityModel = {
+  /** Sender address -> the category the user last filed their mail under. */
+  senders: Record<string, MessageCategory>;
+  /** Category -> word -> how often it appeared in messages filed there. */
+  tokens: Partial<Record<MessageCategory, Record<string, number>>>;
+  corrections: number;
+};
+
+export type PriorityContext = {
+  model: PriorityModel;
+  /** Replies the user has sent per sender address, from the analytics log. */
+  repliesBySender: Record<string, number>;
+};
+
+/** The parts of an inbox message the classifier reads. */
+export type ScorableMessage = {
+  subject: string;
+  snippet: string;
+  fromAddress: string | null;
+  labelIds: string[];
+  internalDate: string | null;
+  signals?: MessageSignals | null;
+};
+
+type KeywordCategory = Exclude<MessageCategory, "other">;
+
+export const EMPTY_MODEL: PriorityModel = { senders: {}, tokens: {}, corrections: 0 };
+
+/** Headers `messageSignals` reads, on top of the ones every inbox message fetches. */
+export const SIGNAL_HEADERS = [...SAFETY_HEADERS.filter((name) => name !== "From"), "Importance", "X-Priority", "Priority"];
+
+const BASE_SCORE = 40;
+
+const CATEGORY_WEIGHTS: Record<MessageCategory, number> = {
+  support: 20,
+  meeting: 10,
+  invoice: 5,
+  other: 0,
+  automated: -20,
+  newsletter: -25,
+};
+
+// Single words or short phrases, matched on word boundaries in the subject and snippet.
+const CATEGORY_KEYWORDS: Record<KeywordCategory, string[]> = {
+  support: [
+    "help",
+    "issue",
+    "problem",
+    "error",
+    "bug",
+    "broken",
+    "not working",
+    "doesn't work",
+    "can't",
+    "cannot",
+    "unable",
+    "refund",
+    "complaint",
+    "support",
+    "ticket",
+    "crash",
+    "fix",
+  ],
+  meeting: [
+    "meeting",
+    "call",
+    "calendar",
+    "invite",
+    "invitation",
+    "schedule",
+    "reschedule",
+    "agenda",
+    "zoom",
+    "availability",
+    "available",
+    "catch up",
+    "sync",
+  ],
+  invoice: [
+    "invoice",
+    "receipt",
+    "payment",
+    "billing",
+    "bill",
+    "statement",
+    "amount due",
+    "overdue",
+    "purchase order",
+    "remittance",
+    "paid",
+  ],
+  newsletter: ["newsletter", "digest", "weekly", "monthly", "edition", "unsubscribe", "roundup", "webinar", "issue #"],
+  automated: [
+    "notification",
+    "alert",
+    "verification",
+    "verify",
+    "password",
+    "sign-in",
+    "login",
+    "confirm",
+    "confirmation",
+    "security code",
+    "do not reply",
+    "automated",
+    "delivery status",
+  ],
+};
+
+const URGENT_KEYWORDS = [
+  "urgent",
+  "asap",
+  "immediately",
+  "emergency",
+  "outage",
+  "down",
+  "critical",
+  "deadline",
+  "today",
+  "eod",
+  "blocked",
+  "time-sensitive",
+];
+
+// Evidence from the headers and Gmail's own tabs, in the same units as a keyword in the snippet.
+const SIGNAL_EVIDENCE: Partial<Record<SafetyIssueCode, { category: KeywordCategory; weight: number; label: string }>> = {
+  "mailing-list": { category: "newsletter", weight: 3, label: "sent to a mailing list" },
+  bulk: { category: "newsletter", weight: 2, label: "marked as bulk mail" },
+  "auto-submitted": { category: "automated", weight: 3, label: "generated automatically" },
+  "no-reply": { category: "automated", weight: 2, label: "sent from a no-reply address" },
+};
+
+// Header issue codes `messageSignals` can report as automated.
+const AUTOMATED_CODES: SafetyIssueCode[] = ["mailing-list", "auto-submitted", "bulk", "no-reply"];
+
+const LABEL_EVIDENCE: Record<string, { category: KeywordCategory; weight: number; label: string }> = {
+  CATEGORY_PROMOTIONS: { category: "newsletter", weight: 2, label: "in Gmail's Promotions tab" },
+  CATEGORY_FORUMS: { category: "newsletter", weight: 1, label: "in Gmail's Forums tab" },
+  CATEGORY_UPDATES: { category: "automated", weight: 1, label: "in Gmail's Updates tab" },
+};
+
+const SUBJECT_KEYWORD_WEIGHT = 2;
+const SNIPPET_KEYWORD_WEIGHT = 1;
+// Below this much evidence a message stays "other" rather than guessing.
+const MIN_CATEGORY_EVIDENCE = 2;
+// Each learned word adds at most about this much evidence, growing slowly with repeat corrections.
+const LEARNED_TOKEN_WEIGHT = 0.5;
+const MAX_LEARNED_TOKENS = 40;
+const MAX_TOKENS_PER_CATEGORY = 500;
+const MAX_LISTED_KEYWORDS = 3;
+const MANY_RECIPIENTS = 10;
+const WAITING_MS = 24 * 60 * 60 * 1000;
+
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "you",
+  "your",
+  "with",
+  "this",
+  "that",
+  "are",
+  "was",
+  "have",
+  "has",
+  "from",
+  "our",
+  "not",
+  "but",
+  "can",
+  "will",
+  "just",
+  "all",
+  "any",
+  "hi",
+  "hello",
+  "thanks",
+  "thank",
+  "regards",
+  "please",
+  "re",
+  "fwd",
+]);
+
+export function isMessageCategory(value: unknown): value is MessageCategory {
+  return MESSAGE_CATEGORIES.some((category) => category.id === value);
+}
+
+export function categoryLabel(category: MessageCategory) {
+  return MESSAGE_CATEGORIES.find((entry) => entry.id === category)?.label ?? category;
+}
+
+/** Reads list, automation and importance headers into the signals kept on each inbox message. */
+export function messageSignals(headers: MessageHeader[] | null | undefined): MessageSignals {
+  const importance = headerValue(headers, "Importance")?.trim().toLowerCase();
+  const priority = headerValue(headers, "X-Priority") ?? headerValue(headers, "Priority");
+
+  return {
+    automated: headerIssues(headers).map((issue) => issue.code),
+    highImportance: importance === "high" || /^\s*[12]\b/.test(priority ?? "") || /^\s*urgent/i.test(priority ?? ""),
+    recipientCount: ["To", "Cc"].reduce((total, name) => total + splitAddressList(headerValue(headers, name)).length, 0),
+  };
+}
+
+/** `value` as signals when it has their exact shape, as sent back by the browser; null otherwise. */
+export function parseSignals(value: unknown): MessageSignals | null {
+  if (!value || typeof value !== "object") return null;
+  const { automated, highImportance, recipientCount } = value as Record<string, unknown>;
+  if (
+    !Array.isArray(automated) ||
+    !automated.every((code) => AUTOMATED_CODES.includes(code)) ||
+    typeof highImportance !== "boolean" ||
+    typeof recipientCount !== "number" ||
+    !Number.isInteger(recipientCount) ||
+    recipientCount < 0
+  ) {
+    return null;
+  }
+  return { automated: [...new Set(automated as SafetyIssueCode[])], highImportance, recipientCount };
+}
+
+// The model's records are stored as plain objects, so only their own keys count; "constructor" is a word too.
+function ownValue<T>(record: Record<string, T> | undefined, key: string) {
+  return record && Object.hasOwn(record, key) ? record[key] : undefined;
+}
+
+function words(text: string) {
+  return text.toLowerCase().match(/[a-z0-9#][a-z0-9'#-]*/g) ?? [];
+}
+
+function mentions(text: string, keywords: string[]) {
+  const padded = ` ${words(text).join(" ")} `;
+  return keywords.filter((keyword) => padded.includes(` ${words(keyword).join(" ")} `));
+}
+
+/** The words (and sender domain) a correction teaches: lowercased, deduped, without filler. */
+export function messageTokens(message: ScorableMessage) {
+  const domain = message.fromAddress?.split("@")[1]?.toLowerCase();
+  const tokens = words(`${message.subject} ${message.snippet}`).filter(
+    (word) => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word),
+  );
+  return [...new Set([...(domain ? [`@${domain}`] : []), ...tokens])].slice(0, MAX_LEARNED_TOKENS);
+}
+
+function quoted(keywords: string[]) {
+  return keywords
+    .slice(0, MAX_LISTED_KEYWORDS)
+    .map((keyword) => `"${keyword}"`)
+    .join(", ");
+}
+
+function classify(message: ScorableMessage, model: PriorityModel) {
+  const sender = message.fromAddress?.toLowerCase();
+  const filed = sender ? ownValue(model.senders, sender) : undefined;
+  if (filed) {
+    return { category: filed, evidence: [`you filed mail from ${sender} here`], learned: true };
+  }
+
+  const scores = new Map<MessageCategory, { weight: number; evidence: string[] }>();
+  const add = (category: MessageCategory, weight: number, evidence: string) => {
+    const entry = scores.get(category) ?? { weight: 0, evidence: [] };
+    entry.weight += weight;
+    entry.evidence.push(evidence);
+    scores.set(category, entry);
+  };
+
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS) as [KeywordCategory, string[]][]) {
+    const inSubject = mentions(message.subject, keywords);
+    const inSnippet = mentions(message.snippet, keywords).filter((keyword) => !inSubject.includes(keyword));
+    const found = [...inSubject, ...inSnippet];
+    if (found.length) {
+      add(
+        category,
+        inSubject.length * SUBJECT_KEYWORD_WEIGHT + inSnippet.length * SNIPPET_KEYWORD_WEIGHT,
+        `mentions ${quoted(found)}`,
+      );
+    }
+  }
+
+  for (const code of message.signals?.automated ?? []) {
+    const signal = SIGNAL_EVIDENCE[code];
+    if (signal) add(signal.category, signal.weight, signal.label);
+  }
+  for (const label of message.labelIds) {
+    const signal = ownValue(LABEL_EVIDENCE, label);
+    if (signal) add(signal.category, signal.weight, signal.label);
+  }
+
+  const tokens = messageTokens(message);
+  let learned: MessageCategory | null = null;
+  let learnedWeight = 0;
+  for (const category of MESSAGE_CATEGORIES) {
+    const counts = model.tokens[category.id];
+    if (!counts) continue;
+    const weight = tokens.reduce((total, token) => total + Math.log1p(ownValue(counts, token) ?? 0) * LEARNED_TOKEN_WEIGHT, 0);
+    if (weight >= SNIPPET_KEYWORD_WEIGHT) {
+      add(category.id, weight, `similar to mail you filed as ${category.label.toLowerCase()}`);
+      if (weight > learnedWeight) {
+        learned = category.id;
+        learnedWeight = weight;
+      }
+    }
+  }
+
+  // Ties go to the category listed first, so a support request that mentions a meeting stays support.
+  let best: { category: MessageCategory; weight: number; evidence: string[] } | null = null;
+  for (const category of MESSAGE_CATEGORIES) {
+    const entry = scores.get(category.id);
+    if (entry && entry.weight >= MIN_CATEGORY_EVIDENCE && (!best || entry.weight > best.weight)) {
+      best = { category: category.id, ...entry };
+    }
+  }
+
+  if (!best) return { category: "other" as const, evidence: [], learned: false };
+  return { category: best.category, evidence: best.evidence, learned: best.category === learned };
+}
+
+/**
+ * Scores how soon a message needs an answer and files it under a category,
+ * from its headers, the user's reply history with the sender and keywords in
+ * the subject and snippet. Everything runs locally; each reason lists the
+ * points it contributed so the score can be explained in the UI.
+ */
+export function scoreMessage(message: ScorableMessage, context: PriorityContext, now = new Date()): MessagePriority {
+  const { category, evidence, learned } = classify(message, context.model);
+  const reasons: PriorityReason[] = [];
+  const add = (label: string, weight: number) => reasons.push({ label, weight });
+
+  add(
+    evidence.length ? `${categoryLabel(category)}: ${evidence.join("; ")}` : "No clear category",
+    CATEGORY_WEIGHTS[category],
+  );
+
+  const text = `${message.subject} ${message.snippet}`;
+  const urgent = mentions(text, URGENT_KEYWORDS);
+  if (urgent.length) add(`Urgent wording: ${quoted(urgent)}`, 20);
+
+  const bulk = category === "newsletter" || category === "automated";
+  if (!bulk && text.includes("?")) add("Asks a question", 5);
+
+  const replies = message.fromAddress ? context.repliesBySender[message.fromAddress.toLowerCase()] ?? 0 : 0;
+  if (replies >= 3) add(`You've replied to them ${replies} times`, 15);
+  else if (replies > 0) add("You've replied to them before", 8);
+
+  if (message.signals?.highImportance) add("Sent as high importance", 10);
+  if (message.labelIds.includes("IMPORTANT")) add("Gmail marked it important", 10);
+  if (message.labelIds.includes("STARRED")) add("Starred", 5);
+
+  const recipients = message.signals?.recipientCount ?? 0;
+  if (recipients > MANY_RECIPIENTS) add(`Sent to ${recipients} people`, -10);
+
+  const received = Number(message.internalDate);
+  if (!bulk && Number.isFinite(received) && received > 0 && now.getTime() - received > WAITING_MS) {
+    add("Waiting for over a day", 5);
+  }
+
+  const total = reasons.reduce((sum, reason) => sum + reason.weight, BASE_SCORE);
+
+  return {
+    score: Math.min(Math.max(Math.round(total), 0), 100),
+    category,
+    reasons: reasons.sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)),
+    learned,
+  };
+}
+
+/** The model after the user files `message` under `category`: the sender and its words are remembered. */
+export function learnCategory(model: PriorityModel, message: ScorableMessage, category: MessageCategory): PriorityModel {
+  const counts = new Map(Object.entries(model.tokens[category] ?? {}));
+  for (const token of messageTokens(message)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  // Past the cap, the words seen least often are forgotten first.
+  const kept = [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TOKENS_PER_CATEGORY);
+
+  const sender = message.fromAddress?.toLowerCase();
+
+  return {
+    senders: sender ? { ...model.senders, [sender]: category } : model.senders,
+    tokens: { ...model.tokens, [category]: Object.fromEntries(kept) },
+    corrections: model.corrections + 1,
+  };
+}
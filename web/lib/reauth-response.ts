@@ -0,0 +1,26 @@
+import type { Session } from "next-auth";
+import { NextResponse } from "next/server";
+
+import { REAUTH_REQUIRED, REFRESH_ACCESS_TOKEN_ERROR, RELINK_REQUIRED } from "@/lib/reauth";
+
+export function needsReauth(session: Session) {
+  return session.error === REFRESH_ACCESS_TOKEN_ERROR;
+}
+
+/**
+ * 401 for credentials that no longer work. Signing in again only renews the
+ * session's own account, so a linked `mailbox` is named for linking again instead.
+ */
+export function reauthRequired(mailbox?: { email: string | null; primary: boolean } | null) {
+  if (mailbox?.email && !mailbox.primary) {
+    return NextResponse.json(
+      { error: `Access to ${mailbox.email} has expired. Link it again.`, code: RELINK_REQUIRED, account: mailbox.email },
+      { status: 401 },
+    );
+  }
+
+  return NextResponse.json(
+    { error: "Your Google access has expired. Please reconnect.", code: REAUTH_REQUIRED },
+    { status: 401 },
+  );
+}
@@ -0,0 +1,54 @@
+/** Set on the JWT (and mirrored to the session) when the refresh token no longer works. */
+export const REFRESH_ACCESS_TOKEN_ERROR = "RefreshAccessTokenError";
+
+/** `code` on 401 API responses that can only be fixed by signing in again with consent. */
+export const REAUTH_REQUIRED = "reauth_required";
+
+/** `code` on 401 API responses for a linked inbox whose grant is gone; `account` names it. */
+export const RELINK_REQUIRED = "relink_required";
+
+export class ReauthRequiredError extends Error {
+  /** The linked inbox to link again, or null for the signed-in account. */
+  readonly account: string | null;
+
+  constructor(message = "Your Google access has expired. Please reconnect.", account: string | null = null) {
+    super(message);
+    this.name = "ReauthRequiredError";
+    this.account = account;
+  }
+}
+
+type GoogleApiError = {
+  code?: number | string;
+  status?: number;
+  message?: string;
+  response?: { status?: number; data?: { error?: unknown } };
+};
+
+/**
+ * True for Gmail API failures caused by revoked or expired credentials, or by
+ * a grant that predates a scope we now ask for, as opposed to bad requests or
+ * outages.
+ */
+export function isReauthError(error: unknown) {
+  if (!error || typeof error !== "object") return false;
+  const { code, status, message, response } = error as GoogleApiError;
+  return (
+    code === 401 ||
+    status === 401 ||
+    response?.status === 401 ||
+    response?.data?.error === "invalid_grant" ||
+    Boolean(message?.includes("invalid_grant")) ||
+    /insufficient authentication scopes/i.test(message ?? "")
+  );
+}
+
+/**
+ * Client helper: turns a failed API payload into the error to throw, keeping
+ * re-consent failures distinguishable from everything else.
+ */
+export function responseError(payload: { error?: string; code?: string; account?: string | null }, fallback: string) {
+  if (payload.code === REAUTH_REQUIRED) return new ReauthRequiredError(payload.error);
+  if (payload.code === RELINK_REQUIRED) return new ReauthRequiredError(payload.error, payload.account ?? null);
+  return new Error(payload.error ?? fallback);
+}
@@ -0,0 +1,262 @@
+import { randomUUID } from "node:crypto";
+
+import type { gmail_v1 } from "googleapis";
+
+import { getAccount, gmailForAccount } from "@/lib/accounts";
+import { ValidationError } from "@/lib/errors";
+import { queuedSendStatus } from "@/lib/send-queue";
+import { readStore, updateStore } from "@/lib/store";
+
+/**
+ * `snooze` hides a message until `dueAt`; `follow-up` brings back a thread we
+ * answered if nobody has written back by then.
+ */
+export type ReminderKind = "snooze" | "follow-up";
+
+export type ReminderStatus = "pending" | "processing" | "resurfaced" | "answered" | "cancelled" | "failed";
+
+export type Reminder = {
+  id: string;
+  owner: string;
+  /** The inbox the message lives in. */
+  account: string;
+  kind: ReminderKind;
+  messageId: string;
+  threadId: string;
+  subject: string | null;
+  /** Who the thread is with: the sender of a snoozed message, the recipient of a follow-up. */
+  contact: string | null;
+  dueAt: string;
+  /** Inbound mail after this counts as an answer to a follow-up. */
+  since: string;
+  /** The queued send a follow-up waits on; cancelling that send drops the reminder. */
+  sendId?: string | null;
+  createdAt: string;
+  status: ReminderStatus;
+  error?: string;
+};
+
+export type ReminderTarget = {
+  messageId: string;
+  threadId: string;
+  subject?: string | null;
+  contact?: string | null;
+};
+
+type ReminderStore = Record<string, Reminder>;
+
+const STORE = "reminders";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FOLLOW_UP_DAYS = 60;
+const FINISHED_RETENTION_MS = 7 * DAY_MS;
+const RESURFACE_LABELS = { addLabelIds: ["INBOX", "UNREAD"] };
+
+async function addReminder(
+  owner: string,
+  account: string,
+  kind: ReminderKind,
+  target: ReminderTarget,
+  dueAt: Date,
+  since: Date,
+  sendId?: string,
+) {
+  const reminder: Reminder = {
+    id: randomUUID(),
+    owner,
+    account,
+    kind,
+    messageId: target.messageId,
+    threadId: target.threadId,
+    subject: target.subject ?? null,
+    contact: target.contact ?? null,
+    dueAt: dueAt.toISOString(),
+    since: since.toISOString(),
+    sendId: sendId ?? null,
+    createdAt: new Date().toISOString(),
+    status: "pending",
+  };
+
+  await updateStore<ReminderStore>(STORE, {}, (store) => ({ ...store, [reminder.id]: reminder }));
+  return reminder;
+}
+
+/** Archives the message now and puts it back in the inbox, unread, at `until`. */
+export async function snoozeMessage(
+  gmail: gmail_v1.Gmail,
+  owner: string,
+  account: string,
+  target: ReminderTarget,
+  until: string | null | undefined,
+  now = new Date(),
+) {
+  const dueAt = new Date(until ?? "");
+  if (Number.isNaN(dueAt.getTime())) {
+    throw new ValidationError("Invalid snooze time");
+  }
+  if (dueAt.getTime() <= now.getTime()) {
+    throw new ValidationError("Snooze time must be in the future");
+  }
+
+  await gmail.users.messages.modify({
+    userId: "me",
+    id: target.messageId,
+    requestBody: { removeLabelIds: ["INBOX"] },
+  });
+  return addReminder(owner, account, "snooze", target, dueAt, now);
+}
+
+/** Checks a "remind me after N days" option from a request; null or 0 means no reminder. */
+export function resolveFollowUpDays(value: number | null | undefined) {
+  if (!value) return null;
+  if (!Number.isInteger(value) || value < 1 || value > MAX_FOLLOW_UP_DAYS) {
+    throw new ValidationError(`Follow-up reminders must be 1 to ${MAX_FOLLOW_UP_DAYS} days out`);
+  }
+  return value;
+}
+
+/**
+ * Remembers to bring the thread back `days` after `sentAt` unless someone
+ * replies first. `sendId` ties the reminder to a queued send.
+ */
+export async function remindIfNoReply(
+  owner: string,
+  account: string,
+  target: ReminderTarget,
+  days: number,
+  sentAt: Date,
+  sendId?: string,
+) {
+  resolveFollowUpDays(days);
+  return addReminder(owner, account, "follow-up", target, new Date(sentAt.getTime() + days * DAY_MS), sentAt, sendId);
+}
+
+export async function listReminders(owner: string) {
+  const store = await readStore<ReminderStore>(STORE, {});
+  return Object.values(store)
+    .filter((reminder) => reminder.owner === owner && reminder.status === "pending")
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+async function gmailFor(reminder: Reminder) {
+  const account = await getAccount(reminder.account);
+  if (!account) {
+    throw new Error("No stored credentials for this account");
+  }
+  return gmailForAccount(account);
+}
+
+async function finish(id: string, status: ReminderStatus, error?: string) {
+  await updateStore<ReminderStore>(STORE, {}, (store) =>
+    store[id] ? { ...store, [id]: { ...store[id], status, error } } : store,
+  );
+}
+
+/**
+ * Cancels a pending reminder. A snoozed message goes back to the inbox right
+ * away rather than staying archived. Returns null when there is nothing to
+ * cancel.
+ */
+export async function cancelReminder(owner: string, id: string) {
+  let cancelled: Reminder | null = null;
+
+  await updateStore<ReminderStore>(STORE, {}, (store) => {
+    const reminder = store[id];
+    if (!reminder || reminder.owner !== owner || reminder.status !== "pending") return store;
+    cancelled = { ...reminder, status: "cancelled" };
+    return { ...store, [id]: cancelled };
+  });
+
+  const reminder = cancelled as Reminder | null;
+  if (reminder?.kind === "snooze") {
+    const gmail = await gmailFor(reminder);
+    await gmail.users.messages.modify({ userId: "me", id: reminder.messageId, requestBody: RESURFACE_LABELS });
+  }
+  return reminder;
+}
+
+/** Drops the follow-up for a queued send that was cancelled before it went out. */
+export async function cancelFollowUpsForSend(owner: string, sendId: string) {
+  await updateStore<ReminderStore>(STORE, {}, (store) => {
+    const next = { ...store };
+    for (const reminder of Object.values(store)) {
+      if (reminder.owner === owner && reminder.sendId === sendId && reminder.status === "pending") {
+        next[reminder.id] = { ...reminder, status: "cancelled" };
+      }
+    }
+    return next;
+  });
+}
+
+async function claimDue(now: Date, owner?: string) {
+  const claimed: Reminder[] = [];
+  const cutoff = now.getTime() - FINISHED_RETENTION_MS;
+
+  await updateStore<ReminderStore>(STORE, {}, (store) => {
+    const next: ReminderStore = {};
+    for (const reminder of Object.values(store)) {
+      const finished = reminder.status !== "pending" && reminder.status !== "processing";
+      if (finished && new Date(reminder.dueAt).getTime() < cutoff) continue;
+
+      const due = reminder.status === "pending" && new Date(reminder.dueAt).getTime() <= now.getTime();
+      if (due && (!owner || reminder.owner === owner)) {
+        const processing = { ...reminder, status: "processing" as const };
+        claimed.push(processing);
+        next[reminder.id] = processing;
+      } else {
+        next[reminder.id] = reminder;
+      }
+    }
+    return next;
+  });
+
+  return claimed;
+}
+
+/** True when someone other than us wrote in the thread after `since`. */
+async function hasNewerInbound(gmail: gmail_v1.Gmail, reminder: Reminder) {
+  const { data } = await gmail.users.threads.get({ userId: "me", id: reminder.threadId, format: "minimal" });
+  const since = new Date(reminder.since).getTime();
+  return (data.messages ?? []).some(
+    (message) =>
+      Number(message.internalDate ?? 0) > since &&
+      !message.labelIds?.includes("SENT") &&
+      !message.labelIds?.includes("DRAFT"),
+  );
+}
+
+async function processReminder(reminder: Reminder): Promise<ReminderStatus> {
+  if (reminder.kind === "follow-up" && reminder.sendId) {
+    const sendStatus = await queuedSendStatus(reminder.sendId);
+    if (sendStatus === "cancelled" || sendStatus === "failed") return "cancelled";
+  }
+
+  const gmail = await gmailFor(reminder);
+  if (reminder.kind === "follow-up" && (await hasNewerInbound(gmail, reminder))) return "answered";
+
+  await gmail.users.messages.modify({ userId: "me", id: reminder.messageId, requestBody: RESURFACE_LABELS });
+  return "resurfaced";
+}
+
+/**
+ * Wakes snoozed messages and checks follow-ups whose time has come,
+ * optionally for one owner. Reminders are claimed first, so overlapping runs
+ * don't handle one twice.
+ */
+export async function processDueReminders(owner?: string, now = new Date()) {
+  const results: Reminder[] = [];
+
+  for (const reminder of await claimDue(now, owner)) {
+    try {
+      const status = await processReminder(reminder);
+      await finish(reminder.id, status);
+      results.push({ ...reminder, status });
+    } catch (error) {
+      console.error(`Failed to process reminder ${reminder.id}`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await finish(reminder.id, "failed", message);
+      results.push({ ...reminder, status: "failed", error: message });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,99 @@
+import type { gmail_v1 } from "googleapis";
+import { NextResponse } from "next/server";
+
+import { listReplyEvents } from "@/lib/analytics-store";
+import { collisionIssues } from "@/lib/collab-store";
+import { headerValue, parseEmailAddress } from "@/lib/gmail-message";
+import {
+  describeIssues,
+  headerIssues,
+  SAFETY_HEADERS,
+  UNSAFE_REPLY,
+  type SafetyIssue,
+} from "@/lib/reply-safety";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_REPLIES_PER_SENDER_PER_HOUR = 3;
+const MAX_REPLIES_PER_SENDER_PER_DAY = 10;
+// This many of our own messages in one thread within a day looks like two responders talking to each other.
+const LOOP_REPLIES_PER_THREAD = 3;
+
+type ReplyTarget = {
+  messageId: string;
+  threadId: string;
+};
+
+export type ReplyCheck = (target: ReplyTarget) => Promise<SafetyIssue[]>;
+
+async function threadIssues(gmail: gmail_v1.Gmail, target: ReplyTarget, receivedAt: number, now: number) {
+  const { data } = await gmail.users.threads.get({ userId: "me", id: target.threadId, format: "minimal" });
+  const sent = (data.messages ?? []).filter((message) => message.labelIds?.includes("SENT"));
+  const issues: SafetyIssue[] = [];
+
+  if (sent.some((message) => Number(message.internalDate ?? 0) > receivedAt)) {
+    issues.push({ code: "already-replied", reason: "A reply was already sent in this thread" });
+  }
+  if (sent.filter((message) => Number(message.internalDate ?? 0) > now - DAY_MS).length >= LOOP_REPLIES_PER_THREAD) {
+    issues.push({ code: "reply-loop", reason: `${LOOP_REPLIES_PER_THREAD}+ replies in this thread today` });
+  }
+
+  return issues;
+}
+
+/**
+ * Safety checks for the reply path. The guard remembers senders it has
+ * already cleared, so a batch can't get around the per-sender limits by
+ * sending to the same person several times at once. With a `mailbox`, it
+ * also checks for teammates working the same thread in that shared inbox.
+ */
+export async function createReplyGuard(
+  gmail: gmail_v1.Gmail,
+  owner: string | null | undefined,
+  mailbox: string | null,
+  now = new Date(),
+): Promise<ReplyCheck> {
+  const recent = owner ? await listReplyEvents(owner, new Date(now.getTime() - DAY_MS)) : [];
+  const planned: { sender: string; at: number }[] = recent.flatMap((event) =>
+    event.sender ? [{ sender: event.sender, at: new Date(event.sentAt).getTime() }] : [],
+  );
+
+  return async function check(target) {
+    const { data } = await gmail.users.messages.get({
+      userId: "me",
+      id: target.messageId,
+      format: "metadata",
+      metadataHeaders: SAFETY_HEADERS,
+    });
+
+    const headers = data.payload?.headers ?? [];
+    const issues = [
+      ...headerIssues(headers),
+      ...(await threadIssues(gmail, target, Number(data.internalDate ?? 0), now.getTime())),
+      ...(mailbox ? await collisionIssues(mailbox, target.threadId, owner) : []),
+    ];
+
+    const sender = parseEmailAddress(headerValue(headers, "From")).address?.toLowerCase();
+    if (sender) {
+      const toSender = planned.filter((entry) => entry.sender === sender);
+      const lastHour = toSender.filter((entry) => entry.at > now.getTime() - HOUR_MS).length;
+      if (lastHour >= MAX_REPLIES_PER_SENDER_PER_HOUR || toSender.length >= MAX_REPLIES_PER_SENDER_PER_DAY) {
+        issues.push({
+          code: "rate-limit",
+          reason: `Already ${lastHour >= MAX_REPLIES_PER_SENDER_PER_HOUR ? `${lastHour} replies this hour` : `${toSender.length} replies today`} to ${sender}`,
+        });
+      }
+      if (!issues.length) planned.push({ sender, at: now.getTime() });
+    }
+
+    return issues;
+  };
+}
+
+/** 409 for a single reply the safety checks held back; the page can confirm and resend with `allowUnsafe`. */
+export function unsafeReply(issues: SafetyIssue[]) {
+  return NextResponse.json(
+    { error: describeIssues(issues), code: UNSAFE_REPLY, issues },
+    { status: 409 },
+  );
+}
@@ -0,0 +1,78 @@
+import { headerValue, parseEmailAddress, type MessageHeader } from "@/lib/gmail-message";
+
+export type SafetyIssueCode =
+  | "mailing-list"
+  | "auto-submitted"
+  | "bulk"
+  | "no-reply"
+  | "already-replied"
+  | "reply-loop"
+  | "rate-limit"
+  | "assigned"
+  | "teammate-drafting"
+  | "teammate-sending";
+
+export type SafetyIssue = {
+  code: SafetyIssueCode;
+  reason: string;
+};
+
+/** `code` on 409 responses for replies held back by the safety checks. */
+export const UNSAFE_REPLY = "unsafe_reply";
+
+/** Headers the safety checks read from the message being answered. */
+export const SAFETY_HEADERS = [
+  "From",
+  "Reply-To",
+  "List-Unsubscribe",
+  "List-Id",
+  "Auto-Submitted",
+  "Precedence",
+  "X-Autoreply",
+  "X-Autorespond",
+  "X-Auto-Response-Suppress",
+];
+
+const NO_REPLY_PATTERN = /^(?:no[-_.]?reply|do[-_.]?not[-_.]?reply|mailer-daemon|postmaster|bounces?|notifications?)(?:[+-][^@]*)?@/i;
+
+export function isNoReplyAddress(address: string | null | undefined) {
+  return Boolean(address && NO_REPLY_PATTERN.test(address.trim()));
+}
+
+/**
+ * Signs in the headers that a message came from a list or a machine, where
+ * a reply is at best noise and at worst starts an auto-reply loop.
+ */
+export function headerIssues(headers: MessageHeader[] | null | undefined): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+
+  if (headerValue(headers, "List-Unsubscribe") || headerValue(headers, "List-Id")) {
+    issues.push({ code: "mailing-list", reason: "Sent to a mailing list or newsletter" });
+  }
+
+  const autoSubmitted = headerValue(headers, "Auto-Submitted")?.trim().toLowerCase();
+  if (
+    (autoSubmitted && autoSubmitted !== "no") ||
+    headerValue(headers, "X-Autoreply") ||
+    headerValue(headers, "X-Autorespond") ||
+    /\b(?:all|oof|autoreply)\b/i.test(headerValue(headers, "X-Auto-Response-Suppress") ?? "")
+  ) {
+    issues.push({ code: "auto-submitted", reason: "Generated automatically" });
+  }
+
+  const precedence = headerValue(headers, "Precedence")?.trim().toLowerCase();
+  if (precedence === "bulk" || precedence === "list" || precedence === "junk") {
+    issues.push({ code: "bulk", reason: `Marked as bulk mail (Precedence: ${precedence})` });
+  }
+
+  const replyTo = parseEmailAddress(headerValue(headers, "Reply-To") ?? headerValue(headers, "From")).address;
+  if (isNoReplyAddress(replyTo)) {
+    issues.push({ code: "no-reply", reason: `${replyTo} doesn't accept replies` });
+  }
+
+  return issues;
+}
+
+export function describeIssues(issues: SafetyIssue[]) {
+  return issues.map((issue) => issue.reason).join("; ");
+}
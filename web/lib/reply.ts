@@ -0,0 +1,245 @@
+import type { gmail_v1 } from "googleapis";
+
+import type { ReplyAnalytics } from "@/lib/analytics";
+import { ValidationError } from "@/lib/errors";
+import { headerValue, parseEmailAddress } from "@/lib/gmail-message";
+import {
+  buildReferences,
+  encodeRawMessage,
+  formatAddress,
+  replySubject,
+  splitAddressList,
+  textToHtml,
+  type MimeAttachment,
+} from "@/lib/mime";
+import { defaultAlias, listSendAs, signatureText, type SendAsAlias } from "@/lib/send-as";
+import { normalizePostSend, postSendLabelChanges, type PostSendActions } from "@/lib/settings";
+
+export type ReplyMode = "reply" | "replyAll";
+
+export type ReplyPayload = {
+  messageId?: string;
+  threadId?: string | null;
+  to?: string | null;
+  subject?: string | null;
+  body?: string;
+  html?: string | null;
+  messageHeaderId?: string | null;
+  mode?: ReplyMode;
+  cc?: string[];
+  bcc?: string[];
+  attachments?: MimeAttachment[];
+  /** Overrides the owner's default post-send actions for this reply only. */
+  postSend?: Partial<PostSendActions> | null;
+  /** How the reply was written; recorded once it is sent. */
+  analytics?: ReplyAnalytics | null;
+  /** Send-as address to reply from; defaults to the alias the original was addressed to. */
+  from?: string | null;
+};
+
+export type DraftPayload = ReplyPayload & {
+  draftId?: string | null;
+};
+
+/** Reported when a reply went out but the answered message couldn't be relabelled. */
+export const POST_SEND_WARNING = "The reply was sent, but its post-send label changes couldn't be applied";
+
+const ORIGINAL_HEADERS = ["From", "Reply-To", "To", "Cc", "Delivered-To", "Subject", "Message-ID", "References"];
+
+function addressOf(entry: string) {
+  return parseEmailAddress(entry).address?.toLowerCase() ?? entry.toLowerCase();
+}
+
+function sameAddresses(left: string[], right: string[]) {
+  const addresses = new Set(right.map(addressOf));
+  return left.length === addresses.size && left.every((entry) => addresses.has(addressOf(entry)));
+}
+
+function uniqueAddresses(entries: string[], exclude: Set<string>) {
+  const seen = new Set(exclude);
+  return entries.filter((entry) => {
+    const address = addressOf(entry);
+    if (!address || seen.has(address)) return false;
+    seen.add(address);
+    return true;
+  });
+}
+
+/**
+ * Loads the headers of the message being answered and works out the
+ * recipients, subject and threading headers for the reply.
+ */
+export async function resolveReplyEnvelope(
+  gmail: gmail_v1.Gmail,
+  payload: ReplyPayload & { messageId: string },
+  selfAddress: string | null | undefined,
+  aliases: SendAsAlias[] = [],
+) {
+  const { data } = await gmail.users.messages.get({
+    userId: "me",
+    id: payload.messageId,
+    format: "metadata",
+    metadataHeaders: ORIGINAL_HEADERS,
+  });
+
+  const headers = data.payload?.headers ?? [];
+  const self = new Set([
+    ...(selfAddress ? [selfAddress.toLowerCase()] : []),
+    ...aliases.map((alias) => alias.address),
+  ]);
+  const sender = splitAddressList(headerValue(headers, "From"));
+  const replyTo = splitAddressList(headerValue(headers, "Reply-To"));
+  const messageIdHeader = headerValue(headers, "Message-ID") ?? payload.messageHeaderId ?? null;
+
+  // The page fills To with the sender; that still means "answer them", which goes to Reply-To when there is one.
+  const explicitTo = payload.to ? splitAddressList(payload.to) : [];
+  const echoesSender = sameAddresses(explicitTo, sender);
+  const requestedTo = explicitTo.length && !echoesSender ? explicitTo : replyTo.length ? replyTo : sender;
+  const withoutSelf = uniqueAddresses(requestedTo, self);
+  // Answering our own message: keep the original recipients instead of mailing ourselves.
+  const to = withoutSelf.length
+    ? withoutSelf
+    : uniqueAddresses(splitAddressList(headerValue(headers, "To")), self);
+  const cc = uniqueAddresses(
+    [
+      ...(payload.mode === "replyAll"
+        ? [...splitAddressList(headerValue(headers, "To")), ...splitAddressList(headerValue(headers, "Cc"))]
+        : []),
+      ...(payload.cc ?? []),
+    ],
+    new Set([...self, ...to.map(addressOf)]),
+  );
+  const bcc = uniqueAddresses(payload.bcc ?? [], new Set([...to, ...cc].map(addressOf)));
+
+  const requestedFrom = payload.from?.trim().toLowerCase();
+  const from = requestedFrom
+    ? aliases.find((alias) => alias.address === requestedFrom)
+    : defaultAlias(
+        aliases,
+        ["To", "Cc", "Delivered-To"].flatMap((name) => splitAddressList(headerValue(headers, name)).map(addressOf)),
+      );
+  if (requestedFrom && !from) {
+    throw new ValidationError(`${payload.from} isn't one of this account's send-as addresses`);
+  }
+
+  return {
+    from: from ?? null,
+    to,
+    cc,
+    bcc,
+    subject: replySubject(payload.subject ?? headerValue(headers, "Subject") ?? ""),
+    inReplyTo: messageIdHeader,
+    references: buildReferences(headerValue(headers, "References"), messageIdHeader),
+  };
+}
+
+/** Adds the alias's Gmail signature below the reply, in both the text and HTML parts. */
+export function appendSignature(text: string, html: string | null | undefined, signature: string | null) {
+  if (!signature) return { text, html };
+  return {
+    text: `${text.trimEnd()}\n\n${signatureText(signature)}`,
+    html: `${html ?? textToHtml(text)}<br><div class="gmail_signature">${signature}</div>`,
+  };
+}
+
+/**
+ * Builds the base64url `raw` message for a reply payload, sent from the
+ * chosen send-as alias with its signature. Drafts leave the signature off
+ * (`signature: false`) so the text restored into the editor is what was typed.
+ */
+export async function buildReplyRaw(
+  gmail: gmail_v1.Gmail,
+  payload: ReplyPayload & { messageId: string },
+  selfAddress: string | null | undefined,
+  { signature = true }: { signature?: boolean } = {},
+) {
+  const aliases = await listSendAs(gmail);
+  const { from, ...envelope } = await resolveReplyEnvelope(gmail, payload, selfAddress, aliases);
+  const body = signature
+    ? appendSignature(payload.body ?? "", payload.html, from?.signature ?? null)
+    : { text: payload.body ?? "", html: payload.html };
+
+  return encodeRawMessage({
+    ...envelope,
+    from: from ? formatAddress(from.displayName, from.address) : null,
+    ...body,
+    attachments: payload.attachments,
+  });
+}
+
+/**
+ * Sends the reply (through its draft when there is one) without touching the
+ * original message's labels; see `sendReply` for the usual send-and-mark.
+ * Drafts are saved without the alias signature, so a draft is always rebuilt
+ * from the payload before it goes out rather than sent as stored.
+ */
+export async function deliverReply(
+  gmail: gmail_v1.Gmail,
+  payload: DraftPayload & { messageId: string; threadId: string },
+  selfAddress: string | null | undefined,
+) {
+  if (!payload.body) {
+    throw new ValidationError("Reply has no body");
+  }
+  const raw = await buildReplyRaw(gmail, payload, selfAddress);
+
+  if (payload.draftId) {
+    // Push the latest editor contents first so the sent message matches what the user sees.
+    await gmail.users.drafts.update({
+      userId: "me",
+      id: payload.draftId,
+      requestBody: {
+        id: payload.draftId,
+        message: { raw, threadId: payload.threadId },
+      },
+    });
+
+    await gmail.users.drafts.send({
+      userId: "me",
+      requestBody: { id: payload.draftId },
+    });
+  } else {
+    await gmail.users.messages.send({
+      userId: "me",
+      requestBody: { raw, threadId: payload.threadId },
+    });
+  }
+}
+
+/**
+ * Sends a reply, through its saved Gmail draft when there is one so the
+ * draft doesn't linger, and marks the original as handled. The reply is out
+ * once this resolves; label changes Gmail refuses come back as a warning
+ * instead of an error.
+ */
+export async function sendReply(
+  gmail: gmail_v1.Gmail,
+  payload: DraftPayload & { messageId: string; threadId: string },
+  selfAddress: string | null | undefined,
+): Promise<{ warning: string | null }> {
+  await deliverReply(gmail, payload, selfAddress);
+
+  try {
+    await markReplied(gmail, payload.messageId, normalizePostSend(payload.postSend));
+    return { warning: null };
+  } catch (error) {
+    // The reply is out; failing to relabel shouldn't report it as unsent.
+    console.error(`Failed to apply post-send actions to ${payload.messageId}`, error);
+    return { warning: POST_SEND_WARNING };
+  }
+}
+
+/**
+ * Applies the post-send actions to the answered message once the reply has
+ * gone out.
+ */
+export async function markReplied(gmail: gmail_v1.Gmail, messageId: string, actions: PostSendActions) {
+  const changes = postSendLabelChanges(actions);
+  if (!changes.addLabelIds.length && !changes.removeLabelIds.length) return;
+
+  await gmail.users.messages.modify({
+    userId: "me",
+    id: messageId,
+    requestBody: changes,
+  });
+}
@@ -0,0 +1,446 @@
+import { randomUUID } from "node:crypto";
+
+import type { gmail_v1 } from "googleapis";
+
+import { recordReplies } from "@/lib/analytics-store";
+import { extractMessageContent, headerValue, parseEmailAddress } from "@/lib/gmail-message";
+import { ValidationError } from "@/lib/errors";
+import { detectLanguage } from "@/lib/locale";
+import { errorStatus } from "@/lib/pool";
+import { buildReplyRaw, type ReplyPayload } from "@/lib/reply";
+import { createReplyGuard } from "@/lib/reply-guard";
+import { describeIssues } from "@/lib/reply-safety";
+import { readStore, updateStore } from "@/lib/store";
+import { getTemplateLibrary } from "@/lib/template-store";
+import { renderTemplate, templateContext } from "@/lib/templates";
+
+export type RuleField = "from" | "domain" | "subject" | "body" | "label";
+
+export type RuleCondition = {
+  field: RuleField;
+  /** Case-insensitive substring for text fields, exact match for domain and label. */
+  value: string;
+};
+
+export type RuleAction = "reply" | "label" | "archive" | "star" | "markRead";
+
+export type AutoReplyRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: "all" | "any";
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  templateId: string | null;
+  labelIds: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RuleInput = Partial<Omit<AutoReplyRule, "id" | "createdAt" | "updatedAt">>;
+
+export type RuleOutcome = {
+  messageId: string;
+  threadId: string | null;
+  subject: string;
+  from: string | null;
+  ruleId: string;
+  ruleName: string;
+  actions: RuleAction[];
+  reply: string | null;
+  /** Why the reply action was left out; the other actions still apply. */
+  replyBlocked?: string;
+  status: "planned" | "applied" | "failed";
+  error?: string;
+  /** The reply went out but the label actions failed; the message still counts as handled. */
+  warning?: string;
+};
+
+type RuleState = {
+  rules: AutoReplyRule[];
+  lastRunAt: string | null;
+  /** Message ids already handled, so repeated runs never act twice. */
+  processed: Record<string, string>;
+  /** Failed message ids and how many runs have failed on them; they're tried again whatever the cursor. */
+  retry?: Record<string, number>;
+};
+
+type RuleStore = Record<string, RuleState>;
+
+const STORE = "rules";
+const RULE_FIELDS: RuleField[] = ["from", "domain", "subject", "body", "label"];
+const RULE_ACTIONS: RuleAction[] = ["reply", "label", "archive", "star", "markRead"];
+// Messages looked at per run, oldest first; the rest wait for the next run.
+const MAX_MESSAGES_PER_RUN = 50;
+const LIST_PAGE_SIZE = 100;
+const PROCESSED_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+const RUN_OVERLAP_SECONDS = 10 * 60;
+// Runs that may fail on a message before it's given up on and counted as handled.
+const MAX_ATTEMPTS = 3;
+
+const EMPTY_STATE: RuleState = { rules: [], lastRunAt: null, processed: {} };
+
+function normalizeRule(input: RuleInput, existing?: AutoReplyRule): AutoReplyRule {
+  const now = new Date().toISOString();
+  const merged = { ...existing, ...input };
+
+  const name = merged.name?.trim();
+  if (!name) {
+    throw new ValidationError("Rule name is required");
+  }
+
+  const conditions = (merged.conditions ?? [])
+    .filter((condition) => RULE_FIELDS.includes(condition.field) && condition.value?.trim())
+    .map((condition) => ({ field: condition.field, value: condition.value.trim() }));
+  if (!conditions.length) {
+    throw new ValidationError("Add at least one condition");
+  }
+
+  const actions = (merged.actions ?? []).filter((action) => RULE_ACTIONS.includes(action));
+  if (!actions.length) {
+    throw new ValidationError("Pick at least one action");
+  }
+
+  const templateId = merged.templateId ?? null;
+  if (actions.includes("reply") && !templateId) {
+    throw new ValidationError("Reply rules need a template");
+  }
+
+  const labelIds = (merged.labelIds ?? []).map((label) => label.trim()).filter(Boolean);
+  if (actions.includes("label") && !labelIds.length) {
+    throw new ValidationError("Label rules need at least one label");
+  }
+
+  return {
+    id: existing?.id ?? randomUUID(),
+    name,
+    enabled: merged.enabled ?? true,
+    match: merged.match === "any" ? "any" : "all",
+    conditions,
+    actions,
+    templateId,
+    labelIds,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+export async function listRules(owner: string) {
+  const store = await readStore<RuleStore>(STORE, {});
+  return store[owner]?.rules ?? [];
+}
+
+export async function createRule(owner: string, input: RuleInput) {
+  const rule = normalizeRule(input);
+  await updateStore<RuleStore>(STORE, {}, (store) => {
+    const state = store[owner] ?? EMPTY_STATE;
+    return { ...store, [owner]: { ...state, rules: [...state.rules, rule] } };
+  });
+  return rule;
+}
+
+export async function updateRule(owner: string, id: string, input: RuleInput) {
+  let updated: AutoReplyRule | null = null;
+  await updateStore<RuleStore>(STORE, {}, (store) => {
+    const state = store[owner] ?? EMPTY_STATE;
+    const rules = state.rules.map((rule) => {
+      if (rule.id !== id) return rule;
+      updated = normalizeRule(input, rule);
+      return updated;
+    });
+    return { ...store, [owner]: { ...state, rules } };
+  });
+  return updated;
+}
+
+export async function deleteRule(owner: string, id: string) {
+  await updateStore<RuleStore>(STORE, {}, (store) => {
+    const state = store[owner] ?? EMPTY_STATE;
+    return { ...store, [owner]: { ...state, rules: state.rules.filter((rule) => rule.id !== id) } };
+  });
+}
+
+type CandidateMessage = {
+  id: string;
+  threadId: string | null;
+  subject: string;
+  snippet: string;
+  date: string | null;
+  from: string | null;
+  fromName: string | null;
+  fromAddress: string | null;
+  body: string;
+  labelIds: string[];
+  internalDate: string | null;
+};
+
+function matchesCondition(message: CandidateMessage, condition: RuleCondition) {
+  const needle = condition.value.toLowerCase();
+  switch (condition.field) {
+    case "from":
+      return (message.from ?? "").toLowerCase().includes(needle);
+    case "domain": {
+      const domain = message.fromAddress?.split("@")[1]?.toLowerCase() ?? "";
+      const wanted = needle.replace(/^@/, "");
+      return domain === wanted || domain.endsWith(`.${wanted}`);
+    }
+    case "subject":
+      return message.subject.toLowerCase().includes(needle);
+    case "body":
+      return message.body.toLowerCase().includes(needle);
+    case "label":
+      return message.labelIds.some((label) => label.toLowerCase() === needle);
+  }
+}
+
+export function matchesRule(message: CandidateMessage, rule: AutoReplyRule) {
+  const results = rule.conditions.map((condition) => matchesCondition(message, condition));
+  return rule.match === "any" ? results.some(Boolean) : results.every(Boolean);
+}
+
+function toCandidate(message: gmail_v1.Schema$Message): CandidateMessage {
+  const headers = message.payload?.headers ?? [];
+  const from = headerValue(headers, "From");
+  const { name, address } = parseEmailAddress(from);
+  const { text } = extractMessageContent(message.payload);
+
+  return {
+    id: message.id ?? "",
+    threadId: message.threadId ?? null,
+    subject: headerValue(headers, "Subject") ?? "(no subject)",
+    snippet: message.snippet ?? "",
+    date: headerValue(headers, "Date"),
+    from,
+    fromName: name,
+    fromAddress: address,
+    body: text ?? message.snippet ?? "",
+    labelIds: message.labelIds ?? [],
+    internalDate: message.internalDate ?? null,
+  };
+}
+
+async function sendRuleReply(
+  gmail: gmail_v1.Gmail,
+  payload: ReplyPayload & { messageId: string; threadId: string },
+  selfAddress: string,
+) {
+  const raw = await buildReplyRaw(gmail, payload, selfAddress);
+  await gmail.users.messages.send({
+    userId: "me",
+    requestBody: { raw, threadId: payload.threadId },
+  });
+}
+
+async function applyLabelActions(gmail: gmail_v1.Gmail, message: CandidateMessage, rule: AutoReplyRule) {
+  const addLabelIds = [
+    ...(rule.actions.includes("label") ? rule.labelIds : []),
+    ...(rule.actions.includes("star") ? ["STARRED"] : []),
+  ];
+  const removeLabelIds = [
+    ...(rule.actions.includes("archive") ? ["INBOX"] : []),
+    ...(rule.actions.includes("markRead") ? ["UNREAD"] : []),
+  ];
+
+  if (addLabelIds.length || removeLabelIds.length) {
+    await gmail.users.messages.modify({
+      userId: "me",
+      id: message.id,
+      requestBody: { addLabelIds, removeLabelIds },
+    });
+  }
+}
+
+/**
+ * Checks recent unread inbox mail against the owner's enabled rules, oldest
+ * first and at most `MAX_MESSAGES_PER_RUN` at a time. The first matching rule
+ * wins. Auto-replies are logged like any other reply, so they count towards
+ * the per-sender limits. In dry-run mode nothing is sent, modified or
+ * recorded; the outcome list describes what would have happened.
+ */
+export async function runRules(
+  gmail: gmail_v1.Gmail,
+  owner: string,
+  { dryRun = false, myName = null }: { dryRun?: boolean; myName?: string | null } = {},
+) {
+  const state = (await readStore<RuleStore>(STORE, {}))[owner] ?? EMPTY_STATE;
+  const rules = state.rules.filter((rule) => rule.enabled);
+  const startedAt = new Date();
+
+  if (!rules.length) {
+    return { ranAt: startedAt.toISOString(), dryRun, outcomes: [] as RuleOutcome[] };
+  }
+
+  const since = state.lastRunAt
+    ? Math.floor(new Date(state.lastRunAt).getTime() / 1000) - RUN_OVERLAP_SECONDS
+    : null;
+  // Gmail lists newest first; collect every page so the oldest mail goes first.
+  const pending: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const { data } = await gmail.users.messages.list({
+      userId: "me",
+      labelIds: ["INBOX"],
+      q: ["is:unread", since ? `after:${since}` : "newer_than:1d"].join(" "),
+      maxResults: LIST_PAGE_SIZE,
+      pageToken,
+    });
+    for (const { id } of data.messages ?? []) {
+      if (id && !state.processed[id]) pending.push(id);
+    }
+    pageToken = data.nextPageToken ?? undefined;
+  } while (pageToken);
+
+  // Earlier failures can be older than the cursor, so they're fetched by id and go first.
+  const listed = new Set(pending);
+  const retrying = Object.keys(state.retry ?? {}).filter((id) => !state.processed[id] && !listed.has(id));
+  const waiting = [...retrying, ...pending.reverse()];
+  const batch = waiting.slice(0, MAX_MESSAGES_PER_RUN);
+  // Messages looked at without acting on them, so they don't take up the next run's batch.
+  const skipped: string[] = [];
+  let newestSeen = 0;
+
+  const library = await getTemplateLibrary(owner);
+  const checkReply = rules.some((rule) => rule.actions.includes("reply"))
+    ? await createReplyGuard(gmail, owner, owner, startedAt)
+    : null;
+  const needsBody = rules.some((rule) => rule.conditions.some((condition) => condition.field === "body"));
+  const outcomes: RuleOutcome[] = [];
+
+  for (const id of batch) {
+    let detail: gmail_v1.Schema$Message;
+    try {
+      ({ data: detail } = await gmail.users.messages.get({
+        userId: "me",
+        id,
+        format: needsBody ? "full" : "metadata",
+        metadataHeaders: needsBody ? undefined : ["From", "Subject", "Date", "Message-ID"],
+      }));
+    } catch (error) {
+      // A message waiting for a retry may have been deleted since.
+      if (errorStatus(error) !== 404) throw error;
+      skipped.push(id);
+      continue;
+    }
+    // Or read or archived, which takes it out of the rules' hands like any other mail.
+    if (!detail.labelIds?.includes("INBOX") || !detail.labelIds.includes("UNREAD")) {
+      skipped.push(id);
+      continue;
+    }
+
+    const message = toCandidate(detail);
+    newestSeen = Math.max(newestSeen, Number(message.internalDate) || 0);
+    const rule = rules.find((candidate) => matchesRule(message, candidate));
+    if (!rule) {
+      skipped.push(message.id);
+      continue;
+    }
+
+    const template = library.templates.find((item) => item.id === rule.templateId);
+    const locale = detectLanguage(`${message.subject}\n${message.snippet}`);
+    let reply =
+      rule.actions.includes("reply") && template
+        ? renderTemplate(template, templateContext(message, myName, locale), library.signature, locale)
+        : null;
+    const issues = reply && checkReply && message.threadId
+      ? await checkReply({ messageId: message.id, threadId: message.threadId })
+      : [];
+    if (issues.length) reply = null;
+    const outcome: RuleOutcome = {
+      messageId: message.id,
+      threadId: message.threadId,
+      subject: message.subject,
+      from: message.from,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      actions: rule.actions,
+      reply,
+      ...(issues.length ? { replyBlocked: describeIssues(issues) } : {}),
+      status: "planned",
+    };
+
+    if (!dryRun) {
+      const sent = reply && message.threadId && template
+        ? {
+            messageId: message.id,
+            threadId: message.threadId,
+            subject: message.subject,
+            body: reply,
+            analytics: {
+              origin: "template" as const,
+              templateId: template.id,
+              templateName: template.label,
+              editRatio: 0,
+              receivedAt: message.internalDate,
+            },
+          }
+        : null;
+
+      try {
+        if (sent) {
+          await sendRuleReply(gmail, sent, owner);
+          await recordReplies(gmail, owner, owner, [sent]);
+        }
+      } catch (error) {
+        console.error(`Rule "${rule.name}" failed to reply to message ${message.id}`, error);
+        outcome.status = "failed";
+        outcome.error = error instanceof Error ? error.message : "Unknown error";
+      }
+
+      if (outcome.status !== "failed") {
+        try {
+          await applyLabelActions(gmail, message, rule);
+          outcome.status = "applied";
+        } catch (error) {
+          console.error(`Rule "${rule.name}" failed to update labels on message ${message.id}`, error);
+          const reason = error instanceof Error ? error.message : "Unknown error";
+          // Once the reply is out the message is handled either way; running it again would reply twice.
+          if (sent) {
+            outcome.status = "applied";
+            outcome.warning = `The reply was sent, but the label actions failed: ${reason}`;
+          } else {
+            outcome.status = "failed";
+            outcome.error = reason;
+          }
+        }
+      }
+    }
+
+    outcomes.push(outcome);
+  }
+
+  if (!dryRun) {
+    const cutoff = startedAt.getTime() - PROCESSED_RETENTION_MS;
+    // With mail left over, the next run picks up from the newest message looked at this time.
+    const lastRunAt =
+      waiting.length > batch.length && newestSeen ? new Date(newestSeen).toISOString() : startedAt.toISOString();
+
+    await updateStore<RuleStore>(STORE, {}, (store) => {
+      const current = store[owner] ?? EMPTY_STATE;
+      const processed = Object.fromEntries(
+        Object.entries(current.processed).filter(([, at]) => new Date(at).getTime() > cutoff),
+      );
+      for (const id of [
+        ...skipped,
+        ...outcomes.filter((outcome) => outcome.status === "applied").map((outcome) => outcome.messageId),
+      ]) {
+        processed[id] = startedAt.toISOString();
+      }
+
+      const retry = Object.fromEntries(
+        Object.entries(current.retry ?? {}).filter(([id]) => !batch.includes(id) && !processed[id]),
+      );
+      for (const { messageId, ruleName } of outcomes.filter((outcome) => outcome.status === "failed")) {
+        const attempts = (current.retry?.[messageId] ?? 0) + 1;
+        if (attempts < MAX_ATTEMPTS) {
+          retry[messageId] = attempts;
+        } else {
+          console.error(`Giving up on message ${messageId} after rule "${ruleName}" failed ${attempts} times`);
+          processed[messageId] = startedAt.toISOString();
+        }
+      }
+      return { ...store, [owner]: { ...current, processed, retry, lastRunAt } };
+    });
+  }
+
+  return { ranAt: startedAt.toISOString(), dryRun, outcomes };
+}
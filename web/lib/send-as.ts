@@ -0,0 +1,66 @@
+import type { gmail_v1 } from "googleapis";
+
+/** A Gmail "send mail as" identity the account may use in `From`. */
+export type SendAsAlias = {
+  address: string;
+  displayName: string | null;
+  /** Gmail's signature for this alias, as HTML; null when there is none. */
+  signature: string | null;
+  isPrimary: boolean;
+  isDefault: boolean;
+};
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'", nbsp: " " };
+
+/** Skips aliases Gmail hasn't verified yet, since sending from them fails. */
+export function fromGmailSendAs(entry: gmail_v1.Schema$SendAs): SendAsAlias | null {
+  if (!entry.sendAsEmail) return null;
+  if (!entry.isPrimary && entry.verificationStatus && entry.verificationStatus !== "accepted") return null;
+
+  return {
+    address: entry.sendAsEmail.toLowerCase(),
+    displayName: entry.displayName?.trim() || null,
+    signature: entry.signature?.trim() || null,
+    isPrimary: Boolean(entry.isPrimary),
+    isDefault: Boolean(entry.isDefault),
+  };
+}
+
+export async function listSendAs(gmail: gmail_v1.Gmail) {
+  const { data } = await gmail.users.settings.sendAs.list({ userId: "me" });
+  return (data.sendAs ?? [])
+    .map(fromGmailSendAs)
+    .filter((alias): alias is SendAsAlias => Boolean(alias));
+}
+
+/**
+ * The alias a reply should come from: the first of the original message's
+ * recipients (To, then Cc, then Delivered-To) that is an alias, else Gmail's
+ * default, else the primary address.
+ */
+export function defaultAlias(aliases: SendAsAlias[], recipients: string[] | null | undefined) {
+  const addressed = (recipients ?? []).map((address) => address.toLowerCase());
+  return (
+    addressed.map((address) => aliases.find((alias) => alias.address === address)).find(Boolean) ??
+    aliases.find((alias) => alias.isDefault) ??
+    aliases.find((alias) => alias.isPrimary) ??
+    aliases[0] ??
+    null
+  );
+}
+
+export function describeAlias(alias: SendAsAlias) {
+  return alias.displayName ? `${alias.displayName} <${alias.address}>` : alias.address;
+}
+
+/** Plain-text rendering of an HTML signature for the text/plain part. */
+export function signatureText(html: string) {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(?:p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => ENTITIES[entity])
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,252 @@
+import { randomUUID } from "node:crypto";
+
+import { getAccount, gmailForAccount } from "@/lib/accounts";
+import { recordReplies } from "@/lib/analytics-store";
+import { holdForSend, releaseSend } from "@/lib/collab-store";
+import { ValidationError } from "@/lib/errors";
+import { createReplyGuard } from "@/lib/reply-guard";
+import { describeIssues } from "@/lib/reply-safety";
+import { sendReply, type DraftPayload } from "@/lib/reply";
+import { readStore, updateStore } from "@/lib/store";
+
+export type QueuedPayload = DraftPayload & { messageId: string; threadId: string };
+
+export type QueuedSendStatus = "queued" | "sending" | "sent" | "failed" | "cancelled";
+
+export type QueuedSend = {
+  id: string;
+  owner: string;
+  /** The inbox the reply goes out from; the owner's own unless it's a linked account. */
+  account: string;
+  messageId: string;
+  threadId: string;
+  to: string | null;
+  subject: string | null;
+  sendAt: string;
+  createdAt: string;
+  status: QueuedSendStatus;
+  error?: string;
+  /** Set on a sent reply whose post-send label changes failed. */
+  warning?: string;
+  /** The sender confirmed past the safety checks, so they aren't run again at send time. */
+  allowUnsafe?: boolean;
+  /** When a run claimed it for sending; see `CLAIM_TIMEOUT_MS`. */
+  claimedAt?: string;
+  payload: QueuedPayload;
+};
+
+/** What the browser sees: everything except the stored message payload. */
+export type QueuedSendSummary = Omit<QueuedSend, "payload">;
+
+type QueueStore = Record<string, QueuedSend>;
+
+const STORE = "send-queue";
+const MAX_UNDO_SECONDS = 120;
+const FINISHED_RETENTION_MS = 24 * 60 * 60 * 1000;
+// A send takes seconds; an item still "sending" after this lost its process and is queued again.
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function summarize(item: QueuedSend): QueuedSendSummary {
+  return {
+    id: item.id,
+    owner: item.owner,
+    account: item.account,
+    messageId: item.messageId,
+    threadId: item.threadId,
+    to: item.to,
+    subject: item.subject,
+    sendAt: item.sendAt,
+    createdAt: item.createdAt,
+    status: item.status,
+    error: item.error,
+    warning: item.warning,
+  };
+}
+
+/**
+ * Works out when a reply should go out: an explicit `sendAt` wins, otherwise
+ * `undoSeconds` from now. Returns null for an immediate send.
+ */
+export function resolveSendAt(options: { sendAt?: string | null; undoSeconds?: number | null }, now = new Date()) {
+  if (options.sendAt) {
+    const sendAt = new Date(options.sendAt);
+    if (Number.isNaN(sendAt.getTime())) {
+      throw new ValidationError("Invalid send time");
+    }
+    if (sendAt.getTime() <= now.getTime()) {
+      throw new ValidationError("Scheduled send time must be in the future");
+    }
+    return sendAt;
+  }
+
+  const undoSeconds = Math.min(Math.max(Math.round(options.undoSeconds ?? 0), 0), MAX_UNDO_SECONDS);
+  return undoSeconds ? new Date(now.getTime() + undoSeconds * 1000) : null;
+}
+
+/**
+ * Queues a reply to go out at `sendAt` from `account`. The sender stays
+ * present in the thread until it has gone out or been cancelled.
+ */
+export async function enqueueSend(
+  owner: string,
+  payload: QueuedPayload,
+  sendAt: Date,
+  account = owner,
+  options: { ownerName?: string | null; allowUnsafe?: boolean } = {},
+) {
+  const item: QueuedSend = {
+    id: randomUUID(),
+    owner,
+    account,
+    messageId: payload.messageId,
+    threadId: payload.threadId,
+    to: payload.to ?? null,
+    subject: payload.subject ?? null,
+    sendAt: sendAt.toISOString(),
+    createdAt: new Date().toISOString(),
+    status: "queued",
+    ...(options.allowUnsafe ? { allowUnsafe: true } : {}),
+    payload,
+  };
+
+  await updateStore<QueueStore>(STORE, {}, (queue) => ({ ...queue, [item.id]: item }));
+  await holdForSend(
+    account,
+    item.threadId,
+    { email: owner, name: options.ownerName ?? null },
+    item.id,
+    new Date(sendAt.getTime() + CLAIM_TIMEOUT_MS),
+  );
+  scheduleProcessing(item);
+  return item;
+}
+
+export async function listQueue(owner: string) {
+  const queue = await readStore<QueueStore>(STORE, {});
+  return Object.values(queue)
+    .filter((item) => item.owner === owner && item.status !== "cancelled")
+    .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+}
+
+export async function queuedSendStatus(id: string) {
+  const queue = await readStore<QueueStore>(STORE, {});
+  return queue[id]?.status ?? null;
+}
+
+/**
+ * Cancels a queued send. Returns null when it doesn't exist or is already
+ * past the point of no return.
+ */
+export async function cancelSend(owner: string, id: string) {
+  let cancelled: QueuedSend | null = null;
+
+  await updateStore<QueueStore>(STORE, {}, (queue) => {
+    const item = queue[id];
+    if (!item || item.owner !== owner || item.status !== "queued") return queue;
+    cancelled = { ...item, status: "cancelled" };
+    return { ...queue, [id]: cancelled };
+  });
+
+  const item = cancelled as QueuedSend | null;
+  if (item) {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+    await releaseSend(item.account, id);
+  }
+  return item;
+}
+
+async function claimDue(now: Date, owner?: string) {
+  const claimed: QueuedSend[] = [];
+  const cutoff = now.getTime() - FINISHED_RETENTION_MS;
+
+  await updateStore<QueueStore>(STORE, {}, (queue) => {
+    const next: QueueStore = {};
+    for (const stored of Object.values(queue)) {
+      const finished = stored.status !== "queued" && stored.status !== "sending";
+      if (finished && new Date(stored.sendAt).getTime() < cutoff) continue;
+
+      // A claim this old belongs to a run that died mid-send, so the item goes back in the queue.
+      const stale =
+        stored.status === "sending" &&
+        now.getTime() - new Date(stored.claimedAt ?? stored.sendAt).getTime() > CLAIM_TIMEOUT_MS;
+      const item: QueuedSend = stale ? { ...stored, status: "queued" } : stored;
+
+      const due = item.status === "queued" && new Date(item.sendAt).getTime() <= now.getTime();
+      if (due && (!owner || item.owner === owner)) {
+        const sending = { ...item, status: "sending" as const, claimedAt: now.toISOString() };
+        claimed.push(sending);
+        next[item.id] = sending;
+      } else {
+        next[item.id] = item;
+      }
+    }
+    return next;
+  });
+
+  return claimed;
+}
+
+async function finish(id: string, outcome: Pick<QueuedSend, "status" | "error" | "warning">) {
+  await updateStore<QueueStore>(STORE, {}, (queue) =>
+    queue[id] ? { ...queue, [id]: { ...queue[id], ...outcome } } : queue,
+  );
+}
+
+/**
+ * Sends every queued reply whose time has come, optionally for one owner.
+ * Items are claimed before sending, so overlapping runs can't double-send,
+ * and the safety checks run again first, since a teammate may have taken
+ * the thread in the meantime.
+ */
+export async function processDueSends(owner?: string, now = new Date()) {
+  const results: QueuedSendSummary[] = [];
+
+  for (const item of await claimDue(now, owner)) {
+    const address = item.account;
+    try {
+      const account = await getAccount(address);
+      if (!account) {
+        throw new Error("No stored credentials for this account");
+      }
+      const gmail = gmailForAccount(account);
+      if (!item.allowUnsafe) {
+        const check = await createReplyGuard(gmail, item.owner, address, now);
+        const issues = await check(item.payload);
+        if (issues.length) throw new Error(describeIssues(issues));
+      }
+      const { warning } = await sendReply(gmail, item.payload, address);
+      const outcome = { status: "sent" as const, ...(warning ? { warning } : {}) };
+      await finish(item.id, outcome);
+      await recordReplies(gmail, item.owner, address, [item.payload]);
+      results.push(summarize({ ...item, ...outcome }));
+    } catch (error) {
+      console.error(`Failed to send queued reply ${item.id}`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await finish(item.id, { status: "failed", error: message });
+      results.push(summarize({ ...item, status: "failed", error: message }));
+    }
+    await releaseSend(address, item.id);
+  }
+
+  return results;
+}
+
+/**
+ * Best-effort in-process timer so undo windows complete on a long-running
+ * server. The persisted queue plus `/api/send-queue/process` covers restarts
+ * and serverless hosts.
+ */
+function scheduleProcessing(item: QueuedSend) {
+  const delay = Math.max(new Date(item.sendAt).getTime() - Date.now(), 0);
+  if (delay > 2 ** 31 - 1) return;
+
+  const timer = setTimeout(() => {
+    timers.delete(item.id);
+    processDueSends(item.owner).catch((error) => console.error("Failed to process send queue", error));
+  }, delay);
+  timer.unref?.();
+  timers.set(item.id, timer);
+}
@@ -0,0 +1,197 @@
+import type { gmail_v1, people_v1 } from "googleapis";
+
+import { listReplyEvents } from "@/lib/analytics-store";
+import { ValidationError } from "@/lib/errors";
+import { headerValue, parseEmailAddress } from "@/lib/gmail-message";
+import { errorStatus, mapWithConcurrency } from "@/lib/pool";
+import {
+  EMPTY_NOTES,
+  isWebmailDomain,
+  MAX_NOTES_LENGTH,
+  normalizeTags,
+  senderDomain,
+  type SenderContact,
+  type SenderNotes,
+  type SenderProfile,
+  type SenderThread,
+} from "@/lib/sender-profile";
+import { readStore, updateStore } from "@/lib/store";
+
+// mailbox address -> sender address -> notes
+type NotesStore = Record<string, Record<string, SenderNotes>>;
+
+const STORE = "sender-notes";
+const MAX_THREADS = 5;
+// Enough messages to find MAX_THREADS distinct threads in most inboxes.
+const SEARCH_PAGE_SIZE = 25;
+const METADATA_CONCURRENCY = 4;
+const CONTACT_FIELDS = "names,emailAddresses,organizations,phoneNumbers,photos";
+
+export async function getSenderNotes(mailbox: string, address: string) {
+  const store = await readStore<NotesStore>(STORE, {});
+  return store[mailbox.toLowerCase()]?.[address.toLowerCase()] ?? EMPTY_NOTES;
+}
+
+export async function saveSenderNotes(
+  mailbox: string,
+  address: string,
+  input: { notes?: unknown; tags?: unknown },
+  updatedBy: string,
+) {
+  const notes = typeof input.notes === "string" ? input.notes.trim() : "";
+  if (notes.length > MAX_NOTES_LENGTH) {
+    throw new ValidationError(`Notes are limited to ${MAX_NOTES_LENGTH} characters`);
+  }
+
+  const saved: SenderNotes = {
+    notes,
+    tags: normalizeTags(input.tags),
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  };
+  const key = mailbox.toLowerCase();
+
+  await updateStore<NotesStore>(STORE, {}, (store) => ({
+    ...store,
+    [key]: { ...store[key], [address.toLowerCase()]: saved },
+  }));
+  return saved;
+}
+
+async function searchMessages(gmail: gmail_v1.Gmail, q: string) {
+  const { data } = await gmail.users.messages.list({ userId: "me", q, maxResults: SEARCH_PAGE_SIZE });
+  return { messages: data.messages ?? [], total: data.resultSizeEstimate ?? data.messages?.length ?? 0 };
+}
+
+async function describeMessages(gmail: gmail_v1.Gmail, refs: gmail_v1.Schema$Message[]) {
+  const outcomes = await mapWithConcurrency(
+    refs,
+    (ref) =>
+      gmail.users.messages.get({
+        userId: "me",
+        id: ref.id ?? "",
+        format: "metadata",
+        metadataHeaders: ["Subject", "From", "Date"],
+      }),
+    { concurrency: METADATA_CONCURRENCY },
+  );
+
+  return outcomes.flatMap((outcome): SenderThread[] => {
+    if (!outcome.ok) throw outcome.error;
+    const { data } = outcome.value;
+    const headers = data.payload?.headers ?? [];
+    if (!data.id || !data.threadId) return [];
+    return [
+      {
+        threadId: data.threadId,
+        messageId: data.id,
+        subject: headerValue(headers, "Subject") || "(no subject)",
+        from: headerValue(headers, "From"),
+        snippet: data.snippet ?? "",
+        date: data.internalDate ? new Date(Number(data.internalDate)).toISOString() : null,
+      },
+    ];
+  });
+}
+
+/** The first (newest) message of each thread, leaving out `exclude`, up to MAX_THREADS. */
+function distinctThreads(refs: gmail_v1.Schema$Message[], exclude: string | null) {
+  const seen = new Set(exclude ? [exclude] : []);
+  return refs
+    .filter((ref) => {
+      if (!ref.id || !ref.threadId || seen.has(ref.threadId)) return false;
+      seen.add(ref.threadId);
+      return true;
+    })
+    .slice(0, MAX_THREADS);
+}
+
+/**
+ * Looks the address up in the account's Google Contacts. Returns null when
+ * the contacts scope wasn't granted or there is no People client (the
+ * offline fake), so the sidebar just leaves the section out.
+ */
+async function lookupContact(people: people_v1.People | null, address: string): Promise<SenderContact | null> {
+  if (!people) return null;
+
+  try {
+    const { data } = await people.people.searchContacts({ query: address, readMask: CONTACT_FIELDS, pageSize: 5 });
+    const person = (data.results ?? [])
+      .map((result) => result.person)
+      .find((match) => match?.emailAddresses?.some((entry) => entry.value?.toLowerCase() === address));
+    if (!person) {
+      return { name: null, organization: null, title: null, phone: null, photoUrl: null };
+    }
+    const organization = person.organizations?.[0];
+    return {
+      name: person.names?.[0]?.displayName ?? null,
+      organization: organization?.name ?? null,
+      title: organization?.title ?? null,
+      phone: person.phoneNumbers?.[0]?.value ?? null,
+      photoUrl: person.photos?.find((photo) => !photo.default)?.url ?? null,
+    };
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status !== 403 && status !== 401) console.error("Failed to look up Google contact", error);
+    return null;
+  }
+}
+
+/**
+ * Everything the sidebar shows about a sender: earlier threads with them and
+ * their company, our last reply and how quickly `owner` usually answers,
+ * their Google contact and the team's notes.
+ */
+export async function loadSenderProfile(
+  gmail: gmail_v1.Gmail,
+  people: people_v1.People | null,
+  owner: string | null | undefined,
+  mailbox: string,
+  address: string,
+  currentThreadId: string | null,
+): Promise<SenderProfile> {
+  const sender = address.toLowerCase();
+  const domain = senderDomain(sender);
+  const ownDomain = senderDomain(mailbox);
+  const groupByDomain = domain && domain !== ownDomain && !isWebmailDomain(domain);
+
+  const [received, sent, fromDomain, events, contact, notes] = await Promise.all([
+    searchMessages(gmail, `from:${sender}`),
+    searchMessages(gmail, `in:sent to:${sender}`),
+    groupByDomain ? searchMessages(gmail, `from:${domain}`) : Promise.resolve({ messages: [], total: 0 }),
+    owner ? listReplyEvents(owner) : Promise.resolve([]),
+    lookupContact(people, sender),
+    getSenderNotes(mailbox, sender),
+  ]);
+
+  // Search results carry no dates, so both lists are described and merged by date afterwards.
+  const [fromThem, toThem, [lastReply], domainCandidates] = await Promise.all([
+    describeMessages(gmail, distinctThreads(received.messages, currentThreadId)),
+    describeMessages(gmail, distinctThreads(sent.messages, currentThreadId)),
+    describeMessages(gmail, sent.messages.slice(0, 1)),
+    describeMessages(gmail, distinctThreads(fromDomain.messages, currentThreadId)),
+  ]);
+
+  const threads = new Map<string, SenderThread>();
+  for (const thread of [...fromThem, ...toThem].sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""))) {
+    if (!threads.has(thread.threadId)) threads.set(thread.threadId, thread);
+  }
+  const answered = events.filter((event) => event.sender === sender && event.responseSeconds !== null);
+  const domainThreads = domainCandidates.filter(
+    (thread) => parseEmailAddress(thread.from).address?.toLowerCase() !== sender,
+  );
+
+  return {
+    address: sender,
+    domain,
+    threads: [...threads.values()].slice(0, MAX_THREADS),
+    domainThreads,
+    lastReply: lastReply ?? null,
+    repliesSent: sent.total,
+    averageResponseSeconds: answered.length
+      ? answered.reduce((total, event) => total + (event.responseSeconds ?? 0), 0) / answered.length
+      : null,
+    contact,
+    notes,
+  };
+}
@@ -0,0 +1,90 @@
+/** A past conversation with a sender, as listed in the sidebar. */
+export type SenderThread = {
+  threadId: string;
+  messageId: string;
+  subject: string;
+  from: string | null;
+  snippet: string;
+  date: string | null;
+};
+
+/** Details from the user's Google Contacts, when the contacts scope was granted. */
+export type SenderContact = {
+  name: string | null;
+  organization: string | null;
+  title: string | null;
+  phone: string | null;
+  photoUrl: string | null;
+};
+
+/** Notes and tags the team keeps about a sender, shared by everyone with the inbox. */
+export type SenderNotes = {
+  notes: string;
+  tags: string[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+};
+
+export type SenderProfile = {
+  address: string;
+  domain: string | null;
+  /** Earlier threads with this address, newest first; the current thread is left out. */
+  threads: SenderThread[];
+  /** Recent threads with other people at the same company; empty for webmail domains. */
+  domainThreads: SenderThread[];
+  /** Our most recent sent message to this address. */
+  lastReply: SenderThread | null;
+  repliesSent: number;
+  averageResponseSeconds: number | null;
+  /** Null when contacts aren't available, not just when there's no match. */
+  contact: SenderContact | null;
+  notes: SenderNotes;
+};
+
+export const EMPTY_NOTES: SenderNotes = { notes: "", tags: [], updatedAt: null, updatedBy: null };
+
+const MAX_TAGS = 12;
+const MAX_TAG_LENGTH = 32;
+export const MAX_NOTES_LENGTH = 4000;
+
+// Addresses here say nothing about a company, so there's no point grouping by domain.
+const WEBMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "gmx.de",
+  "web.de",
+]);
+
+export function senderDomain(address: string | null | undefined) {
+  return address?.split("@")[1]?.trim().toLowerCase() || null;
+}
+
+export function isWebmailDomain(domain: string) {
+  return WEBMAIL_DOMAINS.has(domain.toLowerCase());
+}
+
+/** Trims, lowercases and dedupes tags: "VIP, Billing ,vip" becomes ["vip", "billing"]. */
+export function normalizeTags(tags: unknown) {
+  const list = Array.isArray(tags) ? tags : typeof tags === "string" ? tags.split(",") : [];
+  const cleaned = list
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(cleaned)].slice(0, MAX_TAGS);
+}
+
+/** True for a first contact: nothing from or to them before this thread. */
+export function isFirstContact(profile: SenderProfile) {
+  return !profile.threads.length && !profile.lastReply;
+}
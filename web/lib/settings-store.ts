@@ -0,0 +1,95 @@
+import { ValidationError } from "@/lib/errors";
+import {
+  DEFAULT_SETTINGS,
+  normalizePostSend,
+  UNDO_SECONDS_OPTIONS,
+  type PostSendActions,
+  type UserSettings,
+} from "@/lib/settings";
+import { readStore, updateStore } from "@/lib/store";
+
+type StoredSettings = UserSettings & {
+  /**
+   * Post-send actions for linked inboxes, by address. Label IDs only mean
+   * something in the inbox they were picked from, so `postSend` is for the
+   * user's own inbox only.
+   */
+  accountPostSend?: Record<string, PostSendActions>;
+};
+
+type SettingsStore = Record<string, StoredSettings>;
+
+const STORE = "settings";
+
+function withDefaults(stored: Partial<StoredSettings> | undefined): StoredSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    postSend: normalizePostSend(stored?.postSend, DEFAULT_SETTINGS.postSend),
+  };
+}
+
+function isOtherAccount(owner: string, account: string | null | undefined): account is string {
+  return Boolean(account) && account !== owner;
+}
+
+/**
+ * `owner`'s settings as seen from `account`'s inbox. A linked inbox without
+ * its own post-send actions takes the owner's flags but none of their labels.
+ */
+function settingsFor(owner: string, stored: StoredSettings, account: string | null | undefined): UserSettings {
+  const { accountPostSend, ...settings } = stored;
+  if (!isOtherAccount(owner, account)) return settings;
+
+  const own = accountPostSend?.[account];
+  return {
+    ...settings,
+    postSend: own
+      ? normalizePostSend(own, DEFAULT_SETTINGS.postSend)
+      : { ...settings.postSend, addLabelIds: [], removeLabelIds: [], moveToLabelId: null },
+  };
+}
+
+export async function getUserSettings(owner: string, account?: string | null): Promise<UserSettings> {
+  const store = await readStore<SettingsStore>(STORE, {});
+  return settingsFor(owner, withDefaults(store[owner]), account);
+}
+
+/** Saves `owner`'s settings; post-send actions are saved for `account`'s inbox, their own by default. */
+export async function updateUserSettings(owner: string, input: Partial<UserSettings>, account?: string | null) {
+  if (input.undoSeconds !== undefined && !UNDO_SECONDS_OPTIONS.includes(input.undoSeconds)) {
+    throw new ValidationError("Unsupported undo window");
+  }
+
+  const store = await updateStore<SettingsStore>(STORE, {}, (current) => {
+    const existing = withDefaults(current[owner]);
+    const undo = input.undoSeconds !== undefined ? { undoSeconds: input.undoSeconds } : {};
+
+    if (!isOtherAccount(owner, account)) {
+      return {
+        ...current,
+        [owner]: { ...existing, ...undo, postSend: normalizePostSend(input.postSend, existing.postSend) },
+      };
+    }
+
+    const postSend = normalizePostSend(input.postSend, settingsFor(owner, existing, account).postSend);
+    return {
+      ...current,
+      [owner]: { ...existing, ...undo, accountPostSend: { ...existing.accountPostSend, [account]: postSend } },
+    };
+  });
+  return settingsFor(owner, store[owner], account);
+}
+
+/**
+ * The post-send actions for one reply from `account`'s inbox: its own
+ * overrides on top of the owner's saved defaults for that inbox.
+ */
+export async function resolvePostSend(
+  owner: string | null | undefined,
+  account: string | null | undefined,
+  override: Partial<PostSendActions> | null | undefined,
+) {
+  const defaults = owner ? (await getUserSettings(owner, account)).postSend : DEFAULT_SETTINGS.postSend;
+  return normalizePostSend(override, defaults);
+}
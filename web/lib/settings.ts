@@ -0,0 +1,82 @@
+/** What happens to the answered message once a reply has gone out. */
+export type PostSendActions = {
+  markRead: boolean;
+  star: boolean;
+  archive: boolean;
+  addLabelIds: string[];
+  removeLabelIds: string[];
+  /** Files the message under this label and takes it out of the inbox, like moving it to a folder. */
+  moveToLabelId: string | null;
+};
+
+export type UserSettings = {
+  /** Seconds a reply waits in the send queue before going out; 0 sends immediately. */
+  undoSeconds: number;
+  postSend: PostSendActions;
+};
+
+export const UNDO_SECONDS_OPTIONS = [0, 5, 10, 20, 30];
+
+export const DEFAULT_POST_SEND: PostSendActions = {
+  markRead: true,
+  star: true,
+  archive: false,
+  addLabelIds: [],
+  removeLabelIds: [],
+  moveToLabelId: null,
+};
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  undoSeconds: 10,
+  postSend: DEFAULT_POST_SEND,
+};
+
+function labelIds(value: unknown, fallback: string[]) {
+  if (!Array.isArray(value)) return fallback;
+  return [...new Set(value.filter((entry): entry is string => typeof entry === "string" && Boolean(entry.trim())))];
+}
+
+/**
+ * Fills gaps in (possibly user-supplied) post-send actions from `fallback`
+ * and drops anything that isn't the right shape.
+ */
+export function normalizePostSend(
+  input: Partial<PostSendActions> | null | undefined,
+  fallback: PostSendActions = DEFAULT_POST_SEND,
+): PostSendActions {
+  if (!input) return fallback;
+  const flag = (value: unknown, current: boolean) => (typeof value === "boolean" ? value : current);
+
+  return {
+    markRead: flag(input.markRead, fallback.markRead),
+    star: flag(input.star, fallback.star),
+    archive: flag(input.archive, fallback.archive),
+    addLabelIds: labelIds(input.addLabelIds, fallback.addLabelIds),
+    removeLabelIds: labelIds(input.removeLabelIds, fallback.removeLabelIds),
+    moveToLabelId:
+      input.moveToLabelId === undefined
+        ? fallback.moveToLabelId
+        : typeof input.moveToLabelId === "string" && input.moveToLabelId
+          ? input.moveToLabelId
+          : null,
+  };
+}
+
+/** Translates post-send actions into a single Gmail label change. */
+export function postSendLabelChanges(actions: PostSendActions) {
+  const addLabelIds = new Set(actions.addLabelIds);
+  const removeLabelIds = new Set(actions.removeLabelIds);
+
+  if (actions.star) addLabelIds.add("STARRED");
+  if (actions.markRead) removeLabelIds.add("UNREAD");
+  if (actions.archive) removeLabelIds.add("INBOX");
+  if (actions.moveToLabelId) {
+    addLabelIds.add(actions.moveToLabelId);
+    removeLabelIds.add("INBOX");
+  }
+
+  // Gmail rejects a request that adds and removes the same label.
+  for (const id of addLabelIds) removeLabelIds.delete(id);
+
+  return { addLabelIds: [...addLabelIds], removeLabelIds: [...removeLabelIds] };
+}
@@ -0,0 +1,88 @@
+import type { ReplyLocale } from "@/lib/locale";
+import {
+  latestText,
+  withSignature,
+  type DraftProvider,
+  type DraftRequest,
+} from "@/lib/smart-draft";
+
+type OpenAiCompatibleConfig = {
+  /** Base URL including the version prefix, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey: string | null;
+  timeoutMs: number;
+};
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+const LANGUAGE_NAMES: Record<ReplyLocale, string> = {
+  en: "English",
+  de: "German",
+  es: "Spanish",
+  fr: "French",
+};
+
+const SYSTEM_PROMPT = [
+  "You draft email replies on behalf of the user.",
+  "Write only the reply body: no subject line, no quoted history, no signature block.",
+  "Be concise, friendly and specific to the latest message. Never invent facts, prices or dates;",
+  "use a [placeholder] where the user must fill something in.",
+].join(" ");
+
+function transcript({ message, thread, myName, myAddress, locale }: DraftRequest) {
+  const earlier = thread.map(
+    (item) => `From: ${item.from ?? "unknown"}\nDate: ${item.date ?? "unknown"}\n\n${latestText(item)}`,
+  );
+
+  return [
+    `I am ${myName ?? "the recipient"}${myAddress ? ` <${myAddress}>` : ""}. Write the reply in ${LANGUAGE_NAMES[locale]}.`,
+    earlier.length ? `Earlier messages in the conversation:\n\n${earlier.join("\n\n---\n\n")}` : null,
+    `Reply to this message:\n\nFrom: ${message.from ?? "unknown"}\nSubject: ${message.subject}\n\n${latestText(message)}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n=====\n\n");
+}
+
+/**
+ * Adapter for any server exposing the OpenAI chat completions API, such as
+ * Ollama (`/v1`), llama.cpp's server or LM Studio.
+ */
+export function openAiCompatibleProvider(config: OpenAiCompatibleConfig): DraftProvider {
+  return {
+    id: "openai-compatible",
+    label: `Local model (${config.model})`,
+    async generate(request) {
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0.3,
+          messages: [
+            { role: "system", content: SYSTEM_PROMPT },
+            { role: "user", content: transcript(request) },
+          ],
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Draft model responded with ${response.status}`);
+      }
+
+      const payload = (await response.json()) as ChatCompletionResponse;
+      const content = payload.choices?.[0]?.message?.content?.trim();
+      if (!content) {
+        throw new Error("Draft model returned an empty completion");
+      }
+
+      return { body: withSignature(`${content}\n`, request.signature) };
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { builtinProvider, type DraftProvider, type DraftRequest, type DraftResult } from "@/lib/smart-draft";
+import { openAiCompatibleProvider } from "@/lib/smart-draft-openai";
+
+export type GeneratedDraft = DraftResult & {
+  provider: { id: string; label: string };
+  fallbackReason?: string;
+};
+
+/**
+ * Picks the provider named by SMART_DRAFT_PROVIDER. Anything other than
+ * "openai-compatible" (or a missing base URL) uses the built-in generator.
+ */
+export function configuredProvider(): DraftProvider {
+  const baseUrl = process.env.SMART_DRAFT_BASE_URL;
+  if (process.env.SMART_DRAFT_PROVIDER === "openai-compatible" && baseUrl) {
+    return openAiCompatibleProvider({
+      baseUrl,
+      model: process.env.SMART_DRAFT_MODEL ?? "llama3.1",
+      apiKey: process.env.SMART_DRAFT_API_KEY ?? null,
+      timeoutMs: Number(process.env.SMART_DRAFT_TIMEOUT_MS ?? 20000),
+    });
+  }
+  return builtinProvider;
+}
+
+export async function generateDraft(request: DraftRequest): Promise<GeneratedDraft> {
+  const provider = configuredProvider();
+
+  try {
+    const result = await provider.generate(request);
+    return { ...result, provider: { id: provider.id, label: provider.label } };
+  } catch (error) {
+    if (provider === builtinProvider) throw error;
+
+    // A local model that is down or slow shouldn't leave the user without a draft.
+    console.error(`Smart draft provider "${provider.id}" failed, using built-in generator`, error);
+    const result = await builtinProvider.generate(request);
+    return {
+      ...result,
+      provider: { id: builtinProvider.id, label: builtinProvider.label },
+      fallbackReason: `${provider.label} unavailable`,
+    };
+  }
+}
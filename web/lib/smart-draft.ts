@@ -0,0 +1,205 @@
+import type { FullMessage } from "@/lib/gmail-message";
+import { givenName, type ReplyLocale } from "@/lib/locale";
+
+export type DraftRequest = {
+  /** The message being answered, with its decoded body. */
+  message: FullMessage;
+  /** Earlier messages in the conversation, oldest first. */
+  thread: FullMessage[];
+  myName: string | null;
+  myAddress: string | null;
+  signature: string | null;
+  /** Language to write the reply in. */
+  locale: ReplyLocale;
+};
+
+export type DraftResult = {
+  body: string;
+  /** What the provider picked up on, e.g. "question" or "meeting". */
+  intents?: string[];
+};
+
+export interface DraftProvider {
+  id: string;
+  label: string;
+  generate(request: DraftRequest): Promise<DraftResult>;
+}
+
+/**
+ * Plain-text body of a message with quoted history and trailing signatures
+ * removed, so generators only see what the sender actually wrote.
+ */
+export function latestText(message: FullMessage) {
+  const text = message.text ?? message.snippet ?? "";
+  const lines: string[] = [];
+
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    if (/^On .+wrote:\s*$/.test(line.trim()) || /^-{2,}\s*Original Message/i.test(line.trim())) break;
+    if (line.trim() === "--") break;
+    if (line.startsWith(">")) continue;
+    lines.push(line);
+  }
+
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+export function withSignature(body: string, signature: string | null) {
+  const trimmed = signature?.trim();
+  return trimmed ? `${body.replace(/\s+$/, "")}\n\n-- \n${trimmed}\n` : body;
+}
+
+// English keywords plus their German, Spanish and French counterparts.
+const MEETING_PATTERN =
+  /(?<!\p{L})(meet(ing)?|call|schedule|availability|available|calendar|zoom|teams|hangout|catch up|sync|slot|time to (talk|chat)|termin|treffen|telefonat|anruf|besprechung|reunión|reunion|llamada|cita|disponibilidad|rendez-vous|réunion|appel|créneau|disponibilité)(?!\p{L})/iu;
+const THANKS_PATTERN =
+  /(?<!\p{L})(thanks|thank you|thx|appreciate[ds]?|grateful|danke|vielen dank|gracias|merci)(?!\p{L})/iu;
+const URGENT_PATTERN =
+  /(?<!\p{L})(urgent|asap|as soon as possible|immediately|today|deadline|dringend|sofort|heute|frist|urgente|hoy|plazo|urgence|aujourd'hui|délai)(?!\p{L})/iu;
+const MAX_QUOTED_QUESTIONS = 3;
+
+type DraftPhrases = {
+  greeting: (name: string | null) => string;
+  welcome: string;
+  followingUp: (subject: string) => string;
+  gettingInTouch: (subject: string) => string;
+  urgent: string;
+  meeting: string;
+  questions: (count: number) => string;
+  answer: string;
+  nextSteps: string;
+  closing: string;
+};
+
+const PHRASES: Record<ReplyLocale, DraftPhrases> = {
+  en: {
+    greeting: (name) => (name ? `Hi ${name},` : "Hello,"),
+    welcome: "You're very welcome — glad I could help. Don't hesitate to reach out if anything else comes up.",
+    followingUp: (subject) => `Thanks for following up on "${subject}".`,
+    gettingInTouch: (subject) => `Thanks for getting in touch about "${subject}".`,
+    urgent: "I understand this is time-sensitive, so I'm prioritising it.",
+    meeting:
+      "Happy to find a time to talk. Could you share two or three windows that work for you this week or next? I'll send an invite for whichever suits us both.",
+    questions: (count) => `To your question${count > 1 ? "s" : ""}:`,
+    answer: "[Your answer]",
+    nextSteps: "I've read through your message and will follow up with the next steps shortly.",
+    closing: "Best,",
+  },
+  de: {
+    greeting: (name) => (name ? `Hallo ${name},` : "Guten Tag,"),
+    welcome: "gern geschehen – schön, dass ich helfen konnte. Melden Sie sich jederzeit, wenn noch etwas ist.",
+    followingUp: (subject) => `danke, dass Sie zu „${subject}“ nachhaken.`,
+    gettingInTouch: (subject) => `vielen Dank für Ihre Nachricht zu „${subject}“.`,
+    urgent: "Mir ist bewusst, dass es eilt, daher kümmere ich mich vorrangig darum.",
+    meeting:
+      "Gerne finden wir einen Termin. Könnten Sie mir zwei oder drei Zeitfenster in dieser oder der nächsten Woche nennen? Ich schicke dann eine Einladung für den passenden Termin.",
+    questions: (count) => (count > 1 ? "Zu Ihren Fragen:" : "Zu Ihrer Frage:"),
+    answer: "[Ihre Antwort]",
+    nextSteps: "Ich habe Ihre Nachricht gelesen und melde mich in Kürze mit den nächsten Schritten.",
+    closing: "Viele Grüße",
+  },
+  es: {
+    greeting: (name) => (name ? `Hola ${name}:` : "Hola:"),
+    welcome: "De nada, me alegra haber podido ayudar. No dudes en escribirme si surge cualquier otra cosa.",
+    followingUp: (subject) => `Gracias por tu seguimiento sobre «${subject}».`,
+    gettingInTouch: (subject) => `Gracias por escribirme sobre «${subject}».`,
+    urgent: "Entiendo que es urgente, así que le doy prioridad.",
+    meeting:
+      "Encantado de buscar un momento para hablar. ¿Podrías indicarme dos o tres horarios que te vengan bien esta semana o la próxima? Te enviaré una invitación para el que nos cuadre a ambos.",
+    questions: (count) => (count > 1 ? "Sobre tus preguntas:" : "Sobre tu pregunta:"),
+    answer: "[Tu respuesta]",
+    nextSteps: "He leído tu mensaje y te escribiré en breve con los próximos pasos.",
+    closing: "Un saludo,",
+  },
+  fr: {
+    greeting: (name) => (name ? `Bonjour ${name},` : "Bonjour,"),
+    welcome: "Avec plaisir, ravi d'avoir pu vous aider. N'hésitez pas à revenir vers moi si besoin.",
+    followingUp: (subject) => `Merci pour votre relance concernant « ${subject} ».`,
+    gettingInTouch: (subject) => `Merci pour votre message concernant « ${subject} ».`,
+    urgent: "Je comprends que c'est urgent, je traite donc votre demande en priorité.",
+    meeting:
+      "Avec plaisir pour en discuter. Pourriez-vous m'indiquer deux ou trois créneaux qui vous conviennent cette semaine ou la suivante ? Je vous enverrai une invitation pour celui qui nous arrange tous les deux.",
+    questions: (count) => (count > 1 ? "Concernant vos questions :" : "Concernant votre question :"),
+    answer: "[Votre réponse]",
+    nextSteps: "J'ai bien lu votre message et je reviens vers vous très prochainement avec la suite.",
+    closing: "Cordialement,",
+  },
+};
+
+function questionsIn(text: string) {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[?？]$/.test(sentence) && sentence.length > 3);
+}
+
+/**
+ * Deterministic drafting: classifies the latest message (questions, meeting
+ * request, thanks, urgency) and assembles a reply from matching paragraphs.
+ * Questions are quoted back with an answer placeholder rather than invented.
+ */
+function draft({ message, thread, myName, myAddress, signature, locale }: DraftRequest) {
+  const phrases = PHRASES[locale] ?? PHRASES.en;
+  const text = latestText(message);
+  const allQuestions = questionsIn(text);
+  const isMeeting = MEETING_PATTERN.test(text) || MEETING_PATTERN.test(message.subject);
+  // Scheduling questions are answered by the meeting paragraph.
+  const questions = isMeeting
+    ? allQuestions.filter((question) => !MEETING_PATTERN.test(question))
+    : allQuestions;
+  const isThanks = THANKS_PATTERN.test(text);
+  const isUrgent = URGENT_PATTERN.test(text) || URGENT_PATTERN.test(message.subject);
+  const weRepliedBefore = thread.some(
+    (earlier) => myAddress && earlier.fromAddress?.toLowerCase() === myAddress.toLowerCase(),
+  );
+
+  const intents = [
+    ...(allQuestions.length ? ["question"] : []),
+    ...(isMeeting ? ["meeting"] : []),
+    ...(isThanks ? ["thanks"] : []),
+    ...(isUrgent ? ["urgent"] : []),
+  ];
+
+  const paragraphs = [phrases.greeting(givenName(message.fromName))];
+
+  if (isThanks && !questions.length && !isMeeting) {
+    paragraphs.push(phrases.welcome);
+  } else {
+    paragraphs.push(
+      weRepliedBefore ? phrases.followingUp(message.subject) : phrases.gettingInTouch(message.subject),
+    );
+
+    if (isUrgent) {
+      paragraphs.push(phrases.urgent);
+    }
+
+    if (isMeeting) {
+      paragraphs.push(phrases.meeting);
+    }
+
+    if (questions.length) {
+      const quoted = questions
+        .slice(0, MAX_QUOTED_QUESTIONS)
+        .map((question) => `> ${question}\n${phrases.answer}`)
+        .join("\n\n");
+      paragraphs.push(`${phrases.questions(questions.length)}\n\n${quoted}`);
+    } else if (!isMeeting) {
+      paragraphs.push(phrases.nextSteps);
+    }
+  }
+
+  paragraphs.push(`${phrases.closing}\n${myName ?? ""}`.trim());
+
+  return {
+    body: withSignature(`${paragraphs.join("\n\n")}\n`, signature),
+    intents,
+  };
+}
+
+export const builtinProvider: DraftProvider = {
+  id: "builtin",
+  label: "Built-in generator",
+  async generate(request) {
+    return draft(request);
+  },
+};
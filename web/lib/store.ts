@@ -0,0 +1,51 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+
+const queues = new Map<string, Promise<unknown>>();
+
+function storePath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(storePath(name), "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+async function writeStore<T>(name: string, value: T) {
+  await mkdir(DATA_DIR, { recursive: true });
+  const target = storePath(name);
+  const temporary = `${target}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(value, null, 2), "utf8");
+  await rename(temporary, target);
+}
+
+/**
+ * Read-modify-write of a JSON store file. Updates to the same store are
+ * serialised within the process so concurrent requests don't drop writes.
+ */
+export async function updateStore<T>(
+  name: string,
+  fallback: T,
+  updater: (current: T) => T | Promise<T>,
+): Promise<T> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const updated = await updater(await readStore(name, fallback));
+      await writeStore(name, updated);
+      return updated;
+    });
+
+  queues.set(name, next);
+  return next;
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "node:crypto";
+
+import { ValidationError } from "@/lib/errors";
+import { isReplyLocale } from "@/lib/locale";
+import { readStore, updateStore } from "@/lib/store";
+import { DEFAULT_LIBRARY, type ReplyTemplate, type TemplateLibrary } from "@/lib/templates";
+
+export type TemplateInput = Partial<Pick<ReplyTemplate, "label" | "category" | "body" | "variants" | "includeSignature">>;
+
+type TemplateStore = Record<string, TemplateLibrary>;
+
+const STORE = "templates";
+
+// Empty variants are dropped so those languages fall back to the main body.
+function normalizeVariants(variants: unknown): ReplyTemplate["variants"] {
+  if (!variants || typeof variants !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(variants).filter(
+      ([locale, body]) => isReplyLocale(locale) && typeof body === "string" && body.trim(),
+    ),
+  );
+}
+
+function normalizeTemplate(input: TemplateInput, existing?: ReplyTemplate): ReplyTemplate {
+  const now = new Date().toISOString();
+  const merged = { ...existing, ...input };
+
+  const label = merged.label?.trim();
+  if (!label) {
+    throw new ValidationError("Template name is required");
+  }
+
+  const body = merged.body ?? "";
+  if (!body.trim()) {
+    throw new ValidationError("Template body is required");
+  }
+
+  return {
+    id: existing?.id ?? randomUUID(),
+    label,
+    category: merged.category?.trim() || "General",
+    body,
+    variants: normalizeVariants(merged.variants),
+    includeSignature: merged.includeSignature ?? true,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+export async function getTemplateLibrary(owner: string) {
+  const store = await readStore<TemplateStore>(STORE, {});
+  return store[owner] ?? DEFAULT_LIBRARY;
+}
+
+async function updateLibrary(owner: string, updater: (library: TemplateLibrary) => TemplateLibrary) {
+  const store = await updateStore<TemplateStore>(STORE, {}, (current) => ({
+    ...current,
+    [owner]: updater(current[owner] ?? DEFAULT_LIBRARY),
+  }));
+  return store[owner];
+}
+
+export async function createTemplate(owner: string, input: TemplateInput) {
+  const template = normalizeTemplate(input);
+  await updateLibrary(owner, (library) => ({
+    ...library,
+    templates: [...library.templates, template],
+  }));
+  return template;
+}
+
+export async function updateTemplate(owner: string, id: string, input: TemplateInput) {
+  const library = await updateLibrary(owner, (current) => ({
+    ...current,
+    templates: current.templates.map((template) =>
+      template.id === id ? normalizeTemplate(input, template) : template,
+    ),
+  }));
+  return library.templates.find((template) => template.id === id) ?? null;
+}
+
+export async function deleteTemplate(owner: string, id: string) {
+  await updateLibrary(owner, (library) => ({
+    ...library,
+    templates: library.templates.filter((template) => template.id !== id),
+  }));
+}
+
+export async function updateSignature(owner: string, signature: string) {
+  const library = await updateLibrary(owner, (current) => ({ ...current, signature }));
+  return library.signature;
+}
@@ -0,0 +1,139 @@
+import { formatDate } from "@/lib/format";
+import { DEFAULT_LOCALE, givenName, type ReplyLocale } from "@/lib/locale";
+
+export type ReplyTemplate = {
+  id: string;
+  label: string;
+  category: string;
+  body: string;
+  /** The body in other languages; `body` is used for any language without one. */
+  variants?: Partial<Record<ReplyLocale, string>>;
+  includeSignature: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type TemplateLibrary = {
+  templates: ReplyTemplate[];
+  signature: string;
+};
+
+export type TemplateRecipient = {
+  fromName: string | null;
+  fromAddress?: string | null;
+  subject: string;
+  snippet?: string;
+  date?: string | null;
+};
+
+export type TemplateContext = {
+  fromName: string | null;
+  firstName: string | null;
+  fromAddress: string | null;
+  subject: string;
+  snippet: string;
+  date: string;
+  myName: string | null;
+};
+
+export const TEMPLATE_VARIABLES: { name: keyof TemplateContext; description: string }[] = [
+  { name: "fromName", description: "Sender's display name" },
+  { name: "firstName", description: "Sender's given name" },
+  { name: "fromAddress", description: "Sender's email address" },
+  { name: "subject", description: "Subject of the incoming email" },
+  { name: "snippet", description: "Preview text of the incoming email" },
+  { name: "date", description: "When the email arrived" },
+  { name: "myName", description: "Your name" },
+];
+
+export const DEFAULT_TEMPLATES: ReplyTemplate[] = [
+  {
+    id: "acknowledge",
+    label: "Acknowledgement",
+    category: "General",
+    body: "Hi {{fromName|there}},\n\nThanks for reaching out about \"{{subject}}\". I received your message and will circle back with a full response soon.\n\nBest,\n{{myName}}\n",
+    variants: {
+      de: "Hallo {{firstName|zusammen}},\n\nvielen Dank für Ihre Nachricht zu „{{subject}}“. Ich habe sie erhalten und melde mich in Kürze ausführlich bei Ihnen.\n\nViele Grüße\n{{myName}}\n",
+      es: "Hola {{firstName|a todos}}:\n\nGracias por escribirme sobre «{{subject}}». He recibido tu mensaje y te responderé en detalle muy pronto.\n\nUn saludo,\n{{myName}}\n",
+      fr: "Bonjour {{firstName|Madame, Monsieur}},\n\nMerci pour votre message concernant « {{subject}} ». Je l'ai bien reçu et je reviens vers vous très prochainement.\n\nCordialement,\n{{myName}}\n",
+    },
+    includeSignature: true,
+  },
+  {
+    id: "schedule",
+    label: "Schedule a call",
+    category: "Meetings",
+    body: "Hi {{fromName|there}},\n\nAppreciate the note regarding \"{{subject}}\". Happy to connect—would you have time for a quick call later this week? Let me know a few windows that work for you.\n\nThanks,\n{{myName}}\n",
+    variants: {
+      de: "Hallo {{firstName|zusammen}},\n\ndanke für Ihre Nachricht zu „{{subject}}“. Gerne können wir telefonieren – hätten Sie diese Woche Zeit für ein kurzes Gespräch? Nennen Sie mir einfach ein paar passende Termine.\n\nViele Grüße\n{{myName}}\n",
+      es: "Hola {{firstName|a todos}}:\n\nGracias por tu mensaje sobre «{{subject}}». Encantado de hablarlo: ¿tendrías un momento para una llamada breve esta semana? Dime qué horarios te vienen bien.\n\nGracias,\n{{myName}}\n",
+      fr: "Bonjour {{firstName|Madame, Monsieur}},\n\nMerci pour votre message concernant « {{subject}} ». Avec plaisir pour en discuter : auriez-vous un moment pour un court appel cette semaine ? Indiquez-moi quelques créneaux qui vous conviennent.\n\nCordialement,\n{{myName}}\n",
+    },
+    includeSignature: true,
+  },
+  {
+    id: "follow-up",
+    label: "Ask for details",
+    category: "General",
+    body: "Hi {{fromName|there}},\n\nThanks for reaching out! Could you share a bit more detail about \"{{subject}}\" so I can help faster?\n\nLooking forward to your reply,\n{{myName}}\n",
+    variants: {
+      de: "Hallo {{firstName|zusammen}},\n\ndanke für Ihre Nachricht! Könnten Sie mir zu „{{subject}}“ noch etwas mehr erzählen, damit ich Ihnen schneller helfen kann?\n\nIch freue mich auf Ihre Antwort.\n{{myName}}\n",
+      es: "Hola {{firstName|a todos}}:\n\n¡Gracias por escribirme! ¿Podrías darme algo más de detalle sobre «{{subject}}» para poder ayudarte antes?\n\nQuedo a la espera de tu respuesta,\n{{myName}}\n",
+      fr: "Bonjour {{firstName|Madame, Monsieur}},\n\nMerci pour votre message ! Pourriez-vous me donner un peu plus de détails sur « {{subject}} » afin que je puisse vous aider plus rapidement ?\n\nDans l'attente de votre retour,\n{{myName}}\n",
+    },
+    includeSignature: true,
+  },
+];
+
+export const DEFAULT_LIBRARY: TemplateLibrary = {
+  templates: DEFAULT_TEMPLATES,
+  signature: "",
+};
+
+export function templateContext(
+  recipient: TemplateRecipient,
+  myName?: string | null,
+  locale: ReplyLocale = DEFAULT_LOCALE,
+): TemplateContext {
+  return {
+    fromName: recipient.fromName,
+    firstName: givenName(recipient.fromName),
+    fromAddress: recipient.fromAddress ?? null,
+    subject: recipient.subject,
+    snippet: recipient.snippet?.replace(/\s+/g, " ").trim() ?? "",
+    date: formatDate(recipient.date ?? null, locale),
+    myName: myName ?? null,
+  };
+}
+
+export function templateBody(template: Pick<ReplyTemplate, "body" | "variants">, locale: ReplyLocale) {
+  return template.variants?.[locale]?.trim() ? (template.variants[locale] as string) : template.body;
+}
+
+/**
+ * Replaces `{{variable}}` and `{{variable|fallback}}` placeholders in the
+ * body for `locale`. Unknown variables are left untouched so typos stay
+ * visible in the preview.
+ */
+export function renderTemplate(
+  template: Pick<ReplyTemplate, "body" | "variants" | "includeSignature">,
+  context: TemplateContext,
+  signature?: string | null,
+  locale: ReplyLocale = DEFAULT_LOCALE,
+) {
+  const body = templateBody(template, locale).replace(
+    /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g,
+    (placeholder, name: string, fallback: string | undefined) => {
+      if (!Object.hasOwn(context, name)) return placeholder;
+      const value = context[name as keyof TemplateContext];
+      return value || fallback?.trim() || "";
+    },
+  );
+
+  const trimmedSignature = signature?.trim();
+  if (!template.includeSignature || !trimmedSignature) {
+    return body;
+  }
+
+  return `${body.replace(/\s+$/, "")}\n\n-- \n${trimmedSignature}\n`;
+}
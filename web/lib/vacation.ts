@@ -0,0 +1,95 @@
+import type { gmail_v1 } from "googleapis";
+
+import { ValidationError } from "@/lib/errors";
+
+/** Gmail's out-of-office auto-reply, with dates as ISO strings. */
+export type VacationSettings = {
+  enabled: boolean;
+  subject: string;
+  text: string;
+  html: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  /** Only reply to people in the user's contacts. */
+  contactsOnly: boolean;
+  /** Only reply to people in the user's Google Workspace domain. */
+  domainOnly: boolean;
+};
+
+export const DEFAULT_VACATION: VacationSettings = {
+  enabled: false,
+  subject: "",
+  text: "",
+  html: null,
+  startTime: null,
+  endTime: null,
+  contactsOnly: false,
+  domainOnly: false,
+};
+
+function isoFromMillis(value: string | null | undefined) {
+  const millis = Number(value);
+  return value && Number.isFinite(millis) ? new Date(millis).toISOString() : null;
+}
+
+function millisFromIso(value: string | null | undefined, field: string) {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) throw new ValidationError(`Invalid ${field}`);
+  return String(time);
+}
+
+export function fromGmailVacation(data: gmail_v1.Schema$VacationSettings): VacationSettings {
+  return {
+    enabled: Boolean(data.enableAutoReply),
+    subject: data.responseSubject ?? "",
+    text: data.responseBodyPlainText ?? "",
+    html: data.responseBodyHtml || null,
+    startTime: isoFromMillis(data.startTime),
+    endTime: isoFromMillis(data.endTime),
+    contactsOnly: Boolean(data.restrictToContacts),
+    domainOnly: Boolean(data.restrictToDomain),
+  };
+}
+
+/**
+ * Validates settings from the page and converts them to Gmail's shape.
+ * Fields missing from `input` keep their `current` values.
+ */
+export function toGmailVacation(
+  input: Partial<VacationSettings>,
+  current: VacationSettings = DEFAULT_VACATION,
+): gmail_v1.Schema$VacationSettings {
+  const settings = { ...current, ...input };
+  const startTime = millisFromIso(settings.startTime, "start date");
+  const endTime = millisFromIso(settings.endTime, "end date");
+
+  if (startTime && endTime && Number(endTime) <= Number(startTime)) {
+    throw new ValidationError("The end date must be after the start date");
+  }
+  if (settings.enabled && !settings.text.trim() && !settings.html?.trim()) {
+    throw new ValidationError("Write a message before turning on the auto-reply");
+  }
+
+  return {
+    enableAutoReply: settings.enabled,
+    responseSubject: settings.subject.trim(),
+    responseBodyPlainText: settings.text,
+    responseBodyHtml: settings.html?.trim() ? settings.html : undefined,
+    startTime: startTime ?? undefined,
+    endTime: endTime ?? undefined,
+    restrictToContacts: settings.contactsOnly,
+    restrictToDomain: settings.domainOnly,
+  };
+}
+
+/**
+ * Whether the responder is answering mail right now, is set to start later,
+ * or is off (including turned on but already past its end date).
+ */
+export function vacationState(settings: VacationSettings, now = new Date()) {
+  if (!settings.enabled) return "off";
+  if (settings.endTime && new Date(settings.endTime) <= now) return "off";
+  if (settings.startTime && new Date(settings.startTime) > now) return "scheduled";
+  return "active";
+}
@@ -0,0 +1,33 @@
+import type { Session } from "next-auth";
+
+import { FakeGmailBackend, SAMPLE_INBOX, type FakeGmailSeed } from "@/lib/fake-gmail";
+import { setGmailClientFactory } from "@/lib/gmail-client";
+
+/** A signed-in session for the sample inbox's owner. */
+export function sessionFor(email = "me@example.com", name: string | null = "Morgan Example"): Session {
+  return {
+    user: { email, name },
+    accessToken: `token-${email}`,
+    refreshToken: `refresh-${email}`,
+    expires: "2999-01-01T00:00:00.000Z",
+  };
+}
+
+/** Points every Gmail client the app makes at a fresh in-memory backend. */
+export function fakeGmail(seed: FakeGmailSeed = SAMPLE_INBOX) {
+  const backend = new FakeGmailBackend(seed);
+  setGmailClientFactory(() => backend.client());
+  return backend;
+}
+
+export function apiRequest(path: string, init?: RequestInit) {
+  return new Request(new URL(path, "http://localhost"), init);
+}
+
+export function jsonRequest(path: string, body: unknown, method = "POST") {
+  return apiRequest(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
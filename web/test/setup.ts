@@ -0,0 +1,18 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterAll, vi } from "vitest";
+
+// Each test file gets its own JSON store, read by lib/store.ts when it loads.
+const dataDir = mkdtempSync(path.join(tmpdir(), "gmail-auto-responder-"));
+process.env.DATA_DIR = dataDir;
+
+afterAll(() => rmSync(dataDir, { recursive: true, force: true }));
+
+// The real client factory lives outside the tests' reach; every test swaps in FakeGmailBackend.
+vi.mock("@/lib/google", () => ({
+  createGmailClient: () => {
+    throw new Error("Tests must call setGmailClientFactory with a FakeGmailBackend client");
+  },
+}));
@@ -0,0 +1,19 @@
+import path from "node:path";
+
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  esbuild: { jsx: "automatic" },
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    // Route tests run in node; component tests opt into jsdom with a file comment.
+    environment: "node",
+    setupFiles: ["./test/setup.ts"],
+    // Room for the page test's first render, which loads every route module it fetches from.
+    testTimeout: 20_000,
+    // The page test drives the real route handlers in process, so server modules load as they do in Node.
+    testTransformMode: { ssr: ["**/*"] },
+  },
+});